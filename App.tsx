@@ -1,30 +1,234 @@
-import React, { useState, useCallback } from 'react';
-import { AuthCredentials, Vehicle } from './types';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { AuthCredentials, LiveUpdateStatus, Vehicle } from './types';
 import LoginPage from './components/LoginPage';
 import MainView from './components/MainView';
 import DetailView from './components/DetailView';
+import ConnectionStatus from './components/ConnectionStatus';
+import DiagnosticsPanel from './components/DiagnosticsPanel';
+import LockScreen from './components/LockScreen';
+import PreferencesPanel from './components/PreferencesPanel';
+import ProfileLibraryPanel from './components/ProfileLibraryPanel';
+import NotificationPanel from './components/NotificationPanel';
+import ReportVerificationPanel from './components/ReportVerificationPanel';
 import WebfleetService from './services/webfleetService';
+import { AccountConnection, DataSourceMode, connectionForVehicle } from './services/dataSource';
+import { RecordingTransport, saveRecordingToFile } from './services/sessionRecording';
+import { RecordIssue } from './services/webfleetSchemas';
+import { DEFAULT_IDLE_TIMEOUT_MS, IdleMonitor, Session, SessionState, accountKey } from './services/session';
+import { ProfileLibrary } from './services/productProfiles';
+import { ReportKeyring } from './services/reportSigning';
+import { AlertEngine, AlertSettings, loadAlertSettings, restoreAlertEngine, saveAlertEngine, saveAlertSettings, storedLimitLookup } from './services/alertRules';
+import { Alert, NotificationCenter, alertTitle, describeAlert, needsAttention } from './services/notificationCenter';
+import { playAlertSound, showBrowserNotification } from './services/browserAlerts';
+import { AlertChannel, AlertDispatcher, DeliveryLog, loadChannels, saveChannels } from './services/alertChannels';
+import { vehicleKey } from './services/liveUpdates';
+import { DEFAULT_PREFERENCES, DisplayPreferences, loadPreferences, resolveTimeZone, savePreferences, withTimeZone } from './services/preferences';
 
-type View = 'login' | 'main' | 'detail';
+type View = 'login' | 'main' | 'detail' | 'addAccount';
+
+// Most rules fire on time passing rather than on new readings, so they are also checked on a timer.
+const ALERT_EVALUATION_INTERVAL_MS = 30 * 1000;
 
 const App: React.FC = () => {
-  const [auth, setAuth] = useState<AuthCredentials | null>(null);
+  const [accounts, setAccounts] = useState<AccountConnection<WebfleetService>[]>([]);
+  const [session, setSession] = useState<Session | null>(null);
+  const [sessionState, setSessionState] = useState<SessionState>('ended');
+  const [dataSourceMode, setDataSourceMode] = useState<DataSourceMode>('live');
+  const [recorder, setRecorder] = useState<RecordingTransport | null>(null);
   const [currentView, setCurrentView] = useState<View>('login');
   const [selectedVehicle, setSelectedVehicle] = useState<Vehicle | null>(null);
+  const [liveStatus, setLiveStatus] = useState<LiveUpdateStatus | null>(null);
+  const [diagnosticIssues, setDiagnosticIssues] = useState<RecordIssue[]>([]);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [preferences, setPreferences] = useState<DisplayPreferences>(DEFAULT_PREFERENCES);
+  const [showPreferences, setShowPreferences] = useState(false);
+  const [profileLibrary] = useState(() => new ProfileLibrary());
+  const [showProfiles, setShowProfiles] = useState(false);
+  const [reportKeyring] = useState(() => new ReportKeyring());
+  const [showVerification, setShowVerification] = useState(false);
+  const [alertEngine] = useState(() => {
+    // Restored so a reload neither resolves the open alerts nor raises them again.
+    const engine = new AlertEngine(storedLimitLookup(profileLibrary));
+    restoreAlertEngine(engine);
+    return engine;
+  });
+  const [notificationCenter] = useState(() => new NotificationCenter());
+  const [alertSettings, setAlertSettings] = useState<AlertSettings>(() => loadAlertSettings());
+  const [alerts, setAlerts] = useState<Alert[]>(() => notificationCenter.list());
+  const [alertClock, setAlertClock] = useState(() => Date.now());
+  const [showAlerts, setShowAlerts] = useState(false);
+  const [alertChannels, setAlertChannels] = useState<AlertChannel[]>(() => loadChannels());
+  const [deliveryLog] = useState(() => new DeliveryLog());
+  // Secrets typed into the channels are not saved, so deliveries use the channels as edited in this session.
+  const alertChannelsRef = useRef(alertChannels);
+  const [alertDispatcher] = useState(() => new AlertDispatcher(() => alertChannelsRef.current, deliveryLog));
+
+  // Workspace-wide panels show times in the first account's zone.
+  const workspacePreferences = useMemo(
+    () => accounts.length > 0 ? withTimeZone(preferences, resolveTimeZone(preferences, accounts[0].auth.accountName)) : preferences,
+    [preferences, accounts]
+  );
+  const pendingAlerts = useMemo(() => alerts.filter(alert => needsAttention(alert, alertClock)), [alerts, alertClock]);
+  const alertedVehicleKeys = useMemo(
+    () => new Set(pendingAlerts.map(alert => vehicleKey({ account: alert.accountName, uid: alert.vehicleUid }))),
+    [pendingAlerts]
+  );
+
+  useEffect(() => notificationCenter.subscribe(() => setAlerts(notificationCenter.list())), [notificationCenter]);
+
+  useEffect(() => {
+    if (accounts.length === 0) return;
+    // Vehicles of accounts signed in before the reload but not now are no longer followed.
+    const accountNames = new Set(accounts.map(account => account.auth.accountName));
+    const evaluate = () => {
+      const now = Date.now();
+      const conditions = alertEngine.evaluate(alertSettings.rules, now).filter(condition => accountNames.has(condition.accountName));
+      const raised = notificationCenter.update(conditions, now);
+      saveAlertEngine(alertEngine);
+      setAlertClock(now);
+      if (raised.length === 0) return;
+      alertDispatcher.dispatch(raised, workspacePreferences).catch(error => console.error('Failed to dispatch alerts', error));
+      if (alertSettings.sound) playAlertSound();
+      if (alertSettings.browserNotifications) {
+        raised.forEach(alert => showBrowserNotification(alertTitle(alert), describeAlert(alert, workspacePreferences, now), alert.key));
+      }
+    };
+    const unsubscribe = alertEngine.subscribe(evaluate);
+    const timer = window.setInterval(evaluate, ALERT_EVALUATION_INTERVAL_MS);
+    return () => {
+      unsubscribe();
+      window.clearInterval(timer);
+    };
+  }, [accounts, alertEngine, notificationCenter, alertDispatcher, alertSettings, workspacePreferences]);
 
-  const handleLogin = useCallback((credentials: AuthCredentials) => {
-    setAuth(credentials);
+  useEffect(() => {
+    if (accounts.length === 0) {
+      setDiagnosticIssues([]);
+      setShowDiagnostics(false);
+      return;
+    }
+    const collectIssues = () => setDiagnosticIssues(
+      accounts.flatMap(account => account.dataSource.diagnostics.getIssues()).sort((a, b) => b.receivedAt - a.receivedAt)
+    );
+    collectIssues();
+    const unsubscribers = accounts.map(account => account.dataSource.diagnostics.subscribe(collectIssues));
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [accounts]);
+
+  useEffect(() => {
+    if (!session) return;
+    setSessionState(session.getState());
+    const unsubscribers = [
+      session.subscribe(setSessionState),
+      ...accounts.map(account => account.dataSource.onAuthFailure(() => session.lock('expired'))),
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [session, accounts]);
+
+  useEffect(() => {
+    if (!session || sessionState !== 'active') return;
+    const monitor = new IdleMonitor(DEFAULT_IDLE_TIMEOUT_MS, () => session.lock('locked'));
+    monitor.start();
+    return () => monitor.stop();
+  }, [session, sessionState]);
+
+  const handleLogin = useCallback((
+    credentials: AuthCredentials,
+    loginService: WebfleetService,
+    mode: DataSourceMode,
+    sessionRecorder: RecordingTransport | null,
+    loginSession: Session
+  ) => {
+    const connection = { auth: credentials, dataSource: loginService };
+    if (currentView === 'addAccount') {
+      setAccounts(prev => [...prev, connection]);
+    } else {
+      setAccounts([connection]);
+      setPreferences(loadPreferences(credentials));
+      setSession(loginSession);
+      setDataSourceMode(mode);
+      setRecorder(sessionRecorder);
+    }
     setCurrentView('main');
-  }, []);
+  }, [currentView]);
+
+  // What the alerts remember of an account leaves with it: tracked vehicles, raised alerts and deliveries.
+  const forgetAlerts = useCallback((accountName: string) => {
+    alertEngine.forgetAccount(accountName);
+    saveAlertEngine(alertEngine);
+    notificationCenter.forgetAccount(accountName);
+    deliveryLog.forgetAccount(accountName);
+  }, [alertEngine, notificationCenter, deliveryLog]);
 
   const handleLogout = useCallback(async () => {
-    if (auth) {
-      await WebfleetService.logout(auth);
-    }
-    setAuth(null);
+    session?.end();
+    await Promise.all(accounts.map(account => account.dataSource.logout(account.auth)));
+    setAccounts([]);
+    setSession(null);
+    setSessionState('ended');
+    setDataSourceMode('live');
+    setRecorder(null);
     setSelectedVehicle(null);
+    setLiveStatus(null);
+    setPreferences(DEFAULT_PREFERENCES);
+    setShowPreferences(false);
+    setShowProfiles(false);
+    setShowAlerts(false);
+    accounts.forEach(account => forgetAlerts(account.auth.accountName));
     setCurrentView('login');
-  }, [auth]);
+  }, [accounts, session, forgetAlerts]);
+
+  const handleRemoveAccount = useCallback(async (accountName: string) => {
+    const account = accounts.find(a => a.auth.accountName === accountName);
+    if (!account) return;
+    if (accounts.length === 1) {
+      await handleLogout();
+      return;
+    }
+    session?.removeAccount(account.auth);
+    await account.dataSource.logout(account.auth);
+    setAccounts(prev => prev.filter(a => a !== account));
+    forgetAlerts(accountName);
+    if (selectedVehicle?.account === accountName) {
+      setSelectedVehicle(null);
+      setCurrentView('main');
+    }
+  }, [accounts, session, selectedVehicle, handleLogout, forgetAlerts]);
+
+  const handleReauthenticate = useCallback(() => {
+    session?.lock('expired');
+  }, [session]);
+
+  const handleUnlock = useCallback(async (passwords: Record<string, string>) => {
+    if (!session) return;
+    await session.unlock(passwords, credentials => {
+      const account = accounts.find(a => accountKey(a.auth) === accountKey(credentials));
+      return account ? account.dataSource.login(credentials) : Promise.resolve();
+    });
+  }, [session, accounts]);
+
+  // Preferences belong to the user who opened the workspace, not to each merged account.
+  const handlePreferencesChange = useCallback((next: DisplayPreferences) => {
+    setPreferences(next);
+    if (accounts.length > 0) savePreferences(accounts[0].auth, next);
+  }, [accounts]);
+
+  const handleAlertSettingsChange = useCallback((next: AlertSettings) => {
+    setAlertSettings(next);
+    saveAlertSettings(next);
+  }, []);
+
+  const handleAlertChannelsChange = useCallback((next: AlertChannel[]) => {
+    alertChannelsRef.current = next;
+    setAlertChannels(next);
+    saveChannels(next);
+  }, []);
+
+  const handleSaveRecording = useCallback(() => {
+    if (recorder) {
+      saveRecordingToFile(recorder.toRecording());
+    }
+  }, [recorder]);
 
   const handleSelectVehicle = useCallback((vehicle: Vehicle) => {
     setSelectedVehicle(vehicle);
@@ -37,28 +241,39 @@ const App: React.FC = () => {
   }, []);
 
   const renderContent = () => {
-    if (currentView === 'login' || !auth) {
+    if (currentView === 'login' || accounts.length === 0) {
       return <LoginPage onLogin={handleLogin} />;
     }
 
     switch (currentView) {
       case 'main':
-        return <MainView auth={auth} onSelectVehicle={handleSelectVehicle} />;
-      case 'detail':
-        if (selectedVehicle) {
-          return <DetailView auth={auth} vehicle={selectedVehicle} onBack={handleBackToMain} />;
+        return <MainView accounts={accounts} preferences={preferences} profileLibrary={profileLibrary} alertEngine={alertEngine} alertedVehicleKeys={alertedVehicleKeys} onSelectVehicle={handleSelectVehicle} onReauthenticate={handleReauthenticate} onRemoveAccount={handleRemoveAccount} onLiveStatusChange={setLiveStatus} />;
+      case 'detail': {
+        const connection = selectedVehicle ? connectionForVehicle(accounts, selectedVehicle) : null;
+        if (selectedVehicle && connection) {
+          return <DetailView auth={connection.auth} dataSource={connection.dataSource} vehicle={selectedVehicle} profileLibrary={profileLibrary} reportKeyring={reportKeyring} preferences={preferences} onPreferencesChange={handlePreferencesChange} onBack={handleBackToMain} onReauthenticate={handleReauthenticate} />;
         }
-        // Fallback to main view if no vehicle is selected
+        // Fallback to main view if no vehicle is selected or its account was removed
         setCurrentView('main');
-        return <MainView auth={auth} onSelectVehicle={handleSelectVehicle} />;
+        return <MainView accounts={accounts} preferences={preferences} profileLibrary={profileLibrary} alertEngine={alertEngine} alertedVehicleKeys={alertedVehicleKeys} onSelectVehicle={handleSelectVehicle} onReauthenticate={handleReauthenticate} onRemoveAccount={handleRemoveAccount} onLiveStatusChange={setLiveStatus} />;
+      }
       default:
         return <LoginPage onLogin={handleLogin} />;
     }
   };
 
+  if (session && (sessionState === 'locked' || sessionState === 'expired')) {
+    // Views unmount while locked so nothing keeps polling or showing fleet data on a shared screen.
+    return <LockScreen identities={accounts.map(account => account.auth)} reason={sessionState} onUnlock={handleUnlock} onSignOut={handleLogout} />;
+  }
+
+  if (currentView === 'addAccount' && session) {
+    return <LoginPage onLogin={handleLogin} session={session} onCancel={() => setCurrentView('main')} />;
+  }
+
   return (
     <div className="flex flex-col h-screen bg-gray-100">
-      {auth && (
+      {accounts.length > 0 && (
         <header className="bg-white text-gray-800 shadow-md">
           <div className="container mx-auto px-4 sm:px-6 lg:px-8">
             <div className="grid grid-cols-3 items-center h-20">
@@ -68,7 +283,76 @@ const App: React.FC = () => {
               <div className="text-center">
                 <h1 className="text-2xl font-bold">COLD CHAIN</h1>
               </div>
-              <div className="flex justify-end">
+              <div className="flex justify-end items-center gap-4">
+                {liveStatus && <ConnectionStatus status={liveStatus} />}
+                {dataSourceMode === 'replay' && (
+                  <span className="text-xs font-semibold px-2 py-1 rounded-full bg-blue-100 text-blue-800">REPLAY</span>
+                )}
+                {dataSourceMode === 'recording' && (
+                  <button
+                    onClick={handleSaveRecording}
+                    className="flex items-center text-gray-800 hover:text-red-500 transition-colors duration-300"
+                    title="Download the responses captured in this session"
+                  >
+                    <span className="material-icons mr-1 text-red-500">fiber_manual_record</span>
+                    Save Recording
+                  </button>
+                )}
+                {diagnosticIssues.length > 0 && (
+                  <button
+                    onClick={() => setShowDiagnostics(prev => !prev)}
+                    className="flex items-center text-gray-800 hover:text-yellow-600 transition-colors duration-300"
+                    title="Show Webfleet records that did not match the expected format"
+                  >
+                    <span className="material-icons mr-1 text-yellow-600">bug_report</span>
+                    Diagnostics ({diagnosticIssues.length})
+                  </button>
+                )}
+                {dataSourceMode !== 'replay' && (
+                  <button
+                    onClick={() => setCurrentView('addAccount')}
+                    className="flex items-center text-gray-800 hover:text-red-500 transition-colors duration-300"
+                    title="Sign in to another Webfleet account and merge its fleet"
+                  >
+                    <span className="material-icons mr-1">group_add</span>
+                    Add Account
+                  </button>
+                )}
+                <button
+                  onClick={() => setShowAlerts(prev => !prev)}
+                  className="relative flex items-center text-gray-800 hover:text-red-500 transition-colors duration-300"
+                  title="Alerts raised by the rules on live fleet data"
+                >
+                  <span className="material-icons mr-1">{pendingAlerts.length > 0 ? 'notifications_active' : 'notifications'}</span>
+                  Alerts
+                  {pendingAlerts.length > 0 && (
+                    <span className="ml-1 text-xs font-semibold px-2 py-0.5 rounded-full bg-red-500 text-white">{pendingAlerts.length}</span>
+                  )}
+                </button>
+                <button
+                  onClick={() => setShowProfiles(prev => !prev)}
+                  className="flex items-center text-gray-800 hover:text-red-500 transition-colors duration-300"
+                  title="Named product profiles with their limits, alarm delay and door-open time"
+                >
+                  <span className="material-icons mr-1">inventory_2</span>
+                  Profiles
+                </button>
+                <button
+                  onClick={() => setShowVerification(prev => !prev)}
+                  className="flex items-center text-gray-800 hover:text-red-500 transition-colors duration-300"
+                  title="Check the signature and checksum of a downloaded report"
+                >
+                  <span className="material-icons mr-1">verified</span>
+                  Verify report
+                </button>
+                <button
+                  onClick={() => setShowPreferences(prev => !prev)}
+                  className="flex items-center text-gray-800 hover:text-red-500 transition-colors duration-300"
+                  title="Temperature unit, precision and date format"
+                >
+                  <span className="material-icons mr-1">settings</span>
+                  Preferences
+                </button>
                 <button
                   onClick={handleLogout}
                   className="flex items-center text-gray-800 hover:text-red-500 transition-colors duration-300"
@@ -81,6 +365,51 @@ const App: React.FC = () => {
           </div>
         </header>
       )}
+      {accounts.length > 0 && showDiagnostics && (
+        <DiagnosticsPanel
+          issues={diagnosticIssues}
+          preferences={workspacePreferences}
+          onClear={() => accounts.forEach(account => account.dataSource.diagnostics.clear())}
+          onClose={() => setShowDiagnostics(false)}
+        />
+      )}
+      {accounts.length > 0 && showPreferences && (
+        <PreferencesPanel
+          preferences={preferences}
+          accountNames={accounts.map(account => account.auth.accountName)}
+          onChange={handlePreferencesChange}
+          onClose={() => setShowPreferences(false)}
+        />
+      )}
+      {accounts.length > 0 && showAlerts && (
+        <NotificationPanel
+          center={notificationCenter}
+          alerts={alerts}
+          settings={alertSettings}
+          channels={alertChannels}
+          dispatcher={alertDispatcher}
+          deliveryLog={deliveryLog}
+          preferences={workspacePreferences}
+          now={alertClock}
+          onSettingsChange={handleAlertSettingsChange}
+          onChannelsChange={handleAlertChannelsChange}
+          onClose={() => setShowAlerts(false)}
+        />
+      )}
+      {accounts.length > 0 && showProfiles && (
+        <ProfileLibraryPanel
+          library={profileLibrary}
+          preferences={preferences}
+          onClose={() => setShowProfiles(false)}
+        />
+      )}
+      {accounts.length > 0 && showVerification && (
+        <ReportVerificationPanel
+          keyring={reportKeyring}
+          preferences={workspacePreferences}
+          onClose={() => setShowVerification(false)}
+        />
+      )}
       <main className={`flex-grow flex flex-col min-h-0 ${currentView === 'detail' ? 'bg-vehicles-header' : ''}`}>
         {renderContent()}
       </main>
@@ -0,0 +1,261 @@
+// Generates the vehicle reports of DetailView without a browser. Run `npm run report -- --help` for the options.
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { jsPDF } from 'jspdf';
+import { applyPlugin } from 'jspdf-autotable';
+import { AuthCredentials, Vehicle } from '../types';
+import WebfleetService from '../services/webfleetService';
+import { createFetchTransport } from '../services/apiTransport';
+import { describeError } from '../services/webfleetErrors';
+import { loadPreferences, resolveTimeZone, withTimeZone } from '../services/preferences';
+import { isValidTimeZone, parseDateTimeLocalValue } from '../services/timeZones';
+import { loadVehicleLimits } from '../services/temperatureLimits';
+import { loadCalibrations, loadThermographTemplate } from '../services/thermographTemplate';
+import { ProfileLibrary } from '../services/productProfiles';
+import { DEFAULT_RANGE_PATTERN, RangeSelection, customRange, rangeRequest, resolveRange } from '../services/reportRange';
+import { REPORT_KIND_LABELS, ReportDataError, ReportKind, VehicleReport, buildVehicleReport, renderDoorReport, renderFullReport, renderThermographTicket, reportCsv, reportFileName } from '../services/reports';
+import { FileStorage } from '../daemon/fileStorage';
+
+applyPlugin(jsPDF);
+
+type OutputFormat = 'pdf' | 'csv';
+
+const REPORT_KINDS: ReportKind[] = ['thermograph', 'door', 'full'];
+const OUTPUT_FORMATS: OutputFormat[] = ['pdf', 'csv'];
+
+const USAGE = `Usage: npm run report -- [options]
+
+  --vehicle <uid or name>   Vehicle to report on; repeat for several (required)
+  --range <pattern>         Webfleet range pattern such as d-1, w-1 or m-1 (default ${DEFAULT_RANGE_PATTERN})
+  --hours <n>               The last n hours instead of a range pattern
+  --from <date> --to <date> Explicit range, YYYY-MM-DD or YYYY-MM-DDTHH:MM on the vehicle's clock
+  --report <kinds>          Comma-separated: ${REPORT_KINDS.join(', ')} (default all)
+  --format <formats>        Comma-separated: ${OUTPUT_FORMATS.join(', ')} (default both)
+  --out <dir>               Output directory (default reports)
+  --time-zone <zone>        IANA zone for the reports, instead of the saved preferences
+  --state <file>            State file with limits, product profiles and preferences (default coldchain-state.json)
+  --account, --username, --password, --api-key
+                            Webfleet credentials; default to WEBFLEET_ACCOUNT, WEBFLEET_USERNAME,
+                            WEBFLEET_PASSWORD and WEBFLEET_API_KEY`;
+
+class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+interface ReportOptions {
+    auth: AuthCredentials;
+    vehicles: string[];
+    rangePattern: string;
+    hours: number | null;
+    from: string | null;
+    to: string | null;
+    kinds: ReportKind[];
+    formats: OutputFormat[];
+    outDir: string;
+    timeZone: string | null;
+    stateFile: string;
+}
+
+const parseList = <T extends string>(value: string | undefined, allowed: T[], option: string): T[] => {
+    if (!value) return allowed;
+    const items = value.split(',').map(item => item.trim()).filter(Boolean);
+    const unknown = items.filter(item => !allowed.includes(item as T));
+    if (unknown.length > 0) throw new UsageError(`Unknown ${option}: ${unknown.join(', ')}.`);
+    return items as T[];
+};
+
+const parseOptions = (args: string[]): ReportOptions | null => {
+    const { values } = parseArgs({
+        args,
+        options: {
+            vehicle: { type: 'string', multiple: true },
+            range: { type: 'string' },
+            hours: { type: 'string' },
+            from: { type: 'string' },
+            to: { type: 'string' },
+            report: { type: 'string' },
+            format: { type: 'string' },
+            out: { type: 'string' },
+            'time-zone': { type: 'string' },
+            state: { type: 'string' },
+            account: { type: 'string' },
+            username: { type: 'string' },
+            password: { type: 'string' },
+            'api-key': { type: 'string' },
+            help: { type: 'boolean' },
+        },
+    });
+    if (values.help) return null;
+
+    const auth: AuthCredentials = {
+        accountName: values.account ?? process.env.WEBFLEET_ACCOUNT ?? '',
+        username: values.username ?? process.env.WEBFLEET_USERNAME ?? '',
+        password: values.password ?? process.env.WEBFLEET_PASSWORD ?? '',
+        apiKey: values['api-key'] ?? process.env.WEBFLEET_API_KEY ?? '',
+    };
+    if (!auth.accountName || !auth.username || !auth.password || !auth.apiKey) {
+        throw new UsageError('Give the account, username, password and API key.');
+    }
+    if (!values.vehicle || values.vehicle.length === 0) {
+        throw new UsageError('Name at least one vehicle with --vehicle.');
+    }
+    if ((values.from === undefined) !== (values.to === undefined)) {
+        throw new UsageError('--from and --to go together.');
+    }
+    const hours = values.hours !== undefined ? Number(values.hours) : null;
+    if (hours !== null && !(hours > 0)) {
+        throw new UsageError('--hours must be a positive number.');
+    }
+    if ([values.range, values.hours, values.from].filter(value => value !== undefined).length > 1) {
+        throw new UsageError('Choose one of --range, --hours or --from/--to.');
+    }
+    const timeZone = values['time-zone'] ?? null;
+    if (timeZone && !isValidTimeZone(timeZone)) {
+        throw new UsageError(`Unknown time zone "${timeZone}".`);
+    }
+
+    return {
+        auth,
+        vehicles: values.vehicle,
+        rangePattern: values.range ?? DEFAULT_RANGE_PATTERN,
+        hours,
+        from: values.from ?? null,
+        to: values.to ?? null,
+        kinds: parseList(values.report, REPORT_KINDS, 'report'),
+        formats: parseList(values.format, OUTPUT_FORMATS, 'format'),
+        outDir: values.out ?? 'reports',
+        timeZone,
+        stateFile: values.state ?? 'coldchain-state.json',
+    };
+};
+
+const parseDate = (value: string, timeZone: string): number => {
+    const timestamp = parseDateTimeLocalValue(/T/.test(value) ? value : `${value}T00:00`, timeZone);
+    if (timestamp === null) throw new UsageError(`"${value}" is not a date like 2026-03-01 or 2026-03-01T06:00.`);
+    return timestamp;
+};
+
+// Explicit dates are read on the vehicle's clock, like the custom range in DetailView.
+const rangeSelection = (options: ReportOptions, timeZone: string): RangeSelection => {
+    if (options.from !== null && options.to !== null) {
+        return customRange(parseDate(options.from, timeZone), parseDate(options.to, timeZone));
+    }
+    if (options.hours !== null) return { kind: 'relative', hours: options.hours };
+    return { kind: 'pattern', rangePattern: options.rangePattern };
+};
+
+const findVehicle = (vehicles: Vehicle[], wanted: string): Vehicle | undefined =>
+    vehicles.find(vehicle => vehicle.uid === wanted)
+        ?? vehicles.find(vehicle => vehicle.name.toLowerCase() === wanted.toLowerCase());
+
+const writeReport = (kind: ReportKind, format: OutputFormat, report: VehicleReport, outDir: string): string => {
+    const file = path.join(outDir, reportFileName(kind, report, format));
+    if (format === 'csv') {
+        fs.writeFileSync(file, reportCsv(kind, report));
+        return file;
+    }
+    const doc: any = new jsPDF();
+    switch (kind) {
+        case 'thermograph':
+            renderThermographTicket(doc, report);
+            break;
+        case 'door':
+            renderDoorReport(doc, report);
+            break;
+        case 'full':
+            renderFullReport(doc, report, null);
+            break;
+    }
+    fs.writeFileSync(file, Buffer.from(doc.output('arraybuffer')));
+    return file;
+};
+
+const run = async (options: ReportOptions): Promise<boolean> => {
+    const storage = new FileStorage(options.stateFile);
+    const library = new ProfileLibrary(storage);
+    const profiles = new Map(library.listProfiles().map(profile => [profile.id, profile]));
+    const savedPreferences = loadPreferences(options.auth, storage);
+    const service = new WebfleetService(createFetchTransport());
+
+    await service.login(options.auth);
+    const vehicles = await service.getVehiclesAndAssets(options.auth);
+    fs.mkdirSync(options.outDir, { recursive: true });
+
+    let succeeded = true;
+    for (const wanted of options.vehicles) {
+        const vehicle = findVehicle(vehicles, wanted);
+        if (!vehicle) {
+            console.error(`${wanted}: no such vehicle in ${options.auth.accountName}.`);
+            succeeded = false;
+            continue;
+        }
+        try {
+            const timeZone = options.timeZone ?? resolveTimeZone(savedPreferences, options.auth.accountName, vehicle);
+            const selection = rangeSelection(options, timeZone);
+            const range = resolveRange(selection, timeZone);
+            const request = rangeRequest(selection, range);
+            const historical = await service.getHistoricalData(
+                options.auth,
+                typeof request === 'string' ? { objectuid: vehicle.uid, rangePattern: request } : { objectuid: vehicle.uid, ...request }
+            );
+            const report = buildVehicleReport({
+                vehicle,
+                points: historical.points,
+                gaps: historical.gaps,
+                selection,
+                range,
+                sensors: service.sensors,
+                limits: loadVehicleLimits(vehicle.account, vehicle.uid, storage),
+                assignments: library.listAssignments(vehicle.account, vehicle.uid),
+                profiles,
+                preferences: withTimeZone(savedPreferences, timeZone),
+                template: loadThermographTemplate(vehicle.account, storage),
+                calibrations: loadCalibrations(vehicle.account, vehicle.uid, storage),
+            });
+            if (historical.gaps.length > 0) {
+                console.warn(`${vehicle.name}: ${historical.gaps.length} time window(s) could not be retrieved; the reports say so.`);
+            }
+
+            for (const kind of options.kinds) {
+                for (const format of options.formats) {
+                    try {
+                        console.log(`${vehicle.name}: wrote ${writeReport(kind, format, report, options.outDir)}`);
+                    } catch (error) {
+                        if (!(error instanceof ReportDataError)) throw error;
+                        console.log(`${vehicle.name}: skipped the ${REPORT_KIND_LABELS[kind].toLowerCase()}. ${error.message}`);
+                    }
+                }
+            }
+        } catch (error) {
+            console.error(`${vehicle.name}: ${describeError(error, 'Failed to generate the reports.').message}`);
+            succeeded = false;
+        }
+    }
+    return succeeded;
+};
+
+const main = async (): Promise<number> => {
+    let options: ReportOptions | null;
+    try {
+        options = parseOptions(process.argv.slice(2));
+    } catch (error) {
+        console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+        return 2;
+    }
+    if (!options) {
+        console.log(USAGE);
+        return 0;
+    }
+    try {
+        return await run(options) ? 0 : 1;
+    } catch (error) {
+        console.error(describeError(error, 'Failed to reach Webfleet.').message);
+        return 1;
+    }
+};
+
+main().then(code => process.exit(code));
@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import {
+  AlertChannel,
+  AlertDispatcher,
+  CHANNEL_KIND_LABELS,
+  ChannelKind,
+  ChatStyle,
+  DeliveryLog,
+  newChannel,
+  sampleAlert,
+  validateChannel,
+} from '../services/alertChannels';
+import { DisplayPreferences, formatDateTime } from '../services/preferences';
+
+interface AlertChannelsProps {
+  channels: AlertChannel[];
+  dispatcher: AlertDispatcher;
+  deliveryLog: DeliveryLog;
+  preferences: DisplayPreferences;
+  onChange: (channels: AlertChannel[]) => void;
+}
+
+const inputClassName = "bg-white border border-gray-300 rounded-md py-1 px-2 text-sm text-gray-900 focus:ring-red-500 focus:border-red-500";
+const secondaryButtonClassName = "px-3 py-1 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md";
+
+const ChannelFields: React.FC<{ channel: AlertChannel; onChange: (channel: AlertChannel) => void }> = ({ channel, onChange }) => {
+  switch (channel.kind) {
+    case 'webhook':
+      return (
+        <>
+          <input value={channel.url} onChange={(e) => onChange({ ...channel, url: e.target.value })} className={`w-72 ${inputClassName}`} placeholder="https://example.com/hooks/cold-chain" aria-label="Webhook URL" />
+          <input type="password" value={channel.secret} onChange={(e) => onChange({ ...channel, secret: e.target.value })} className={inputClassName} placeholder="Signing secret (not saved)" aria-label="Signing secret" />
+        </>
+      );
+    case 'chat':
+      return (
+        <>
+          <select value={channel.style} onChange={(e) => onChange({ ...channel, style: e.target.value as ChatStyle })} className={inputClassName} aria-label="Chat tool">
+            <option value="slack">Slack</option>
+            <option value="teams">Microsoft Teams</option>
+          </select>
+          <input value={channel.url} onChange={(e) => onChange({ ...channel, url: e.target.value })} className={`w-72 ${inputClassName}`} placeholder="Incoming webhook URL" aria-label="Incoming webhook URL" />
+        </>
+      );
+    case 'email':
+      return (
+        <>
+          <input value={channel.host} onChange={(e) => onChange({ ...channel, host: e.target.value })} className={inputClassName} placeholder="smtp.example.com" aria-label="SMTP server" />
+          <input type="number" value={channel.port} onChange={(e) => onChange({ ...channel, port: parseInt(e.target.value, 10) || 0 })} className={`w-20 ${inputClassName}`} aria-label="SMTP port" />
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={channel.secure} onChange={(e) => onChange({ ...channel, secure: e.target.checked })} className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded" />
+            TLS
+          </label>
+          <input value={channel.username} onChange={(e) => onChange({ ...channel, username: e.target.value })} className={inputClassName} placeholder="Username" aria-label="SMTP username" />
+          <input value={channel.from} onChange={(e) => onChange({ ...channel, from: e.target.value })} className={inputClassName} placeholder="From" aria-label="Sender address" />
+          <input
+            defaultValue={channel.to.join(', ')}
+            onBlur={(e) => onChange({ ...channel, to: e.target.value.split(',').map(address => address.trim()).filter(Boolean) })}
+            className={`w-64 ${inputClassName}`}
+            placeholder="To, separated by commas"
+            aria-label="Recipients"
+          />
+        </>
+      );
+  }
+};
+
+const AlertChannels: React.FC<AlertChannelsProps> = ({ channels, dispatcher, deliveryLog, preferences, onChange }) => {
+  const [deliveries, setDeliveries] = useState(() => deliveryLog.list());
+  const [newKind, setNewKind] = useState<ChannelKind>('webhook');
+  const [testing, setTesting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => deliveryLog.subscribe(() => setDeliveries(deliveryLog.list())), [deliveryLog]);
+
+  const updateChannel = (next: AlertChannel) => onChange(channels.map(channel => channel.id === next.id ? next : channel));
+
+  const handleTest = async (channel: AlertChannel) => {
+    const problem = validateChannel(channel);
+    if (problem) {
+      setError(`${channel.name}: ${problem}`);
+      return;
+    }
+    setError(null);
+    setTesting(channel.id);
+    try {
+      await dispatcher.deliver(channel, sampleAlert(), preferences);
+    } finally {
+      setTesting(null);
+    }
+  };
+
+  return (
+    <div className="mb-4 p-3 border border-gray-200 rounded-md space-y-3 text-sm text-gray-700">
+      <p className="text-gray-500">
+        New alerts are sent to every enabled channel. Failed deliveries are retried with a growing delay. Email is only delivered by the monitoring daemon, since browsers cannot talk to mail servers. Signing secrets are kept until this page is closed, and SMTP passwords are only read from the daemon configuration.
+      </p>
+      {channels.map(channel => (
+        <div key={channel.id} className="flex items-center gap-2 flex-wrap">
+          <input
+            type="checkbox"
+            checked={channel.enabled}
+            onChange={(e) => updateChannel({ ...channel, enabled: e.target.checked })}
+            className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded"
+            aria-label={`Enable ${channel.name}`}
+          />
+          <input value={channel.name} onChange={(e) => updateChannel({ ...channel, name: e.target.value })} className={`w-40 ${inputClassName}`} aria-label="Channel name" />
+          <ChannelFields channel={channel} onChange={updateChannel} />
+          <span>attempts</span>
+          <input type="number" min="1" value={channel.maxAttempts} onChange={(e) => updateChannel({ ...channel, maxAttempts: Math.max(1, parseInt(e.target.value, 10) || 1) })} className={`w-16 ${inputClassName}`} aria-label="Attempts" />
+          <span>retry after</span>
+          <input type="number" min="0" value={channel.retryDelaySeconds} onChange={(e) => updateChannel({ ...channel, retryDelaySeconds: Math.max(0, parseInt(e.target.value, 10) || 0) })} className={`w-16 ${inputClassName}`} aria-label="Retry delay in seconds" />
+          <span>s</span>
+          <button onClick={() => handleTest(channel)} disabled={testing === channel.id} className={`${secondaryButtonClassName} disabled:opacity-50`}>
+            {testing === channel.id ? 'Sending...' : 'Send test'}
+          </button>
+          <button onClick={() => onChange(channels.filter(c => c.id !== channel.id))} className="text-sm text-gray-600 hover:text-red-600 underline">Remove</button>
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <select value={newKind} onChange={(e) => setNewKind(e.target.value as ChannelKind)} className={inputClassName} aria-label="Channel type">
+          {(Object.keys(CHANNEL_KIND_LABELS) as ChannelKind[]).map(kind => <option key={kind} value={kind}>{CHANNEL_KIND_LABELS[kind]}</option>)}
+        </select>
+        <button onClick={() => onChange([...channels, newChannel(newKind)])} className={secondaryButtonClassName}>Add channel</button>
+      </div>
+      {error && <p className="text-red-500">{error}</p>}
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <span className="font-medium text-gray-800">Delivery log</span>
+          {deliveries.length > 0 && <button onClick={() => deliveryLog.clear()} className="text-sm text-gray-600 hover:text-red-600 underline">Clear</button>}
+        </div>
+        {deliveries.length === 0 ? (
+          <p className="text-gray-500">Nothing sent yet.</p>
+        ) : (
+          <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100">
+            {deliveries.map(record => (
+              <li key={record.id} className="py-1 flex gap-3">
+                <span className="text-gray-500 whitespace-nowrap">{formatDateTime(record.at, preferences, true)}</span>
+                <span className={`font-semibold ${record.ok ? 'text-green-700' : 'text-red-600'}`}>{record.ok ? 'Sent' : 'Failed'}</span>
+                <span>{record.channelName} · attempt {record.attempt} · {record.summary}{record.error ? ` · ${record.error}` : ''}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AlertChannels;
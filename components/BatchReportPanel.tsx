@@ -0,0 +1,182 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Vehicle } from '../types';
+import { AccountConnection } from '../services/dataSource';
+import { DisplayPreferences, resolveTimeZone } from '../services/preferences';
+import { ProfileLibrary } from '../services/productProfiles';
+import { DEFAULT_RANGE, RangeSelection } from '../services/reportRange';
+import { REPORT_KIND_LABELS } from '../services/reports';
+import { BATCH_REPORT_KINDS, BatchItem, BatchItemStatus, BatchReportKind, BatchResult, queuedBatchItem, runBatchReports } from '../services/batchReports';
+import { downloadBlob } from '../services/dataExport';
+import RangeSelector from './RangeSelector';
+
+// Declare global libraries loaded via CDN
+declare const jspdf: any;
+
+interface BatchReportPanelProps {
+  accounts: AccountConnection[];
+  // The vehicles ticked in the vehicle list, in list order.
+  vehicles: Vehicle[];
+  preferences: DisplayPreferences;
+  profileLibrary: ProfileLibrary;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onClose: () => void;
+}
+
+const secondaryButtonClassName = "px-3 py-1 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md disabled:opacity-50";
+
+const STATUS_STYLES: Record<BatchItemStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-gray-100 text-gray-700' },
+  fetching: { label: 'Fetching', className: 'bg-blue-100 text-blue-800' },
+  done: { label: 'Done', className: 'bg-green-100 text-green-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-yellow-100 text-yellow-800' },
+};
+
+const itemDetail = (item: BatchItem): string => {
+  switch (item.status) {
+    case 'fetching':
+      return item.progress ? `${item.progress.completedChunks} of ${item.progress.totalChunks} time windows` : 'Waiting for Webfleet...';
+    case 'done':
+      return [`${item.files.length} report(s)`, ...item.skipped].join('. ');
+    case 'failed':
+      return item.error ?? '';
+    default:
+      return '';
+  }
+};
+
+const zipBlob = (result: BatchResult): Blob => new Blob([result.zip], { type: 'application/zip' });
+
+const BatchReportPanel: React.FC<BatchReportPanelProps> = ({ accounts, vehicles, preferences, profileLibrary, onSelectAll, onClearSelection, onClose }) => {
+  const [selection, setSelection] = useState<RangeSelection>(DEFAULT_RANGE);
+  const [kinds, setKinds] = useState<BatchReportKind[]>(BATCH_REPORT_KINDS);
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [result, setResult] = useState<BatchResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => controllerRef.current?.abort();
+  }, []);
+
+  // Custom ranges are entered on the first account's clock; range patterns resolve on each vehicle's.
+  const timeZone = resolveTimeZone(preferences, accounts[0]?.auth.accountName ?? '');
+
+  const toggleKind = (kind: BatchReportKind) => {
+    setKinds(prev => prev.includes(kind) ? prev.filter(k => k !== kind) : BATCH_REPORT_KINDS.filter(k => k === kind || prev.includes(k)));
+  };
+
+  const handleGenerate = async () => {
+    if (typeof jspdf === 'undefined' || typeof (new jspdf.jsPDF()).autoTable === 'undefined') {
+      setError('PDF generation library is not loaded.');
+      return;
+    }
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRunning(true);
+    setError(null);
+    setResult(null);
+    setItems(vehicles.map(queuedBatchItem));
+    try {
+      const batch = await runBatchReports({
+        accounts,
+        vehicles,
+        selection,
+        kinds,
+        preferences,
+        profileLibrary,
+        createDocument: () => new jspdf.jsPDF(),
+        onItemChange: (index, item) => setItems(prev => prev.map((existing, i) => i === index ? item : existing)),
+        signal: controller.signal,
+      });
+      setResult(batch);
+      downloadBlob(zipBlob(batch), batch.fileName);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate the batch.');
+    } finally {
+      setIsRunning(false);
+      controllerRef.current = null;
+    }
+  };
+
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const finishedCount = items.filter(item => item.status !== 'queued' && item.status !== 'fetching').length;
+
+  return (
+    <div className="p-4 border-b bg-white space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-800 flex items-center">
+          <span className="material-icons mr-2 text-gray-600">library_books</span>
+          Batch reports
+        </h3>
+        <button onClick={onClose} disabled={isRunning} className={secondaryButtonClassName}>Close</button>
+      </div>
+      <div className="flex items-center gap-4 flex-wrap text-sm text-gray-700">
+        <RangeSelector selection={selection} timeZone={timeZone} clock={() => accounts[0]?.dataSource.now() ?? Date.now()} onChange={setSelection} />
+        {BATCH_REPORT_KINDS.map(kind => (
+          <label key={kind} className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={kinds.includes(kind)}
+              onChange={() => toggleKind(kind)}
+              disabled={isRunning}
+              className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded"
+            />
+            {REPORT_KIND_LABELS[kind]}
+          </label>
+        ))}
+      </div>
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div className="flex items-center gap-2 text-sm text-gray-700">
+          <span>{vehicles.length} vehicle(s) selected</span>
+          <button onClick={onSelectAll} disabled={isRunning} className={secondaryButtonClassName}>Select all</button>
+          <button onClick={onClearSelection} disabled={isRunning} className={secondaryButtonClassName}>Clear</button>
+        </div>
+        <div className="flex items-center gap-2">
+          {isRunning ? (
+            <button onClick={() => controllerRef.current?.abort()} className={secondaryButtonClassName}>Cancel</button>
+          ) : result && (
+            <button onClick={() => downloadBlob(zipBlob(result), result.fileName)} className={secondaryButtonClassName}>Download ZIP again</button>
+          )}
+          <button
+            onClick={handleGenerate}
+            disabled={isRunning || vehicles.length === 0 || kinds.length === 0}
+            className="px-3 py-1 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-md disabled:opacity-50"
+          >
+            {isRunning ? `Generating (${finishedCount}/${items.length})...` : 'Generate ZIP'}
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-gray-500">
+        Tick vehicles in the list below. Histories are fetched one vehicle per account at a time within the Webfleet request limits, so long ranges for many vehicles take a while; the ZIP holds the reports and an index PDF with every vehicle's result.
+      </p>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      {items.length > 0 && (
+        <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-md">
+          {!isRunning && (
+            <p className="px-3 py-2 text-sm text-gray-700 bg-gray-50 border-b border-gray-200">
+              Reports for {doneCount} of {items.length} vehicle(s) in the ZIP.
+            </p>
+          )}
+          <ul className="divide-y divide-gray-200">
+            {items.map(item => (
+              <li key={item.vehicle.uid} className="px-3 py-2 flex items-center justify-between gap-3 text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-800 truncate">{item.vehicle.name}</p>
+                  <p className={`text-xs truncate ${item.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`} title={itemDetail(item)}>{itemDetail(item)}</p>
+                </div>
+                <span className={`text-xs font-semibold px-2 py-0.5 rounded-full whitespace-nowrap ${STATUS_STYLES[item.status].className}`}>
+                  {STATUS_STYLES[item.status].label}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchReportPanel;
@@ -0,0 +1,21 @@
+import React from 'react';
+import { LiveUpdateStatus } from '../types';
+
+const STATUS_STYLES: Record<LiveUpdateStatus, { label: string; dot: string; title: string }> = {
+  connecting: { label: 'Connecting', dot: 'bg-yellow-400', title: 'Opening the Webfleet message queue...' },
+  live: { label: 'Live', dot: 'bg-green-500', title: 'Receiving updates from the Webfleet message queue' },
+  polling: { label: 'Polling', dot: 'bg-blue-500', title: 'Message queue unavailable, refreshing the fleet every minute' },
+  offline: { label: 'Offline', dot: 'bg-red-500', title: 'Live updates are interrupted' },
+};
+
+const ConnectionStatus: React.FC<{ status: LiveUpdateStatus }> = ({ status }) => {
+  const style = STATUS_STYLES[status];
+  return (
+    <span className="flex items-center text-sm text-gray-700" title={style.title}>
+      <span className={`inline-block h-2.5 w-2.5 rounded-full mr-2 ${style.dot}`}></span>
+      {style.label}
+    </span>
+  );
+};
+
+export default ConnectionStatus;
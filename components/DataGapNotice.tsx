@@ -0,0 +1,44 @@
+import React from 'react';
+import { DataGap } from '../types';
+import { describeGap } from '../services/dataGaps';
+import { DisplayPreferences } from '../services/preferences';
+
+interface DataGapNoticeProps {
+  gaps: DataGap[];
+  isRetrying: boolean;
+  onRetry: () => void;
+  preferences?: DisplayPreferences;
+}
+
+const DataGapNotice: React.FC<DataGapNoticeProps> = ({ gaps, isRetrying, onRetry, preferences }) => {
+  if (gaps.length === 0) return null;
+
+  return (
+    <div className="mb-4 p-3 rounded-md border-l-4 border-yellow-500 bg-yellow-100 text-yellow-900" role="alert">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="font-semibold flex items-center">
+            <span className="material-icons mr-2">warning</span>
+            Incomplete data: {gaps.length} time window{gaps.length === 1 ? '' : 's'} could not be loaded
+          </p>
+          <ul className="mt-2 text-sm list-disc list-inside">
+            {gaps.map((gap, index) => (
+              <li key={`${gap.action}-${gap.startTime ?? gap.rangePattern}-${index}`}>
+                {describeGap(gap, preferences)} <span className="text-yellow-700">({gap.reason})</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+        <button
+          onClick={onRetry}
+          disabled={isRetrying}
+          className="flex-shrink-0 px-3 py-1 text-sm font-medium text-white bg-yellow-600 hover:bg-yellow-700 rounded-md disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          {isRetrying ? 'Retrying...' : 'Retry missing data'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DataGapNotice;
@@ -9,22 +9,27 @@ import {
   CartesianGrid,
   Tooltip,
   Legend,
+  ReferenceArea,
 } from 'recharts';
-import { HistoricalDataPoint } from '../types';
+import { HistoricalDataPoint, DataGap } from '../types';
+import { doorColor, sensorColor } from '../services/sensorRegistry';
+import { Excursion } from '../services/excursions';
+import { DEFAULT_PREFERENCES, DisplayPreferences, formatDateTime, formatTime, temperatureUnitLabel, toDisplayTemperature } from '../services/preferences';
 
 interface DataGraphProps {
   data: HistoricalDataPoint[];
   sensorIds: string[];
   doorSensorIds: string[];
   sensorInfo: Map<string, string>;
+  doorInfo?: Map<string, string>;
+  gaps?: DataGap[];
+  excursions?: Excursion[];
+  preferences?: DisplayPreferences;
 }
 
-const SENSOR_COLORS = ['#8884d8', '#82ca9d', '#ffc658', '#ff8042', '#d0ed57', '#a4de6c'];
-const DOOR_COLORS = ['#EF4444', '#F97316', '#F59E0B', '#EAB308']; // Red, Orange, Amber, Yellow
-
-const CustomTooltip: React.FC<any> = ({ active, payload, label }) => {
+const CustomTooltip: React.FC<any> = ({ active, payload, label, preferences }) => {
     if (active && payload && payload.length) {
-      const date = new Date(label).toLocaleString();
+      const date = formatDateTime(label, preferences, true);
       const tempPayloads = payload.filter(p => p.dataKey && p.dataKey.startsWith('temp_'));
       const doorPayloads = payload.filter(p => p.dataKey && p.dataKey.startsWith('door_'));
 
@@ -33,7 +38,7 @@ const CustomTooltip: React.FC<any> = ({ active, payload, label }) => {
           <p className="font-bold mb-1">{`${date}`}</p>
           {tempPayloads.map(p => (
               <p style={{ color: p.stroke }} key={p.dataKey}>
-                  {p.name}: {typeof p.value === 'number' ? `${p.value.toFixed(1)}°C` : 'N/A'}
+                  {p.name}: {typeof p.value === 'number' ? `${p.value.toFixed(preferences.decimals)}${temperatureUnitLabel(preferences)}` : 'N/A'}
               </p>
           ))}
           {doorPayloads.map(p => (
@@ -47,7 +52,7 @@ const CustomTooltip: React.FC<any> = ({ active, payload, label }) => {
     return null;
   };
 
-const DataGraph: React.FC<DataGraphProps> = ({ data, sensorIds, doorSensorIds, sensorInfo }) => {
+const DataGraph: React.FC<DataGraphProps> = ({ data, sensorIds, doorSensorIds, sensorInfo, doorInfo, gaps = [], excursions = [], preferences = DEFAULT_PREFERENCES }) => {
   if (data.length === 0) {
     return <div className="flex items-center justify-center h-full text-gray-500">No data available for this period.</div>
   }
@@ -59,14 +64,15 @@ const DataGraph: React.FC<DataGraphProps> = ({ data, sensorIds, doorSensorIds, s
             timestamp: point.timestamp,
         };
         sensorIds.forEach(id => {
-            flatPoint[`temp_${id}`] = point.temperatures?.[parseInt(id, 10)]?.value ?? null;
+            const value = point.temperatures?.[parseInt(id, 10)]?.value;
+            flatPoint[`temp_${id}`] = typeof value === 'number' ? toDisplayTemperature(value, preferences) : null;
         });
         doorSensorIds.forEach(id => {
             flatPoint[`door_${id}`] = point.doorStatus?.[parseInt(id, 10)] ?? null;
         });
         return flatPoint;
     });
-  }, [data, sensorIds, doorSensorIds]);
+  }, [data, sensorIds, doorSensorIds, preferences]);
   
   const hasTemperatureData = sensorIds.length > 0;
   const hasDoorData = doorSensorIds.length > 0;
@@ -85,37 +91,59 @@ const DataGraph: React.FC<DataGraphProps> = ({ data, sensorIds, doorSensorIds, s
         <CartesianGrid strokeDasharray="3 3" strokeOpacity={0.2} />
         <XAxis
           dataKey="timestamp"
-          tickFormatter={(unixTime) => new Date(unixTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          tickFormatter={(unixTime) => formatTime(unixTime, preferences)}
           type="number"
           domain={['dataMin', 'dataMax']}
           stroke="rgb(156 163 175)"
         />
-        {hasTemperatureData && <YAxis yAxisId="left" label={{ value: 'Temp (°C)', angle: -90, position: 'insideLeft', fill: '#374151' }} stroke="#374151" />}
+        {hasTemperatureData && <YAxis yAxisId="left" label={{ value: `Temp (${temperatureUnitLabel(preferences)})`, angle: -90, position: 'insideLeft', fill: '#374151' }} stroke="#374151" />}
         {hasDoorData && <YAxis yAxisId="right" orientation="right" domain={[-0.1, 1.1]} axisLine={false} tickLine={false} tick={false} />}
-        <Tooltip content={<CustomTooltip />} />
+        <Tooltip content={<CustomTooltip preferences={preferences} />} />
+        {(hasTemperatureData || hasDoorData) && gaps.filter(gap => gap.startTime !== null && gap.endTime !== null).map((gap, index) => (
+            <ReferenceArea
+                key={`gap-${gap.action}-${gap.startTime}-${index}`}
+                yAxisId={hasTemperatureData ? 'left' : 'right'}
+                x1={gap.startTime!}
+                x2={gap.endTime!}
+                fill="#F59E0B"
+                fillOpacity={0.15}
+                ifOverflow="extendDomain"
+            />
+        ))}
+        {hasTemperatureData && excursions.map(excursion => (
+            <ReferenceArea
+                key={`excursion-${excursion.sensorId}-${excursion.startTime}`}
+                yAxisId="left"
+                x1={excursion.startTime}
+                x2={excursion.endTime}
+                fill={excursion.tolerated ? '#FCA5A5' : '#EF4444'}
+                fillOpacity={excursion.tolerated ? 0.15 : 0.25}
+                ifOverflow="extendDomain"
+            />
+        ))}
         <Legend />
-        {sensorIds.map((id, index) => (
+        {sensorIds.map(id => (
             <Line
                 key={`temp-${id}`}
                 yAxisId="left"
                 type="monotone"
                 dataKey={`temp_${id}`}
-                stroke={SENSOR_COLORS[index % SENSOR_COLORS.length]}
+                stroke={sensorColor(id)}
                 dot={false}
                 name={sensorInfo.get(id) || `Sensor ${id}`}
                 connectNulls
             />
         ))}
-        {doorSensorIds.map((id, index) => (
+        {doorSensorIds.map(id => (
             <Line
                 key={`door-${id}`}
                 yAxisId="right"
                 type="stepAfter"
                 dataKey={`door_${id}`}
-                stroke={DOOR_COLORS[index % DOOR_COLORS.length]}
+                stroke={doorColor(id)}
                 strokeWidth={2}
                 dot={false}
-                name={`Door ${id}`}
+                name={doorInfo?.get(id) || `Door ${id}`}
                 connectNulls
             />
         ))}
@@ -1,7 +1,30 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { AuthCredentials, Vehicle, HistoricalDataPoint, Trip } from '../types';
-import WebfleetService from '../services/webfleetService';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { AuthCredentials, Vehicle, HistoricalDataPoint, HistoricalDataResult, TimeRange, Trip } from '../types';
+import { FleetDataSource, HistoricalProgress } from '../services/dataSource';
+import { isAbortError } from '../services/concurrency';
 import DataGraph from './DataGraph';
+import ErrorNotice from './ErrorNotice';
+import DataGapNotice from './DataGapNotice';
+import RangeSelector from './RangeSelector';
+import LimitsEditor from './LimitsEditor';
+import ExcursionList from './ExcursionList';
+import DoorOpeningList from './DoorOpeningList';
+import ProfileAssignments from './ProfileAssignments';
+import ExportPanel from './ExportPanel';
+import TicketTemplateEditor from './TicketTemplateEditor';
+import { ErrorPresentation, describeError } from '../services/webfleetErrors';
+import { DisplayPreferences, TIME_ZONE_MODE_LABELS, TimeZoneMode, formatDateTime, formatDuration, formatTemperature, formatTemperatureValue, formatTimeZone, resolveTimeZone, temperatureUnitLabel, withTimeZone } from '../services/preferences';
+import { vehicleKey } from '../services/liveUpdates';
+import { availableTimeZones, isValidTimeZone } from '../services/timeZones';
+import { VehicleLimits, loadVehicleLimits, saveVehicleLimits } from '../services/temperatureLimits';
+import { ThermographTemplate, VehicleCalibrations, loadCalibrations, loadThermographTemplate, saveCalibrations, saveThermographTemplate } from '../services/thermographTemplate';
+import { describeVerdict } from '../services/excursions';
+import { ProfileLibrary } from '../services/productProfiles';
+import { DEFAULT_RANGE, RangeSelection, rangeRequest, resolveRange } from '../services/reportRange';
+import { ReportKind, buildVehicleReport, renderDoorReport, renderFullReport, renderThermographTicket, reportFileName } from '../services/reports';
+import { ReportKeyring, signReportPdf } from '../services/reportSigning';
+import { TRACK_FORMATS, TRACK_FORMAT_LABELS, TRACK_MIME_TYPES, TrackFormat, trackDocument, trackFileName } from '../services/trackExport';
+import { downloadBlob } from '../services/dataExport';
 import { IconDownload, IconTicket, IconDocumentReport } from '../constants';
 import { MapContainer, TileLayer, Polyline, Marker, useMap } from 'react-leaflet';
 import L from 'leaflet';
@@ -13,8 +36,14 @@ declare const html2canvas: any;
 
 interface DetailViewProps {
   auth: AuthCredentials;
+  dataSource: FleetDataSource;
   vehicle: Vehicle;
+  profileLibrary: ProfileLibrary;
+  reportKeyring: ReportKeyring;
+  preferences: DisplayPreferences;
+  onPreferencesChange: (preferences: DisplayPreferences) => void;
   onBack: () => void;
+  onReauthenticate: () => void;
 }
 
 const Spinner: React.FC = () => (
@@ -23,141 +52,145 @@ const Spinner: React.FC = () => (
     </div>
 );
 
+const LoadingProgress: React.FC<{ progress: HistoricalProgress | null }> = ({ progress }) => (
+    <div className="flex flex-col justify-center items-center h-full gap-4">
+      <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-red-500"></div>
+      {progress && progress.totalChunks > 0 && (
+        <p className="text-sm text-gray-600">Loading {progress.completedChunks}/{progress.totalChunks} chunks</p>
+      )}
+    </div>
+);
+
 const PdfSpinner: React.FC = () => (
   <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
 );
 
-const rangeOptions = [
-    { value: 'd0', label: 'Today' },
-    { value: 'd-1', label: 'Yesterday' },
-    { value: 'wf0', label: 'Last 7 Days' },
-    { value: 'w0', label: 'Current Week' },
-    { value: 'w-1', label: 'Last Week' },
-    { value: 'm0', label: 'Current Month' },
-    { value: 'm-1', label: 'Last Month' },
-];
-
-const RangeSelector: React.FC<{
-    selectedRange: string;
-    onRangeChange: (e: React.ChangeEvent<HTMLSelectElement>) => void;
-}> = React.memo(({ selectedRange, onRangeChange }) => {
+const TimeZoneSelector: React.FC<{
+    preferences: DisplayPreferences;
+    vehicle: Vehicle;
+    onChange: (preferences: DisplayPreferences) => void;
+}> = ({ preferences, vehicle, onChange }) => {
+    const depotKey = vehicleKey(vehicle);
+    const setDepotZone = (zone: string) => {
+        if (zone && !isValidTimeZone(zone)) return;
+        const depotTimeZones = { ...preferences.depotTimeZones };
+        if (zone) depotTimeZones[depotKey] = zone;
+        else delete depotTimeZones[depotKey];
+        onChange({ ...preferences, depotTimeZones });
+    };
+
     return (
         <div className="flex items-center gap-2">
-            <label htmlFor="range-pattern" className="text-sm font-medium text-gray-600">Date Range:</label>
+            <label htmlFor="time-zone-mode" className="text-sm font-medium text-gray-600">Time Zone:</label>
             <select
-                id="range-pattern"
-                name="rangePattern"
-                value={selectedRange}
-                onChange={onRangeChange}
+                id="time-zone-mode"
+                value={preferences.timeZoneMode}
+                onChange={(e) => onChange({ ...preferences, timeZoneMode: e.target.value as TimeZoneMode })}
                 className="bg-white border border-gray-300 rounded-md py-2 px-3 text-sm text-gray-900 focus:ring-red-500 focus:border-red-500"
-                aria-label="Select Date Range"
+                title={formatTimeZone(preferences)}
             >
-                {rangeOptions.map(option => (
-                    <option key={option.value} value={option.value}>{option.label}</option>
+                {(Object.keys(TIME_ZONE_MODE_LABELS) as TimeZoneMode[]).map(mode => (
+                    <option key={mode} value={mode}>{TIME_ZONE_MODE_LABELS[mode]}</option>
                 ))}
             </select>
+            {preferences.timeZoneMode === 'depot' && (
+                <>
+                    <input
+                        list="depot-time-zones"
+                        defaultValue={preferences.depotTimeZones[depotKey] ?? ''}
+                        onBlur={(e) => setDepotZone(e.target.value.trim())}
+                        placeholder="Depot zone, e.g. Europe/Madrid"
+                        className="bg-white border border-gray-300 rounded-md py-2 px-3 text-sm text-gray-900 focus:ring-red-500 focus:border-red-500"
+                        aria-label="Home depot time zone"
+                    />
+                    <datalist id="depot-time-zones">
+                        {availableTimeZones().map(zone => <option key={zone} value={zone} />)}
+                    </datalist>
+                </>
+            )}
         </div>
     );
-});
-RangeSelector.displayName = 'RangeSelector';
+};
 
 
-const DetailView: React.FC<DetailViewProps> = ({ auth, vehicle, onBack }) => {
-  const [rangePattern, setRangePattern] = useState('d0'); // Default to 'Today'
-  const [data, setData] = useState<HistoricalDataPoint[]>([]);
+const DetailView: React.FC<DetailViewProps> = ({ auth, dataSource, vehicle, profileLibrary, reportKeyring, preferences: userPreferences, onPreferencesChange, onBack, onReauthenticate }) => {
+  const [rangeSelection, setRangeSelection] = useState<RangeSelection>(DEFAULT_RANGE);
+  // The boundaries the shown data was fetched for; relative ranges move on with every reload.
+  const [loadedRange, setLoadedRange] = useState<TimeRange | null>(null);
+  const [historical, setHistorical] = useState<HistoricalDataResult | null>(null);
+  const [isRetryingGaps, setIsRetryingGaps] = useState(false);
+  const [loadProgress, setLoadProgress] = useState<HistoricalProgress | null>(null);
+  const activeRequestRef = useRef<AbortController | null>(null);
   const [trips, setTrips] = useState<Trip[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isDownloading, setIsDownloading] = useState(false);
   const [isGeneratingTicket, setIsGeneratingTicket] = useState(false);
   const [isGeneratingDoorReport, setIsGeneratingDoorReport] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [fetchError, setFetchError] = useState<ErrorPresentation | null>(null);
   const [activeTab, setActiveTab] = useState<'overview' | 'trips'>('overview');
 
-  const { sensorIds, sensorInfo, doorSensorIds } = useMemo(() => {
-    const tempIds = new Set<string>();
-    const tempInfo = new Map<string, string>();
-    const doorIds = new Set<string>();
-
-    data.forEach(point => {
-        if (point.temperatures) {
-            for (const id in point.temperatures) {
-                if (Object.prototype.hasOwnProperty.call(point.temperatures, id)) {
-                    if (!tempIds.has(id)) {
-                        tempIds.add(id);
-                        tempInfo.set(id, point.temperatures[id].name);
-                    }
-                }
-            }
-        }
-        if (point.doorStatus) {
-            for (const id in point.doorStatus) {
-                 if (Object.prototype.hasOwnProperty.call(point.doorStatus, id)) {
-                    doorIds.add(id);
-                 }
-            }
-        }
-    });
-
-    return {
-        sensorIds: Array.from(tempIds).sort((a,b) => parseInt(a, 10) - parseInt(b, 10)),
-        sensorInfo: tempInfo,
-        doorSensorIds: Array.from(doorIds).sort((a,b) => parseInt(a, 10) - parseInt(b, 10)),
-    };
-  }, [data]);
-  
-  const doorEvents = useMemo(() => {
-    if (!data || data.length === 0) return [];
-
-    const events: HistoricalDataPoint[] = [];
-    let lastKnownStatuses: { [id: number]: 0 | 1 } | null = null;
-
-    for (const point of data) {
-        const currentStatuses = point.doorStatus;
-        if (currentStatuses && Object.keys(currentStatuses).length > 0) {
-            const hasChanged = !lastKnownStatuses || 
-                Object.keys(currentStatuses).some(id => currentStatuses[id] !== lastKnownStatuses?.[id]) ||
-                Object.keys(lastKnownStatuses || {}).length !== Object.keys(currentStatuses).length;
-
-            if (hasChanged) {
-                events.push(point);
-                lastKnownStatuses = { ...(lastKnownStatuses || {}), ...currentStatuses };
-            }
-        } else if (lastKnownStatuses) { 
-            events.push(point);
-            lastKnownStatuses = null;
-        }
-    }
-    
-    return events;
-  }, [data]);
-
-  const hasDoorStatusData = useMemo(() => {
-    return doorSensorIds.length > 0;
-  }, [doorSensorIds]);
-  
-  const hasTemperatureData = useMemo(() => {
-      return sensorIds.length > 0;
-  }, [sensorIds]);
-
-  const handleRangeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    setRangePattern(e.target.value);
+  // Everything in this view, including the range boundaries, is rendered in the zone chosen for the vehicle.
+  const timeZone = resolveTimeZone(userPreferences, auth.accountName, vehicle);
+  const preferences = useMemo(() => withTimeZone(userPreferences, timeZone), [userPreferences, timeZone]);
+
+  const data = useMemo(() => historical?.points ?? [], [historical]);
+  const gaps = useMemo(() => historical?.gaps ?? [], [historical]);
+
+  const [limits, setLimits] = useState<VehicleLimits>(() => loadVehicleLimits(vehicle.account, vehicle.uid));
+  const [isEditingLimits, setIsEditingLimits] = useState(false);
+  const [assignments, setAssignments] = useState(() => profileLibrary.listAssignments(vehicle.account, vehicle.uid));
+  const [profiles, setProfiles] = useState(() => new Map(profileLibrary.listProfiles().map(profile => [profile.id, profile])));
+  const [isEditingLoads, setIsEditingLoads] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [ticketTemplate, setTicketTemplate] = useState<ThermographTemplate>(() => loadThermographTemplate(vehicle.account));
+  const [calibrations, setCalibrations] = useState<VehicleCalibrations>(() => loadCalibrations(vehicle.account, vehicle.uid));
+  const [isEditingTicket, setIsEditingTicket] = useState(false);
+
+  useEffect(() => profileLibrary.subscribe(() => {
+      setAssignments(profileLibrary.listAssignments(vehicle.account, vehicle.uid));
+      setProfiles(new Map(profileLibrary.listProfiles().map(profile => [profile.id, profile])));
+  }), [profileLibrary, vehicle.account, vehicle.uid]);
+
+  const report = useMemo(() => buildVehicleReport({
+      vehicle,
+      points: data,
+      gaps,
+      selection: rangeSelection,
+      range: loadedRange,
+      sensors: dataSource.sensors,
+      limits,
+      assignments,
+      profiles,
+      preferences,
+      template: ticketTemplate,
+      calibrations,
+  }), [vehicle, data, gaps, rangeSelection, loadedRange, dataSource, limits, assignments, profiles, preferences, ticketTemplate, calibrations]);
+  const { sensorIds, sensorInfo, doorSensorIds, doorInfo, loadsInRange, loadLabels, hasLimits, excursions, doorOpenings, verdict, sensorLabel, doorLabel } = report;
+  const hasTemperatureData = sensorIds.length > 0;
+  const hasDoorStatusData = doorSensorIds.length > 0;
+
+  const handleSaveLimits = useCallback((next: VehicleLimits) => {
+      saveVehicleLimits(vehicle.account, vehicle.uid, next);
+      setLimits(next);
+      setIsEditingLimits(false);
+  }, [vehicle.account, vehicle.uid]);
+
+  const handleSaveTicket = useCallback((template: ThermographTemplate, next: VehicleCalibrations) => {
+      saveThermographTemplate(vehicle.account, template);
+      saveCalibrations(vehicle.account, vehicle.uid, next);
+      setTicketTemplate(template);
+      setCalibrations(next);
+      setIsEditingTicket(false);
+  }, [vehicle.account, vehicle.uid]);
+
+  // Every PDF leaves the app signed, with its payload in a QR code; see services/reportSigning.ts.
+  const downloadSignedReport = async (doc: any, kind: ReportKind, generatedAt: number) => {
+      const bytes = await signReportPdf(doc, report, kind, reportKeyring, generatedAt);
+      downloadBlob(new Blob([bytes], { type: 'application/pdf' }), reportFileName(kind, report));
   };
 
   const handleGenerateDoorReport = async () => {
-    let eventsToReport: HistoricalDataPoint[] = doorEvents;
-    
-    if (doorEvents.length === 0 && hasDoorStatusData) {
-        const firstEvent = data.find(p => p.doorStatus && Object.keys(p.doorStatus).length > 0);
-        if (firstEvent) {
-            eventsToReport = [firstEvent];
-        }
-    }
-
-    if (eventsToReport.length === 0) {
-        setError("No door status data found in this period.");
-        return;
-    }
-
     if (typeof jspdf === 'undefined' || typeof (new jspdf.jsPDF()).autoTable === 'undefined') {
         setError('PDF generation library is not loaded.');
         return;
@@ -169,49 +202,8 @@ const DetailView: React.FC<DetailViewProps> = ({ auth, vehicle, onBack }) => {
     try {
         const { jsPDF } = jspdf;
         const doc = new jsPDF();
-        
-        doc.setFontSize(22);
-        doc.text('Door Status Report', 14, 22);
-        
-        doc.setFontSize(12);
-        const rangeLabel = rangeOptions.find(o => o.value === rangePattern)?.label ?? rangePattern;
-        doc.text(`Vehicle: ${vehicle.name}`, 14, 32);
-        doc.text(`Date Range: ${rangeLabel}`, 14, 38);
-
-        const tableHead: string[] = ["Timestamp"];
-        doorSensorIds.forEach(id => tableHead.push(`Door D${id}`));
-        if (hasTemperatureData) {
-            sensorIds.forEach(id => tableHead.push(`${sensorInfo.get(id) || `Sensor ${id}`} (°C)`));
-        }
-        tableHead.push("Location");
-
-        const tableRows = eventsToReport.map(item => {
-            const row: string[] = [
-                new Date(item.timestamp).toLocaleString(),
-            ];
-            doorSensorIds.forEach(id => {
-                const status = item.doorStatus?.[id];
-                row.push(status === 1 ? 'Open' : (status === 0 ? 'Closed' : 'N/A'));
-            });
-            if (hasTemperatureData) {
-                sensorIds.forEach(id => {
-                    const temp = item.temperatures?.[id];
-                    row.push(typeof temp?.value === 'number' ? temp.value.toFixed(1) : 'N/A');
-                });
-            }
-            row.push(item.location ? item.location.address : 'N/A');
-            return row;
-        });
-
-        doc.autoTable({
-            head: [tableHead],
-            body: tableRows,
-            startY: 48,
-            theme: 'grid',
-            headStyles: { fillColor: [34, 139, 34] }, // A green color
-        });
-
-        doc.save(`door-report-${vehicle.name.replace(/\s/g, '_')}-${rangePattern}.pdf`);
+        renderDoorReport(doc, report);
+        await downloadSignedReport(doc, 'door', Date.now());
     } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to generate door report.');
     } finally {
@@ -225,109 +217,15 @@ const DetailView: React.FC<DetailViewProps> = ({ auth, vehicle, onBack }) => {
         return;
     }
 
-    const ticketSensorInfo = new Map<string, string>();
-    const tempDataPoints = data.filter(p => {
-        if (p.temperatures && Object.keys(p.temperatures).length > 0) {
-            Object.entries(p.temperatures).forEach(([id, reading]) => {
-                if (!ticketSensorInfo.has(id)) {
-                    ticketSensorInfo.set(id, reading.name);
-                }
-            });
-            return true;
-        }
-        return false;
-    });
-
-    if (tempDataPoints.length === 0) {
-        setError("No temperature data available to generate a ticket.");
-        return;
-    }
-
     setIsGeneratingTicket(true);
     setError(null);
 
     try {
         const { jsPDF } = jspdf;
         const doc = new jsPDF();
-        
-        const ticketSensorIds = Array.from(ticketSensorInfo.keys()).sort((a,b)=> parseInt(a, 10)-parseInt(b, 10));
-
-        const formatDateForTicketHeader = (ts: number) => {
-            const d = new Date(ts);
-            const yyyy = d.getFullYear();
-            const mm = String(d.getMonth() + 1).padStart(2, '0');
-            const dd = String(d.getDate()).padStart(2, '0');
-            const hh = String(d.getHours()).padStart(2, '0');
-            const min = String(d.getMinutes()).padStart(2, '0');
-            return `${yyyy}-${mm}-${dd} ${hh}:${min}`;
-        };
-
-        let lastDate = '';
-        const tableRows = tempDataPoints.map((point, index) => {
-            const date = new Date(point.timestamp);
-            const yyyy = date.getFullYear();
-            const mm = String(date.getMonth() + 1).padStart(2, '0');
-            const dd = String(date.getDate()).padStart(2, '0');
-            const hh = String(date.getHours()).padStart(2, '0');
-            const min = String(date.getMinutes()).padStart(2, '0');
-            const currentDate = `${yyyy}-${mm}-${dd}`;
-            let dateString = `${hh}:${min}`;
-            if (currentDate !== lastDate) {
-                dateString = `${currentDate} ${dateString}`;
-                lastDate = currentDate;
-            }
-            
-            const row: any[] = [
-                { content: (index + 1).toString() + '.', styles: { halign: 'right', cellWidth: 12 } },
-                { content: dateString, styles: { halign: 'center' } }
-            ];
-            ticketSensorIds.forEach(id => {
-                const temp = point.temperatures?.[id];
-                row.push({ 
-                    content: typeof temp?.value === 'number' ? temp.value.toFixed(1) : '-',
-                    styles: { halign: 'center' }
-                });
-            });
-            return row;
-        });
-
-        const totalPagesExp = '{total_pages_count_string}';
-        
-        const tableHead = [['#', 'Timestamp']];
-        ticketSensorIds.forEach(id => tableHead[0].push(`${ticketSensorInfo.get(id) || `Sensor ${id}`} (°C)`));
-
-        doc.autoTable({
-            head: tableHead,
-            body: tableRows,
-            theme: 'plain',
-            styles: { font: 'courier', fontSize: 9, cellPadding: 0.8 },
-            headStyles: { halign: 'center', valign: 'middle', fontStyle: 'normal', lineWidth: { bottom: 0.2 }, lineColor: [0, 0, 0], fillColor: [255, 255, 255], textColor: [0, 0, 0] },
-            margin: { top: 65, bottom: 25 },
-            didDrawPage: function (data: any) {
-                doc.setFont('courier', 'bold');
-                doc.setFontSize(16);
-                doc.text('Thermograph Report', data.settings.margin.left, 20);
-                doc.setFont('courier', 'normal');
-                doc.setFontSize(10);
-                const generationDate = new Date().toLocaleString('sv-SE').replace('T', ' ');
-                doc.text(`Generated on:    ${generationDate}`, data.settings.margin.left, 28);
-                doc.text(`Vehicle:         ${vehicle.name}`, data.settings.margin.left, 38);
-                doc.text(`Company:         `, data.settings.margin.left, 42);
-                const startStr = formatDateForTicketHeader(tempDataPoints[0].timestamp);
-                const endStr = formatDateForTicketHeader(tempDataPoints[tempDataPoints.length - 1].timestamp);
-                doc.text(`Report Period:   from ${startStr} to ${endStr}`, data.settings.margin.left, 52);
-                
-                doc.setFontSize(9);
-                doc.text(`Page ${data.pageNumber} of ${totalPagesExp}`, data.settings.margin.left, doc.internal.pageSize.height - 15);
-            },
-        });
-        
-        if (typeof doc.putTotalPages === 'function') {
-            doc.putTotalPages(totalPagesExp);
-        }
-
-        doc.save(`thermograph-report-${vehicle.name.replace(/\s/g, '_')}-${rangePattern}.pdf`);
-
+        const now = Date.now();
+        renderThermographTicket(doc, report, now);
+        await downloadSignedReport(doc, 'thermograph', now);
     } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to generate report.');
     } finally {
@@ -350,67 +248,11 @@ const DetailView: React.FC<DetailViewProps> = ({ auth, vehicle, onBack }) => {
             throw new Error('Graph element not found.');
         }
 
-        doc.setFontSize(22);
-        doc.text('Cold Chain Report', 14, 22);
-        
-        doc.setFontSize(12);
-        const rangeLabel = rangeOptions.find(o => o.value === rangePattern)?.label ?? rangePattern;
-        doc.text(`Vehicle: ${vehicle.name}`, 14, 32);
-        doc.text(`Date Range: ${rangeLabel}`, 14, 38);
-        
         const canvas = await html2canvas(graphElement, { 
             backgroundColor: '#ffffff' 
         });
-        const imgData = canvas.toDataURL('image/png');
-        const imgProps = doc.getImageProperties(imgData);
-        const pdfWidth = doc.internal.pageSize.getWidth();
-        const imgWidth = pdfWidth - 28;
-        const imgHeight = (imgProps.height * imgWidth) / imgProps.width;
-        doc.addImage(imgData, 'PNG', 14, 48, imgWidth, imgHeight);
-
-        if (data.length > 0) {
-            const tableHead: string[] = ["Timestamp"];
-            if (hasTemperatureData) {
-                sensorIds.forEach(id => tableHead.push(`${sensorInfo.get(id) || `Temp S${id}`} (°C)`));
-            }
-            if (hasDoorStatusData) {
-                doorSensorIds.forEach(id => tableHead.push(`Door D${id}`));
-            }
-            tableHead.push("Location");
-
-            const tableRows = data.map(item => {
-                const row: string[] = [
-                    new Date(item.timestamp).toLocaleString(),
-                ];
-                if (hasTemperatureData) {
-                    sensorIds.forEach(id => {
-                        const temp = item.temperatures?.[id];
-                        row.push(typeof temp?.value === 'number' ? temp.value.toFixed(1) : 'N/A');
-                    });
-                }
-                if (hasDoorStatusData) {
-                    doorSensorIds.forEach(id => {
-                        const status = item.doorStatus?.[id];
-                        row.push(status === 1 ? 'Open' : (status === 0 ? 'Closed' : 'N/A'));
-                    });
-                }
-                row.push(
-                    item.location ? item.location.address : 'N/A'
-                );
-                return row;
-            });
-
-            doc.autoTable({
-                head: [tableHead],
-                body: tableRows,
-                startY: imgHeight + 60,
-                theme: 'grid',
-                headStyles: { fillColor: [228, 0, 43] },
-            });
-        }
-
-
-        doc.save(`report-${vehicle.name.replace(/\s/g, '_')}-${rangePattern}.pdf`);
+        renderFullReport(doc, report, canvas.toDataURL('image/png'));
+        await downloadSignedReport(doc, 'full', Date.now());
 
     } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to generate PDF.');
@@ -419,29 +261,72 @@ const DetailView: React.FC<DetailViewProps> = ({ auth, vehicle, onBack }) => {
     }
   };
 
+  // Starting a new request cancels the previous one, so a stale response can never overwrite fresh state.
+  const startRequest = useCallback(() => {
+    activeRequestRef.current?.abort();
+    const controller = new AbortController();
+    activeRequestRef.current = controller;
+    return controller.signal;
+  }, []);
+
   const fetchData = useCallback(async () => {
+    const signal = startRequest();
     try {
       setIsLoading(true);
       setError(null);
+      setFetchError(null);
+      setLoadProgress(null);
+      const range = resolveRange(rangeSelection, timeZone, dataSource.now());
+      const request = rangeRequest(rangeSelection, range);
       const [historicalResult, tripsResult] = await Promise.all([
-          WebfleetService.getHistoricalData(auth, { objectuid: vehicle.uid, rangePattern }),
-          WebfleetService.getTrips(auth, vehicle.uid, rangePattern)
+          dataSource.getHistoricalData(
+              auth,
+              typeof request === 'string' ? { objectuid: vehicle.uid, rangePattern: request } : { objectuid: vehicle.uid, ...request },
+              { signal, onProgress: setLoadProgress }
+          ),
+          dataSource.getTrips(auth, vehicle.uid, request, signal)
       ]);
-      setData(historicalResult);
+      if (signal.aborted) return;
+      setLoadedRange(range);
+      setHistorical(historicalResult);
       setTrips(tripsResult.sort((a, b) => b.startTime - a.startTime));
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch historical data.');
-      setData([]);
+      if (signal.aborted || isAbortError(err)) return;
+      setFetchError(describeError(err, 'Failed to fetch historical data.'));
+      setHistorical(null);
       setTrips([]);
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
-  }, [auth, vehicle.uid, rangePattern]);
+  }, [auth, dataSource, vehicle.uid, rangeSelection, timeZone, startRequest]);
 
   useEffect(() => {
     fetchData();
   }, [fetchData]);
 
+  useEffect(() => {
+    return () => activeRequestRef.current?.abort();
+  }, []);
+
+  const handleRetryGaps = useCallback(async () => {
+    if (!historical) return;
+    const signal = startRequest();
+    setIsRetryingGaps(true);
+    try {
+      const result = await dataSource.retryHistoricalGaps(auth, historical, { signal });
+      if (!signal.aborted) setHistorical(result);
+    } catch (err) {
+      if (signal.aborted || isAbortError(err)) return;
+      setFetchError(describeError(err, 'Failed to retry the missing data.'));
+    } finally {
+      if (!signal.aborted) {
+        setIsRetryingGaps(false);
+      }
+    }
+  }, [auth, dataSource, historical, startRequest]);
+
   return (
     <div className="p-4 sm:p-6 lg:p-8">
       <div className="max-w-7xl mx-auto">
@@ -459,7 +344,42 @@ const DetailView: React.FC<DetailViewProps> = ({ auth, vehicle, onBack }) => {
               <p className="text-gray-500">{vehicle.type} - {vehicle.uid}</p>
             </div>
              <div className="flex items-center gap-4">
-                <RangeSelector selectedRange={rangePattern} onRangeChange={handleRangeChange} />
+                <button
+                    onClick={() => setIsEditingLimits(prev => !prev)}
+                    disabled={!hasTemperatureData}
+                    className="flex items-center gap-1 px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Acceptable temperature range per vehicle, compartment or sensor"
+                >
+                    <span className="material-icons" style={{ fontSize: '20px' }}>device_thermostat</span>
+                    Limits
+                </button>
+                <button
+                    onClick={() => setIsEditingLoads(prev => !prev)}
+                    className="flex items-center gap-1 px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+                    title="Which product profile the vehicle carried and when"
+                >
+                    <span className="material-icons" style={{ fontSize: '20px' }}>inventory_2</span>
+                    Loads
+                </button>
+                <button
+                    onClick={() => setIsEditingTicket(prev => !prev)}
+                    className="flex items-center gap-1 px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+                    title="Recording interval, sections and sensor calibration of the thermograph ticket"
+                >
+                    <span className="material-icons" style={{ fontSize: '20px' }}>receipt_long</span>
+                    Ticket
+                </button>
+                <button
+                    onClick={() => setIsExporting(prev => !prev)}
+                    disabled={isLoading || data.length === 0}
+                    className="flex items-center gap-1 px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Download the loaded range as CSV or Excel"
+                >
+                    <span className="material-icons" style={{ fontSize: '20px' }}>table_view</span>
+                    Export
+                </button>
+                <RangeSelector selection={rangeSelection} timeZone={timeZone} clock={() => dataSource.now()} onChange={setRangeSelection} />
+                <TimeZoneSelector preferences={preferences} vehicle={vehicle} onChange={(next) => onPreferencesChange({ ...next, timeZone: undefined })} />
                 <button
                     onClick={handleGenerateThermographTicket}
                     disabled={isGeneratingTicket || isLoading || !hasTemperatureData}
@@ -489,6 +409,50 @@ const DetailView: React.FC<DetailViewProps> = ({ auth, vehicle, onBack }) => {
                 </button>
             </div>
           </div>
+           {fetchError && <ErrorNotice error={fetchError} onRetry={fetchData} onSignIn={onReauthenticate} />}
+           {!isLoading && <DataGapNotice gaps={gaps} isRetrying={isRetryingGaps} onRetry={handleRetryGaps} preferences={preferences} />}
+           {historical && historical.unavailable.length > 0 && (
+               <div className="mb-4 text-sm text-gray-600">
+                   {historical.unavailable.map(u => <p key={u.action}>{u.reason}</p>)}
+               </div>
+           )}
+           {isEditingLimits && (
+               <LimitsEditor
+                   limits={limits}
+                   sensorIds={sensorIds}
+                   sensorInfo={sensorInfo}
+                   preferences={preferences}
+                   onSave={handleSaveLimits}
+                   onClose={() => setIsEditingLimits(false)}
+               />
+           )}
+           {isEditingLoads && (
+               <ProfileAssignments
+                   library={profileLibrary}
+                   accountName={vehicle.account}
+                   vehicleUid={vehicle.uid}
+                   assignments={assignments}
+                   profiles={profiles}
+                   compartments={limits.compartments.map(c => c.name)}
+                   preferences={preferences}
+                   timeZone={timeZone}
+                   onClose={() => setIsEditingLoads(false)}
+               />
+           )}
+           {isEditingTicket && (
+               <TicketTemplateEditor
+                   template={ticketTemplate}
+                   calibrations={calibrations}
+                   sensorIds={sensorIds}
+                   sensorInfo={sensorInfo}
+                   accountName={vehicle.account}
+                   onSave={handleSaveTicket}
+                   onClose={() => setIsEditingTicket(false)}
+               />
+           )}
+           {isExporting && !isLoading && data.length > 0 && (
+               <ExportPanel report={report} onClose={() => setIsExporting(false)} />
+           )}
            {error && activeTab === 'overview' && <p className="text-red-500 text-center mb-4 bg-red-100 p-3 rounded-md">{error}</p>}
 
             <div className="border-b border-gray-200">
@@ -520,12 +484,34 @@ const DetailView: React.FC<DetailViewProps> = ({ auth, vehicle, onBack }) => {
             
             <div className="mt-6">
                 {isLoading ? (
-                    <div className="h-96"><Spinner /></div>
+                    <div className="h-96"><LoadingProgress progress={loadProgress} /></div>
                 ) : activeTab === 'overview' ? (
                     <>
                         <div id="datagraph-container" className="h-96 bg-white rounded-lg shadow p-4">
-                           <DataGraph data={data} sensorIds={sensorIds} doorSensorIds={doorSensorIds} sensorInfo={sensorInfo} />
+                           <DataGraph data={data} sensorIds={sensorIds} doorSensorIds={doorSensorIds} sensorInfo={sensorInfo} doorInfo={doorInfo} gaps={gaps} excursions={excursions} preferences={preferences} />
                         </div>
+                        {hasLimits && (
+                          <div className="mt-8">
+                            <div className="flex items-center justify-between flex-wrap gap-2 mb-4">
+                              <h3 className="text-xl font-bold text-gray-900">Temperature Excursions</h3>
+                              <span className={`px-3 py-1 rounded-full text-sm font-semibold ${verdict.compliant ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-700'}`}>
+                                {describeVerdict(verdict)}
+                              </span>
+                            </div>
+                            {loadLabels.length > 0 && (
+                              <ul className="mb-4 text-sm text-gray-600">
+                                {loadLabels.map(label => <li key={label}>Loaded: {label}</li>)}
+                              </ul>
+                            )}
+                            <ExcursionList excursions={excursions} sensorLabel={sensorLabel} preferences={preferences} />
+                          </div>
+                        )}
+                        {hasDoorStatusData && loadsInRange.length > 0 && (
+                          <div className="mt-8">
+                            <h3 className="text-xl font-bold text-gray-900 mb-4">Door Openings</h3>
+                            <DoorOpeningList openings={doorOpenings} doorLabel={doorLabel} preferences={preferences} />
+                          </div>
+                        )}
                         {data.length > 0 && (
                           <div className="mt-8">
                             <h3 className="text-xl font-bold text-gray-900 mb-4">Historical Data Log</h3>
@@ -538,12 +524,12 @@ const DetailView: React.FC<DetailViewProps> = ({ auth, vehicle, onBack }) => {
                                     </th>
                                     {hasTemperatureData && sensorIds.map(id => (
                                         <th key={`temp-th-${id}`} scope="col" className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
-                                          {sensorInfo.get(id) || `Temp S${id}`} (°C)
+                                          {sensorInfo.get(id)} ({temperatureUnitLabel(preferences)})
                                         </th>
                                     ))}
                                     {hasDoorStatusData && doorSensorIds.map(id => (
                                         <th key={`door-th-${id}`} scope="col" className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
-                                          Door D{id}
+                                          {doorInfo.get(id)}
                                         </th>
                                     ))}
                                     <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
@@ -555,12 +541,12 @@ const DetailView: React.FC<DetailViewProps> = ({ auth, vehicle, onBack }) => {
                                   {data.map((point, index) => (
                                     <tr key={`${point.timestamp}-${index}`} className="row-hover transition-colors">
                                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                                        {new Date(point.timestamp).toLocaleString()}
+                                        {formatDateTime(point.timestamp, preferences)}
                                       </td>
                                       {hasTemperatureData && sensorIds.map(id => (
                                           <td key={`temp-td-${id}`} className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                                               {point.temperatures?.[id] != null 
-                                                  ? `${point.temperatures[id].value.toFixed(1)}` 
+                                                  ? formatTemperatureValue(point.temperatures[id].value, preferences)
                                                   : 'N/A'
                                               }
                                           </td>
@@ -594,8 +580,12 @@ const DetailView: React.FC<DetailViewProps> = ({ auth, vehicle, onBack }) => {
                         <TripReport 
                             trips={trips} 
                             auth={auth} 
+                            dataSource={dataSource}
                             vehicleUid={vehicle.uid}
+                            vehicleName={vehicle.name}
                             sensorInfo={sensorInfo} 
+                            doorInfo={doorInfo}
+                            preferences={preferences}
                         />
                     </>
                 )}
@@ -609,8 +599,12 @@ const DetailView: React.FC<DetailViewProps> = ({ auth, vehicle, onBack }) => {
 interface TripReportProps {
     trips: Trip[];
     auth: AuthCredentials;
+    dataSource: FleetDataSource;
     vehicleUid: string;
+    vehicleName: string;
     sensorInfo: Map<string, string>;
+    doorInfo: Map<string, string>;
+    preferences: DisplayPreferences;
 }
 
 const createTripMarkerIcon = (color: string) => {
@@ -663,43 +657,85 @@ const TripMap: React.FC<TripMapProps> = ({ positions }) => {
 };
 
 
-const TripReport: React.FC<TripReportProps> = ({ trips, auth, vehicleUid, sensorInfo }) => {
+const TripReport: React.FC<TripReportProps> = ({ trips, auth, dataSource, vehicleUid, vehicleName, sensorInfo, doorInfo, preferences }) => {
     const [expandedTripId, setExpandedTripId] = useState<number | null>(null);
     const [expandedTripData, setExpandedTripData] = useState<HistoricalDataPoint[] | null>(null);
+    const [expandedTripResult, setExpandedTripResult] = useState<HistoricalDataResult | null>(null);
+    const [isRetryingTripGaps, setIsRetryingTripGaps] = useState(false);
     const [isTripDetailsLoading, setIsTripDetailsLoading] = useState(false);
     const [tripDetailsError, setTripDetailsError] = useState<string | null>(null);
 
+    const tripRequestRef = useRef<AbortController | null>(null);
+
+    useEffect(() => {
+        return () => tripRequestRef.current?.abort();
+    }, []);
+
     const toggleTrip = useCallback(async (trip: Trip) => {
         const tripId = trip.startTime;
+        tripRequestRef.current?.abort();
         if (expandedTripId === tripId) {
             setExpandedTripId(null);
             setExpandedTripData(null);
+            setExpandedTripResult(null);
+            setIsTripDetailsLoading(false);
         } else {
             setExpandedTripId(tripId);
             setIsTripDetailsLoading(true);
             setTripDetailsError(null);
             setExpandedTripData(null);
+            setExpandedTripResult(null);
+            const controller = new AbortController();
+            tripRequestRef.current = controller;
             try {
-                const data = await WebfleetService.getHistoricalData(auth, {
+                const result = await dataSource.getHistoricalData(auth, {
                     objectuid: vehicleUid,
                     startTime: trip.startTime,
                     endTime: trip.endTime
-                });
-                setExpandedTripData(data);
+                }, { signal: controller.signal });
+                if (controller.signal.aborted) return;
+                setExpandedTripResult(result);
+                setExpandedTripData(result.points);
             } catch (error) {
+                if (controller.signal.aborted || isAbortError(error)) return;
                 console.error("Failed to fetch trip details:", error);
-                setTripDetailsError(error instanceof Error ? error.message : "Could not load trip details.");
+                setTripDetailsError(describeError(error, "Could not load trip details.").message);
                 setExpandedTripData([]);
             } finally {
-                setIsTripDetailsLoading(false);
+                if (!controller.signal.aborted) {
+                    setIsTripDetailsLoading(false);
+                }
             }
         }
-    }, [auth, vehicleUid, expandedTripId]);
-
-    const formatDuration = (seconds: number) => {
-        const h = Math.floor(seconds / 3600);
-        const m = Math.floor((seconds % 3600) / 60);
-        return `${h > 0 ? `${h}h ` : ''}${m}m`;
+    }, [auth, dataSource, vehicleUid, expandedTripId]);
+
+    const retryTripGaps = useCallback(async () => {
+        if (!expandedTripResult) return;
+        setIsRetryingTripGaps(true);
+        try {
+            const result = await dataSource.retryHistoricalGaps(auth, expandedTripResult);
+            setExpandedTripResult(result);
+            setExpandedTripData(result.points);
+        } catch (error) {
+            setTripDetailsError(describeError(error, "Could not load the missing trip data.").message);
+        } finally {
+            setIsRetryingTripGaps(false);
+        }
+    }, [auth, dataSource, expandedTripResult]);
+
+    const downloadTrack = (trip: Trip, format: TrackFormat, sensorIds: string[], doorSensorIds: string[]) => {
+        if (!expandedTripData) return;
+        const track = {
+            name: `${vehicleName}, ${trip.startAddress} - ${trip.endAddress}`,
+            points: expandedTripData.filter(point => !point.carriedForward),
+            sensorIds,
+            sensorInfo,
+            doorSensorIds,
+            doorInfo,
+            preferences,
+        };
+        const range = { startTime: trip.startTime, endTime: trip.endTime };
+        downloadBlob(new Blob([trackDocument(track, format)], { type: TRACK_MIME_TYPES[format] }), trackFileName(vehicleName, range, format, preferences));
     };
 
     if (trips.length === 0) {
@@ -769,7 +805,7 @@ const TripReport: React.FC<TripReportProps> = ({ trips, auth, vehicleUid, sensor
                         >
                             <div className="flex-1">
                                 <p className="font-semibold text-gray-800">
-                                    {new Date(trip.startTime).toLocaleString()}
+                                    {formatDateTime(trip.startTime, preferences)}
                                 </p>
                                 <p className="text-sm text-gray-600 mt-1">
                                     <span className="font-medium">From:</span> {trip.startAddress}
@@ -800,17 +836,23 @@ const TripReport: React.FC<TripReportProps> = ({ trips, auth, vehicleUid, sensor
                                      <p className="text-red-500 text-center mb-4 bg-red-100 p-3 rounded-md">{tripDetailsError}</p>
                                 ) : tripDetails && (
                                     <div className="space-y-6">
+                                        <DataGapNotice
+                                            gaps={expandedTripResult?.gaps ?? []}
+                                            isRetrying={isRetryingTripGaps}
+                                            onRetry={retryTripGaps}
+                                            preferences={preferences}
+                                        />
                                         <div>
                                             <h4 className="text-md font-semibold text-gray-800 mb-3">Temperature Summary</h4>
                                             {Object.keys(tripDetails.stats).length > 0 ? (
                                                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                                                     {Object.keys(tripDetails.stats).map(sensorId => (
                                                         <div key={sensorId} className="bg-white p-3 rounded-md border border-gray-200">
-                                                            <p className="font-semibold text-gray-800">{sensorInfo.get(sensorId) || `Sensor ${sensorId}`}</p>
+                                                            <p className="font-semibold text-gray-800">{sensorInfo.get(sensorId) || dataSource.sensors.label(vehicleUid, 'temperature', sensorId)}</p>
                                                             <div className="flex justify-between text-sm text-gray-600 mt-1">
-                                                                <span>Min: <strong className="text-blue-600">{tripDetails.stats[sensorId].min.toFixed(1)}°C</strong></span>
-                                                                <span>Avg: <strong className="text-green-600">{tripDetails.stats[sensorId].avg.toFixed(1)}°C</strong></span>
-                                                                <span>Max: <strong className="text-red-600">{tripDetails.stats[sensorId].max.toFixed(1)}°C</strong></span>
+                                                                <span>Min: <strong className="text-blue-600">{formatTemperature(tripDetails.stats[sensorId].min, preferences)}</strong></span>
+                                                                <span>Avg: <strong className="text-green-600">{formatTemperature(tripDetails.stats[sensorId].avg, preferences)}</strong></span>
+                                                                <span>Max: <strong className="text-red-600">{formatTemperature(tripDetails.stats[sensorId].max, preferences)}</strong></span>
                                                             </div>
                                                         </div>
                                                     ))}
@@ -829,13 +871,33 @@ const TripReport: React.FC<TripReportProps> = ({ trips, auth, vehicleUid, sensor
                                                         sensorIds={tripDetails.tripSensorIds}
                                                         doorSensorIds={tripDetails.tripDoorSensorIds}
                                                         sensorInfo={sensorInfo}
+                                                        doorInfo={doorInfo}
+                                                        gaps={expandedTripResult?.gaps ?? []}
+                                                        preferences={preferences}
                                                     />
                                                 </div>
                                             </div>
                                         )}
 
                                         <div>
-                                            <h4 className="text-md font-semibold text-gray-800 mb-3">Trip Map</h4>
+                                            <div className="flex items-center justify-between mb-3">
+                                                <h4 className="text-md font-semibold text-gray-800">Trip Map</h4>
+                                                {tripDetails.tripPositions.length > 0 && (
+                                                    <div className="flex items-center gap-2 text-sm text-gray-600">
+                                                        <span className="material-icons" style={{ fontSize: '18px' }}>route</span>
+                                                        Download track:
+                                                        {TRACK_FORMATS.map(format => (
+                                                            <button
+                                                                key={format}
+                                                                onClick={() => downloadTrack(trip, format, tripDetails!.tripSensorIds, tripDetails!.tripDoorSensorIds)}
+                                                                className="px-2 py-1 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+                                                            >
+                                                                {TRACK_FORMAT_LABELS[format]}
+                                                            </button>
+                                                        ))}
+                                                    </div>
+                                                )}
+                                            </div>
                                             <div className="h-80 bg-white rounded-lg shadow overflow-hidden">
                                                 <TripMap positions={tripDetails.tripPositions} />
                                             </div>
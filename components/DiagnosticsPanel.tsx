@@ -0,0 +1,58 @@
+import React from 'react';
+import { RecordIssue } from '../services/webfleetSchemas';
+import { DisplayPreferences, formatTime } from '../services/preferences';
+
+interface DiagnosticsPanelProps {
+  issues: RecordIssue[];
+  preferences: DisplayPreferences;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ issues, preferences, onClear, onClose }) => {
+  return (
+    <div className="bg-white border-b border-gray-200 shadow-inner">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-semibold text-gray-800 flex items-center">
+            <span className="material-icons mr-2 text-yellow-600">bug_report</span>
+            Rejected Webfleet records ({issues.length})
+          </h2>
+          <div className="flex gap-2">
+            <button
+              onClick={onClear}
+              disabled={issues.length === 0}
+              className="px-3 py-1 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Clear
+            </button>
+            <button
+              onClick={onClose}
+              className="px-3 py-1 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+        {issues.length === 0 ? (
+          <p className="text-sm text-gray-500">All records received so far matched the expected format.</p>
+        ) : (
+          <ul className="max-h-72 overflow-y-auto divide-y divide-gray-100 text-sm">
+            {issues.map((issue, index) => (
+              <li key={`${issue.receivedAt}-${index}`} className="py-2">
+                <div className="flex justify-between text-gray-800">
+                  <span className="font-semibold">{issue.action}</span>
+                  <span className="text-gray-500">{formatTime(issue.receivedAt, preferences, true)}</span>
+                </div>
+                <p className="text-red-700">{issue.problems.join('; ')}</p>
+                <pre className="mt-1 p-2 bg-gray-50 rounded text-xs text-gray-600 overflow-x-auto">{JSON.stringify(issue.record, null, 2)}</pre>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { DoorOpening, doorOpeningStatus } from '../services/excursions';
+import { DisplayPreferences, formatDateTime, formatDuration } from '../services/preferences';
+
+interface DoorOpeningListProps {
+  openings: DoorOpening[];
+  doorLabel: (doorId: number) => string;
+  preferences: DisplayPreferences;
+}
+
+// Only openings that happened while a profile restricted them are listed.
+const DoorOpeningList: React.FC<DoorOpeningListProps> = ({ openings, doorLabel, preferences }) => {
+  const restricted = openings.filter(opening => opening.allowedMs !== null);
+  if (restricted.length === 0) {
+    return <p className="text-gray-500">No door openings under a loaded product's allowance in this period.</p>;
+  }
+
+  return (
+    <div className="overflow-auto max-h-72 border border-gray-200 rounded-lg">
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-app-content sticky top-0">
+          <tr>
+            {['Door', 'Opened', 'Closed', 'Duration', 'Allowed', 'Status'].map(title => (
+              <th key={title} scope="col" className="px-4 py-2 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">{title}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {restricted.map(opening => (
+            <tr key={`${opening.doorId}-${opening.startTime}`} className={opening.exceeded ? 'bg-red-50' : ''}>
+              <td className="px-4 py-2 whitespace-nowrap text-gray-900">{doorLabel(opening.doorId)}</td>
+              <td className="px-4 py-2 whitespace-nowrap text-gray-700">{formatDateTime(opening.startTime, preferences)}</td>
+              <td className="px-4 py-2 whitespace-nowrap text-gray-700">{opening.ongoing ? '-' : formatDateTime(opening.endTime, preferences)}</td>
+              <td className="px-4 py-2 whitespace-nowrap text-gray-700">{formatDuration(opening.durationMs / 1000)}</td>
+              <td className="px-4 py-2 whitespace-nowrap text-gray-700">{formatDuration(opening.allowedMs! / 1000)}</td>
+              <td className={`px-4 py-2 whitespace-nowrap font-semibold ${opening.exceeded ? 'text-red-600' : 'text-gray-700'}`}>
+                {doorOpeningStatus(opening)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default DoorOpeningList;
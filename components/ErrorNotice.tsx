@@ -0,0 +1,35 @@
+import React from 'react';
+import { ErrorPresentation } from '../services/webfleetErrors';
+
+interface ErrorNoticeProps {
+  error: ErrorPresentation;
+  onRetry?: () => void;
+  onSignIn?: () => void;
+}
+
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onRetry, onSignIn }) => {
+  return (
+    <div className="text-red-700 text-center mb-4 bg-red-100 p-3 rounded-md" role="alert">
+      <p className="font-semibold">{error.title}</p>
+      <p className="text-sm mt-1">{error.message}</p>
+      {error.recovery === 'retry' && onRetry && (
+        <button
+          onClick={onRetry}
+          className="mt-2 px-3 py-1 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-md"
+        >
+          Try again
+        </button>
+      )}
+      {error.recovery === 'signIn' && onSignIn && (
+        <button
+          onClick={onSignIn}
+          className="mt-2 px-3 py-1 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-md"
+        >
+          Sign in again
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ErrorNotice;
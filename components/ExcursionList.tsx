@@ -0,0 +1,48 @@
+import React from 'react';
+import { Excursion, excursionStatus } from '../services/excursions';
+import { DisplayPreferences, formatDateTime, formatDuration, formatTemperature } from '../services/preferences';
+
+interface ExcursionListProps {
+  excursions: Excursion[];
+  sensorLabel: (sensorId: number) => string;
+  preferences: DisplayPreferences;
+}
+
+const ExcursionList: React.FC<ExcursionListProps> = ({ excursions, sensorLabel, preferences }) => {
+  if (excursions.length === 0) {
+    return <p className="text-gray-500">No temperature excursions in this period.</p>;
+  }
+
+  return (
+    <div className="overflow-auto max-h-72 border border-gray-200 rounded-lg">
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-app-content sticky top-0">
+          <tr>
+            {['Sensor', 'Limit', 'Start', 'End', 'Duration', 'Peak', 'Status'].map(title => (
+              <th key={title} scope="col" className="px-4 py-2 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">{title}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {excursions.map(excursion => (
+            <tr key={`${excursion.sensorId}-${excursion.startTime}`} className={excursion.tolerated ? '' : 'bg-red-50'}>
+              <td className="px-4 py-2 whitespace-nowrap text-gray-900">{sensorLabel(excursion.sensorId)}</td>
+              <td className="px-4 py-2 whitespace-nowrap text-gray-700">
+                {excursion.direction === 'above' ? 'Above' : 'Below'} {formatTemperature(excursion.limit, preferences)}
+              </td>
+              <td className="px-4 py-2 whitespace-nowrap text-gray-700">{formatDateTime(excursion.startTime, preferences)}</td>
+              <td className="px-4 py-2 whitespace-nowrap text-gray-700">{formatDateTime(excursion.endTime, preferences)}</td>
+              <td className="px-4 py-2 whitespace-nowrap text-gray-700">{formatDuration(excursion.durationMs / 1000)}</td>
+              <td className="px-4 py-2 whitespace-nowrap font-semibold text-gray-900">{formatTemperature(excursion.peak, preferences)}</td>
+              <td className={`px-4 py-2 whitespace-nowrap font-semibold ${excursion.tolerated ? 'text-yellow-700' : 'text-red-600'}`}>
+                {excursionStatus(excursion)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ExcursionList;
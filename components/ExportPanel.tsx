@@ -0,0 +1,94 @@
+import React, { useMemo, useState } from 'react';
+import { DEFAULT_EXPORT_OPTIONS, EXPORT_FORMAT_LABELS, ExportFormat, ExportOptions, downloadBlob, exportFileName, exportHistoricalData, exportPoints } from '../services/dataExport';
+import { RESAMPLE_INTERVAL_MINUTES } from '../services/resampling';
+import { isTrackFormat } from '../services/trackExport';
+import { VehicleReport } from '../services/reports';
+
+interface ExportPanelProps {
+  report: VehicleReport;
+  onClose: () => void;
+}
+
+const selectClassName = "bg-white border border-gray-300 rounded-md py-1 px-2 text-sm text-gray-900 focus:ring-red-500 focus:border-red-500";
+const secondaryButtonClassName = "px-3 py-1 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md";
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ report, onClose }) => {
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const rowCount = useMemo(() => exportPoints(report, options).length, [report, options]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      downloadBlob(await exportHistoricalData(report, options), exportFileName(report, options));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The export failed.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-white rounded-lg shadow space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-800 flex items-center">
+          <span className="material-icons mr-2 text-gray-600">table_view</span>
+          Export data
+        </h3>
+        <div className="flex gap-2">
+          <button onClick={onClose} className={secondaryButtonClassName}>Close</button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting || rowCount === 0}
+            className="px-3 py-1 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-md disabled:opacity-50"
+          >
+            {isExporting ? 'Exporting...' : `Export ${rowCount} ${isTrackFormat(options.format) ? 'points' : 'rows'}`}
+          </button>
+        </div>
+      </div>
+      <div className="flex items-center gap-6 flex-wrap text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          Format
+          <select value={options.format} onChange={(e) => setOptions({ ...options, format: e.target.value as ExportFormat })} className={selectClassName}>
+            {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+              <option key={format} value={format}>{EXPORT_FORMAT_LABELS[format]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Rows
+          <select
+            value={options.intervalMinutes ?? ''}
+            onChange={(e) => setOptions({ ...options, intervalMinutes: e.target.value ? parseInt(e.target.value, 10) : null })}
+            className={selectClassName}
+          >
+            <option value="">Every reading</option>
+            {RESAMPLE_INTERVAL_MINUTES.map(minutes => (
+              <option key={minutes} value={minutes}>Every {minutes < 60 ? `${minutes} min` : `${minutes / 60} h`}</option>
+            ))}
+          </select>
+        </label>
+        {options.intervalMinutes === null && (
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={options.includeCarriedForward}
+              onChange={(e) => setOptions({ ...options, includeCarriedForward: e.target.checked })}
+              className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded"
+            />
+            Include carried-forward rows
+          </label>
+        )}
+      </div>
+      <p className="text-sm text-gray-500">
+        One column per temperature sensor and door, plus position and address. GPX, KML and GeoJSON hold the positioned points as a track with the same values per point. Carried-forward rows repeat the previous readings just before a change so graphs draw steps. Intervals take the last known state at each mark.
+      </p>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default ExportPanel;
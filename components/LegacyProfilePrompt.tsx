@@ -0,0 +1,68 @@
+import React, { useState, useCallback } from 'react';
+import { CredentialVault, RememberedCredentials } from '../services/credentialVault';
+
+interface LegacyProfilePromptProps {
+  vault: CredentialVault;
+  legacy: RememberedCredentials;
+  // Called once the old entry is gone, whether it was sealed into a profile or discarded.
+  onDone: () => void;
+}
+
+const inputClassName = "appearance-none rounded-md relative block w-full px-3 py-2 border border-login-input bg-login-input text-black placeholder-gray-800 focus:outline-none focus:ring-red-500 focus:border-red-500 sm:text-sm";
+const secondaryButtonClassName = "px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md disabled:opacity-50 disabled:cursor-not-allowed";
+
+// Earlier versions remembered the login unencrypted; this asks for a PIN to move it into the vault.
+const LegacyProfilePrompt: React.FC<LegacyProfilePromptProps> = ({ vault, legacy, onDone }) => {
+  const [pin, setPin] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleKeep = useCallback(async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await vault.migrateLegacyProfile(pin);
+      setPin('');
+      onDone();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the profile.');
+    } finally {
+      setIsBusy(false);
+    }
+  }, [vault, pin, onDone]);
+
+  const handleDiscard = useCallback(() => {
+    vault.discardLegacyProfile();
+    onDone();
+  }, [vault, onDone]);
+
+  return (
+    <div className="p-4 space-y-3 rounded-md border border-yellow-300 bg-yellow-50">
+      <p className="text-sm text-gray-700">
+        The login for <span className="font-semibold">{legacy.username} @ {legacy.accountName}</span> was remembered by an earlier version without protection. Choose a PIN or passphrase to keep it as an encrypted profile, or discard it.
+      </p>
+      <input
+        type="password"
+        value={pin}
+        onChange={(e) => setPin(e.target.value)}
+        autoComplete="new-password"
+        className={inputClassName}
+        placeholder="PIN or passphrase to protect this profile"
+      />
+      {error && <p className="text-sm text-center text-red-500">{error}</p>}
+      <div className="flex gap-2 justify-end">
+        <button type="button" onClick={handleDiscard} disabled={isBusy} className={secondaryButtonClassName}>Discard</button>
+        <button
+          type="button"
+          onClick={handleKeep}
+          disabled={isBusy || !pin}
+          className="px-3 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-md disabled:bg-red-400 disabled:cursor-not-allowed"
+        >
+          {isBusy ? 'Saving...' : 'Keep profile'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LegacyProfilePrompt;
@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { Compartment, TemperatureLimit, VehicleLimits } from '../services/temperatureLimits';
+import { DisplayPreferences, fromDisplayTemperature, temperatureUnitLabel, toDisplayTemperature } from '../services/preferences';
+
+interface LimitsEditorProps {
+  limits: VehicleLimits;
+  sensorIds: string[];
+  sensorInfo: Map<string, string>;
+  preferences: DisplayPreferences;
+  onSave: (limits: VehicleLimits) => void;
+  onClose: () => void;
+}
+
+// Limits are edited in the display unit and stored in Celsius.
+export interface LimitDraft {
+  min: string;
+  max: string;
+  tolerance: string;
+}
+
+interface CompartmentDraft {
+  name: string;
+  sensorIds: number[];
+  limit: LimitDraft;
+}
+
+export const EMPTY_DRAFT: LimitDraft = { min: '', max: '', tolerance: '0' };
+
+const inputClassName = "w-24 bg-white border border-gray-300 rounded-md py-1 px-2 text-sm text-gray-900 focus:ring-red-500 focus:border-red-500";
+const secondaryButtonClassName = "px-3 py-1 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md";
+
+export const toDraft = (limit: TemperatureLimit | null | undefined, preferences: DisplayPreferences): LimitDraft => {
+  if (!limit) return EMPTY_DRAFT;
+  const display = (value: number | null) => value === null ? '' : String(Number(toDisplayTemperature(value, preferences).toFixed(2)));
+  return { min: display(limit.min), max: display(limit.max), tolerance: String(limit.toleranceMinutes) };
+};
+
+export const fromDraft = (draft: LimitDraft, label: string, preferences: DisplayPreferences): TemperatureLimit | null => {
+  const parse = (value: string) => value.trim() === '' ? null : fromDisplayTemperature(parseFloat(value), preferences);
+  const min = parse(draft.min);
+  const max = parse(draft.max);
+  if (min === null && max === null) return null;
+  const toleranceMinutes = parseInt(draft.tolerance || '0', 10);
+  if ((min !== null && isNaN(min)) || (max !== null && isNaN(max)) || isNaN(toleranceMinutes) || toleranceMinutes < 0) {
+    throw new Error(`${label}: enter numbers for the limits and a tolerance of 0 minutes or more.`);
+  }
+  if (min !== null && max !== null && min >= max) {
+    throw new Error(`${label}: the minimum must be below the maximum.`);
+  }
+  return { min, max, toleranceMinutes };
+};
+
+export const LimitFields: React.FC<{
+  draft: LimitDraft;
+  unit: string;
+  onChange: (draft: LimitDraft) => void;
+}> = ({ draft, unit, onChange }) => (
+  <div className="flex items-center gap-2 text-sm text-gray-700">
+    <input type="number" step="0.1" value={draft.min} onChange={(e) => onChange({ ...draft, min: e.target.value })} className={inputClassName} placeholder="Min" aria-label="Minimum" />
+    <input type="number" step="0.1" value={draft.max} onChange={(e) => onChange({ ...draft, max: e.target.value })} className={inputClassName} placeholder="Max" aria-label="Maximum" />
+    <span>{unit}, tolerate</span>
+    <input type="number" min="0" value={draft.tolerance} onChange={(e) => onChange({ ...draft, tolerance: e.target.value })} className={inputClassName} aria-label="Tolerated minutes" />
+    <span>min</span>
+  </div>
+);
+
+const LimitsEditor: React.FC<LimitsEditorProps> = ({ limits, sensorIds, sensorInfo, preferences, onSave, onClose }) => {
+  const unit = temperatureUnitLabel(preferences);
+  const [vehicleDraft, setVehicleDraft] = useState(() => toDraft(limits.vehicle, preferences));
+  const [sensorDrafts, setSensorDrafts] = useState<Record<string, LimitDraft>>(() =>
+    Object.fromEntries(sensorIds.map(id => [id, toDraft(limits.sensors[parseInt(id, 10)], preferences)]))
+  );
+  const [compartments, setCompartments] = useState<CompartmentDraft[]>(() =>
+    limits.compartments.map(c => ({ name: c.name, sensorIds: c.sensorIds, limit: toDraft(c.limit, preferences) }))
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const updateCompartment = (index: number, changes: Partial<CompartmentDraft>) =>
+    setCompartments(prev => prev.map((c, i) => i === index ? { ...c, ...changes } : c));
+
+  const toggleCompartmentSensor = (index: number, sensorId: number) => {
+    const current = compartments[index].sensorIds;
+    updateCompartment(index, {
+      sensorIds: current.includes(sensorId) ? current.filter(id => id !== sensorId) : [...current, sensorId].sort((a, b) => a - b),
+    });
+  };
+
+  const handleSave = () => {
+    try {
+      const sensors: Record<number, TemperatureLimit> = {};
+      sensorIds.forEach(id => {
+        const limit = fromDraft(sensorDrafts[id] ?? EMPTY_DRAFT, sensorInfo.get(id) ?? `Sensor ${id}`, preferences);
+        if (limit) sensors[parseInt(id, 10)] = limit;
+      });
+      // Sensors that are not reporting in the current range keep their limits.
+      Object.keys(limits.sensors).forEach(id => {
+        if (!sensorIds.includes(id)) sensors[parseInt(id, 10)] = limits.sensors[parseInt(id, 10)];
+      });
+      const savedCompartments: Compartment[] = compartments.map((c, index) => {
+        const name = c.name.trim() || `Compartment ${index + 1}`;
+        return { name, sensorIds: c.sensorIds, limit: fromDraft(c.limit, name, preferences) };
+      });
+      onSave({ vehicle: fromDraft(vehicleDraft, 'Vehicle', preferences), compartments: savedCompartments, sensors });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The limits could not be saved.');
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-white rounded-lg shadow space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-800 flex items-center">
+          <span className="material-icons mr-2 text-gray-600">device_thermostat</span>
+          Temperature limits
+        </h3>
+        <div className="flex gap-2">
+          <button onClick={onClose} className={secondaryButtonClassName}>Cancel</button>
+          <button onClick={handleSave} className="px-3 py-1 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-md">Save limits</button>
+        </div>
+      </div>
+      <p className="text-sm text-gray-500">
+        A sensor's own limit takes precedence over its compartment's, which takes precedence over the vehicle's. Leave both fields empty to inherit.
+      </p>
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <span className="font-medium text-gray-800">Whole vehicle</span>
+        <LimitFields draft={vehicleDraft} unit={unit} onChange={setVehicleDraft} />
+      </div>
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="font-medium text-gray-800">Compartments</span>
+          <button
+            onClick={() => setCompartments(prev => [...prev, { name: '', sensorIds: [], limit: EMPTY_DRAFT }])}
+            className={secondaryButtonClassName}
+          >
+            Add compartment
+          </button>
+        </div>
+        {compartments.map((compartment, index) => (
+          <div key={index} className="p-3 border border-gray-200 rounded-md space-y-2">
+            <div className="flex items-center justify-between gap-4 flex-wrap">
+              <input
+                value={compartment.name}
+                onChange={(e) => updateCompartment(index, { name: e.target.value })}
+                className="bg-white border border-gray-300 rounded-md py-1 px-2 text-sm text-gray-900 focus:ring-red-500 focus:border-red-500"
+                placeholder={`Compartment ${index + 1}`}
+                aria-label="Compartment name"
+              />
+              <LimitFields draft={compartment.limit} unit={unit} onChange={(limit) => updateCompartment(index, { limit })} />
+              <button
+                onClick={() => setCompartments(prev => prev.filter((_, i) => i !== index))}
+                className="text-sm text-gray-600 hover:text-red-600 underline"
+              >
+                Remove
+              </button>
+            </div>
+            <div className="flex gap-4 flex-wrap text-sm text-gray-700">
+              {sensorIds.map(id => (
+                <label key={id} className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={compartment.sensorIds.includes(parseInt(id, 10))}
+                    onChange={() => toggleCompartmentSensor(index, parseInt(id, 10))}
+                    className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded"
+                  />
+                  {sensorInfo.get(id)}
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="space-y-2">
+        <span className="font-medium text-gray-800">Sensors</span>
+        {sensorIds.map(id => (
+          <div key={id} className="flex items-center justify-between gap-4 flex-wrap">
+            <span className="text-sm text-gray-700">{sensorInfo.get(id)}</span>
+            <LimitFields
+              draft={sensorDrafts[id] ?? EMPTY_DRAFT}
+              unit={unit}
+              onChange={(draft) => setSensorDrafts(prev => ({ ...prev, [id]: draft }))}
+            />
+          </div>
+        ))}
+      </div>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default LimitsEditor;
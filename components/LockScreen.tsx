@@ -0,0 +1,97 @@
+import React, { useState, useCallback } from 'react';
+import { AuthCredentials } from '../types';
+import { WebfleetAuthError, describeError } from '../services/webfleetErrors';
+import { accountKey } from '../services/session';
+
+interface LockScreenProps {
+  identities: AuthCredentials[];
+  reason: 'locked' | 'expired';
+  onUnlock: (passwords: Record<string, string>) => Promise<void>;
+  onSignOut: () => void;
+}
+
+const Spinner: React.FC = () => (
+  <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+);
+
+const LockScreen: React.FC<LockScreenProps> = ({ identities, reason, onUnlock, onSignOut }) => {
+  const [passwords, setPasswords] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (identities.some(identity => !passwords[accountKey(identity)])) {
+      setError(identities.length > 1 ? 'Please enter the password of every account.' : 'Please enter your password.');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      await onUnlock(passwords);
+    } catch (err) {
+      setError(err instanceof WebfleetAuthError
+        ? (identities.length > 1 ? 'Webfleet did not accept one of the passwords.' : 'Webfleet did not accept this password.')
+        : describeError(err, 'Unlocking failed. Please try again.').message);
+      setIsLoading(false);
+    }
+  }, [identities, passwords, onUnlock]);
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-800">
+      <div className="w-full max-w-md p-10 space-y-6 bg-white rounded-2xl shadow-lg">
+        <div className="text-center">
+          <span className="material-icons text-5xl text-red-600">lock</span>
+          <h1 className="text-2xl font-bold text-gray-900 mt-2">
+            {reason === 'expired' ? 'Sign in again' : 'Session locked'}
+          </h1>
+          <p className="text-sm text-gray-600 mt-2">
+            {reason === 'expired'
+              ? 'Webfleet no longer accepts the credentials of this session. Enter your current password to continue.'
+              : 'The session was locked after a period of inactivity. Enter your password to continue.'}
+          </p>
+        </div>
+        <form className="space-y-4" onSubmit={handleSubmit}>
+          {identities.map((identity, index) => (
+            <div key={accountKey(identity)}>
+              <label htmlFor={`unlock-password-${index}`} className="block text-sm text-gray-800 font-semibold mb-1">
+                {identity.username} @ {identity.accountName}
+              </label>
+              <input
+                id={`unlock-password-${index}`}
+                name={`password-${index}`}
+                type="password"
+                value={passwords[accountKey(identity)] ?? ''}
+                onChange={(e) => setPasswords(prev => ({ ...prev, [accountKey(identity)]: e.target.value }))}
+                autoComplete="current-password"
+                autoFocus={index === 0}
+                className="appearance-none rounded-md relative block w-full px-3 py-2 border border-login-input bg-login-input text-black placeholder-gray-800 focus:outline-none focus:ring-red-500 focus:border-red-500 sm:text-sm"
+                placeholder="Password"
+              />
+            </div>
+          ))}
+          {error && <p className="text-sm text-red-500 text-center">{error}</p>}
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:bg-red-400 disabled:cursor-not-allowed"
+          >
+            {isLoading ? <Spinner /> : 'Unlock'}
+          </button>
+        </form>
+        <div className="text-center">
+          <button
+            type="button"
+            onClick={onSignOut}
+            className="text-sm text-gray-600 hover:text-red-600 underline"
+          >
+            Sign out
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LockScreen;
@@ -1,16 +1,33 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useRef } from 'react';
 import { AuthCredentials } from '../types';
 import WebfleetService from '../services/webfleetService';
+import { fetchTransport } from '../services/apiTransport';
+import { DataSourceMode } from '../services/dataSource';
+import { RecordingTransport, parseRecording, signInToReplay } from '../services/sessionRecording';
+import { describeError } from '../services/webfleetErrors';
+import { Session, SessionTransport } from '../services/session';
+import { CredentialVault, RememberedCredentials } from '../services/credentialVault';
+import SavedProfiles from './SavedProfiles';
+import LegacyProfilePrompt from './LegacyProfilePrompt';
 
 interface LoginPageProps {
-  onLogin: (credentials: AuthCredentials) => void;
+  onLogin: (
+    credentials: AuthCredentials,
+    service: WebfleetService,
+    mode: DataSourceMode,
+    recorder: RecordingTransport | null,
+    session: Session
+  ) => void;
+  // Set when signing in to an additional account of an open workspace.
+  session?: Session;
+  onCancel?: () => void;
 }
 
 const Spinner: React.FC = () => (
   <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
 );
 
-const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
+const LoginPage: React.FC<LoginPageProps> = ({ onLogin, session, onCancel }) => {
   const [apiKey, setApiKey] = useState('');
   const [accountName, setAccountName] = useState('');
   const [username, setUsername] = useState('');
@@ -18,21 +35,27 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [rememberMe, setRememberMe] = useState(false);
+  const [vaultPin, setVaultPin] = useState('');
+  const [rememberPassword, setRememberPassword] = useState(false);
+  const [recordSession, setRecordSession] = useState(false);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const [vault] = useState(() => new CredentialVault());
+  const [profiles, setProfiles] = useState(() => vault.listProfiles());
+  const [legacyProfile, setLegacyProfile] = useState(() => vault.legacyProfile());
 
-  useEffect(() => {
-    const remembered = localStorage.getItem('rememberedCredentials');
-    if (remembered) {
-      try {
-        const { apiKey, accountName, username } = JSON.parse(remembered);
-        setApiKey(apiKey || '');
-        setAccountName(accountName || '');
-        setUsername(username || '');
-        setRememberMe(true);
-      } catch (e) {
-        console.error("Failed to parse remembered credentials", e);
-        localStorage.removeItem('rememberedCredentials');
-      }
-    }
+  const refreshProfiles = useCallback(() => setProfiles(vault.listProfiles()), [vault]);
+
+  const handleLegacyDone = useCallback(() => {
+    setLegacyProfile(null);
+    refreshProfiles();
+  }, [refreshProfiles]);
+
+  const handleUseProfile = useCallback((remembered: RememberedCredentials) => {
+    setApiKey(remembered.apiKey);
+    setAccountName(remembered.accountName);
+    setUsername(remembered.username);
+    setPassword(remembered.password ?? '');
+    setError(null);
   }, []);
 
   const handleSubmit = useCallback(async (e: React.FormEvent) => {
@@ -41,27 +64,61 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
       setError('All fields are required.');
       return;
     }
+    if (session?.hasAccount(accountName)) {
+      setError(`The account ${accountName} is already open in this workspace.`);
+      return;
+    }
+    if (rememberMe && vaultPin.length < 4) {
+      setError('Choose a PIN or passphrase of at least 4 characters to remember this profile.');
+      return;
+    }
     
     setIsLoading(true);
     setError(null);
     
     const credentials: AuthCredentials = { apiKey, accountName, username, password };
     
+    const recorder = recordSession && !session ? new RecordingTransport(fetchTransport) : null;
+    const activeSession = session ?? new Session();
+    const service = new WebfleetService(new SessionTransport(recorder ?? fetchTransport, activeSession));
+    
     try {
-      const authenticatedCredentials = await WebfleetService.login(credentials);
+      await service.login(credentials);
       if (rememberMe) {
-        // Do not store the password
-        localStorage.setItem('rememberedCredentials', JSON.stringify({ apiKey, accountName, username }));
-      } else {
-        localStorage.removeItem('rememberedCredentials');
+        try {
+          await vault.saveProfile(credentials, vaultPin, rememberPassword);
+        } catch (saveError) {
+          // Stay on the form: going on would leave the user believing the profile was remembered.
+          const reason = saveError instanceof Error ? saveError.message : 'The credential vault is unavailable.';
+          setError(`The login worked, but the profile could not be saved: ${reason} Sign in again to retry, or untick Remember me.`);
+          return;
+        }
       }
-      onLogin(authenticatedCredentials);
+      onLogin(activeSession.addAccount(credentials), service, recorder ? 'recording' : 'live', recorder, activeSession);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Login failed. Please check your credentials.');
+      setError(describeError(err, 'Login failed. Please check your credentials.').message);
     } finally {
       setIsLoading(false);
     }
-  }, [apiKey, accountName, username, password, onLogin, rememberMe]);
+  }, [apiKey, accountName, username, password, onLogin, session, rememberMe, vaultPin, rememberPassword, vault, recordSession]);
+
+  const handleReplayFile = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { identity, service, session: replaySession } = await signInToReplay(parseRecording(await file.text()));
+      onLogin(identity, service, 'replay', null, replaySession);
+    } catch (err) {
+      setError(describeError(err, 'Failed to load the session recording.').message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [onLogin]);
 
   return (
     <div 
@@ -74,7 +131,12 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
             <h1 className="text-3xl font-bold text-gray-900 p-2">
                 COLD CHAIN MONITOR
             </h1>
+            {session && <p className="text-sm text-gray-600">Sign in to another Webfleet account to add its fleet to the workspace.</p>}
         </div>
+        {legacyProfile && <LegacyProfilePrompt vault={vault} legacy={legacyProfile} onDone={handleLegacyDone} />}
+        {profiles.length > 0 && (
+          <SavedProfiles vault={vault} profiles={profiles} onProfilesChange={refreshProfiles} onUse={handleUseProfile} />
+        )}
         <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
           <div>
             <input 
@@ -141,7 +203,50 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
             <label htmlFor="remember-me" className="ml-2 block text-sm text-gray-900">
               Remember me
             </label>
+            {!session && (
+              <>
+                <input
+                  id="record-session"
+                  name="record-session"
+                  type="checkbox"
+                  checked={recordSession}
+                  onChange={(e) => setRecordSession(e.target.checked)}
+                  className="ml-6 h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded"
+                />
+                <label htmlFor="record-session" className="ml-2 block text-sm text-gray-900">
+                  Record session
+                </label>
+              </>
+            )}
           </div>
+
+          {rememberMe && (
+            <div className="space-y-2">
+              <input
+                id="vault-pin"
+                name="vault-pin"
+                type="password"
+                value={vaultPin}
+                onChange={(e) => setVaultPin(e.target.value)}
+                autoComplete="new-password"
+                className="appearance-none rounded-md relative block w-full px-3 py-2 border border-login-input bg-login-input text-black placeholder-gray-800 focus:outline-none focus:ring-red-500 focus:border-red-500 sm:text-sm"
+                placeholder="PIN or passphrase to protect this profile"
+              />
+              <div className="flex items-center">
+                <input
+                  id="remember-password"
+                  name="remember-password"
+                  type="checkbox"
+                  checked={rememberPassword}
+                  onChange={(e) => setRememberPassword(e.target.checked)}
+                  className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded"
+                />
+                <label htmlFor="remember-password" className="ml-2 block text-sm text-gray-900">
+                  Also save the password
+                </label>
+              </div>
+            </div>
+          )}
           
           {error && <p className="text-sm text-red-500 text-center">{error}</p>}
 
@@ -151,10 +256,40 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
               disabled={isLoading}
               className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:bg-red-400 disabled:cursor-not-allowed"
             >
-              {isLoading ? <Spinner /> : 'Sign in'}
+              {isLoading ? <Spinner /> : (session ? 'Add account' : 'Sign in')}
             </button>
           </div>
         </form>
+        {session ? (
+          <div className="text-center">
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={isLoading}
+              className="text-sm text-gray-600 hover:text-red-600 underline disabled:cursor-not-allowed"
+            >
+              Back to the fleet
+            </button>
+          </div>
+        ) : (
+          <div className="text-center">
+            <input
+              ref={replayInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleReplayFile}
+              className="hidden"
+            />
+            <button
+              type="button"
+              onClick={() => replayInputRef.current?.click()}
+              disabled={isLoading}
+              className="text-sm text-gray-600 hover:text-red-600 underline disabled:cursor-not-allowed"
+            >
+              Replay a recorded session
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,14 +1,28 @@
 
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { AuthCredentials, Vehicle } from '../types';
-import WebfleetService from '../services/webfleetService';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { LiveUpdateStatus, Vehicle } from '../types';
+import { AccountConnection } from '../services/dataSource';
 import VehicleTable from './VehicleTable';
 import VehicleMap from './VehicleMap';
+import ErrorNotice from './ErrorNotice';
+import BatchReportPanel from './BatchReportPanel';
+import { ErrorPresentation, describeError } from '../services/webfleetErrors';
+import { LiveFleetUpdater, applyVehicleUpdates, combineLiveStatuses, vehicleKey } from '../services/liveUpdates';
+import { DisplayPreferences } from '../services/preferences';
+import { AlertEngine } from '../services/alertRules';
+import { ProfileLibrary } from '../services/productProfiles';
 
 interface MainViewProps {
-  auth: AuthCredentials;
+  accounts: AccountConnection[];
+  preferences: DisplayPreferences;
+  profileLibrary: ProfileLibrary;
+  alertEngine: AlertEngine;
+  alertedVehicleKeys: Set<string>;
   onSelectVehicle: (vehicle: Vehicle) => void;
+  onReauthenticate: () => void;
+  onRemoveAccount: (accountName: string) => void;
+  onLiveStatusChange: (status: LiveUpdateStatus | null) => void;
 }
 
 const Spinner: React.FC = () => (
@@ -18,45 +32,127 @@ const Spinner: React.FC = () => (
 );
 
 
-const MainView: React.FC<MainViewProps> = ({ auth, onSelectVehicle }) => {
+const withSensors = (data: Vehicle[]): Vehicle[] => {
+  const vehiclesWithSensors = data.filter(v => 
+    (v.temperatures && Object.keys(v.temperatures).length > 0) || v.doorStatus !== null
+  );
+  vehiclesWithSensors.sort((a, b) => a.name.localeCompare(b.name));
+  return vehiclesWithSensors;
+};
+
+const MainView: React.FC<MainViewProps> = ({ accounts, preferences, profileLibrary, alertEngine, alertedVehicleKeys, onSelectVehicle, onReauthenticate, onRemoveAccount, onLiveStatusChange }) => {
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [selectedVehicleId, setSelectedVehicleId] = useState<string | null>(null);
+  const [error, setError] = useState<ErrorPresentation | null>(null);
+  const [accountErrors, setAccountErrors] = useState<Record<string, ErrorPresentation>>({});
+  const [accountFilter, setAccountFilter] = useState<string>('all');
+  const [selectedVehicleKey, setSelectedVehicleKey] = useState<string | null>(null);
   const [mapCenter, setMapCenter] = useState<[number, number] | null>(null);
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
+  const [batchVehicleKeys, setBatchVehicleKeys] = useState<Set<string>>(new Set());
+  const liveStatusesRef = useRef<Record<string, LiveUpdateStatus>>({});
 
   const fetchVehicles = useCallback(async () => {
     try {
       setIsLoading(true);
       setError(null);
-      const data = await WebfleetService.getVehiclesAndAssets(auth);
-      const vehiclesWithSensors = data.filter(v => 
-        (v.temperatures && Object.keys(v.temperatures).length > 0) || v.doorStatus !== null
-      );
-      vehiclesWithSensors.sort((a, b) => a.name.localeCompare(b.name));
+      const results = await Promise.allSettled(accounts.map(account => account.dataSource.getVehiclesAndAssets(account.auth)));
+
+      const failures: Record<string, ErrorPresentation> = {};
+      const merged: Vehicle[] = [];
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+          merged.push(...result.value);
+        } else {
+          failures[accounts[index].auth.accountName] = describeError(result.reason, 'Failed to fetch vehicle data.');
+        }
+      });
+      if (accounts.length > 0 && Object.keys(failures).length === accounts.length) {
+        setError(failures[accounts[0].auth.accountName]);
+        return;
+      }
+
+      const vehiclesWithSensors = withSensors(merged);
+      setAccountErrors(failures);
       setVehicles(vehiclesWithSensors);
+      alertEngine.observeSnapshot(vehiclesWithSensors);
       const firstVehicleWithLocation = vehiclesWithSensors.find(v => v.location);
       if (firstVehicleWithLocation?.location) {
         setMapCenter([firstVehicleWithLocation.location.lat, firstVehicleWithLocation.location.lng]);
       }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch vehicle data.');
     } finally {
       setIsLoading(false);
     }
-  }, [auth]);
+  }, [accounts, alertEngine]);
 
   useEffect(() => {
     fetchVehicles();
   }, [fetchVehicles]);
 
+  useEffect(() => {
+    if (accountFilter !== 'all' && !accounts.some(account => account.auth.accountName === accountFilter)) {
+      setAccountFilter('all');
+    }
+  }, [accounts, accountFilter]);
+
+  useEffect(() => {
+    if (isLoading || error) return;
+
+    liveStatusesRef.current = {};
+    const updaters = accounts
+      .filter(account => !accountErrors[account.auth.accountName])
+      .map(account => {
+        const accountName = account.auth.accountName;
+        return new LiveFleetUpdater(account.dataSource, account.auth, {
+          onUpdates: updates => {
+            setVehicles(prev => applyVehicleUpdates(prev, updates));
+            alertEngine.observeUpdates(updates);
+          },
+          onSnapshot: data => {
+            setVehicles(prev => withSensors([...prev.filter(v => v.account !== accountName), ...data]));
+            alertEngine.observeSnapshot(withSensors(data));
+          },
+          onStatus: status => {
+            liveStatusesRef.current = { ...liveStatusesRef.current, [accountName]: status };
+            onLiveStatusChange(combineLiveStatuses(Object.values(liveStatusesRef.current)));
+          },
+        });
+      });
+    updaters.forEach(updater => updater.start());
+
+    return () => {
+      updaters.forEach(updater => updater.stop());
+      onLiveStatusChange(null);
+    };
+  }, [accounts, accountErrors, isLoading, error, onLiveStatusChange, alertEngine]);
+
+  const visibleVehicles = useMemo(
+    () => accountFilter === 'all' ? vehicles : vehicles.filter(v => v.account === accountFilter),
+    [vehicles, accountFilter]
+  );
+  const isMultiAccount = accounts.length > 1;
+  const batchVehicles = useMemo(() => vehicles.filter(v => batchVehicleKeys.has(vehicleKey(v))), [vehicles, batchVehicleKeys]);
+
+  const toggleBatchVehicle = (key: string) => {
+    setBatchVehicleKeys(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
   const handleRowClick = (vehicle: Vehicle) => {
+    // While picking vehicles for a batch, leaving the list would also cancel a running batch.
+    if (isBatchOpen) {
+      toggleBatchVehicle(vehicleKey(vehicle));
+      return;
+    }
     onSelectVehicle(vehicle);
   };
   
-  const handleMarkerClick = (vehicleId: string) => {
-    setSelectedVehicleId(vehicleId);
-     const element = document.getElementById(`vehicle-row-${vehicleId}`);
+  const handleMarkerClick = (key: string) => {
+    setSelectedVehicleKey(key);
+     const element = document.getElementById(`vehicle-row-${key}`);
      element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
   };
 
@@ -70,30 +166,97 @@ const MainView: React.FC<MainViewProps> = ({ auth, onSelectVehicle }) => {
   }
 
   if (error) {
-    return <div className="p-8 text-center text-red-500">{error}</div>;
+    return (
+      <div className="p-8">
+        <ErrorNotice error={error} onRetry={fetchVehicles} onSignIn={onReauthenticate} />
+      </div>
+    );
   }
 
   return (
     <div className="flex-grow flex flex-col md:flex-row overflow-hidden">
       <div className="w-full md:w-2/5 flex flex-col bg-white h-1/2 md:h-full">
-        <div className="p-4 border-b bg-vehicles-header text-white">
+        <div className="p-4 border-b bg-vehicles-header text-white flex items-center justify-between gap-2">
           <h2 className="text-lg font-bold">Vehicles</h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setIsBatchOpen(true)}
+              className="flex items-center text-sm text-white hover:text-red-200"
+              title="Generate reports for several vehicles at once"
+            >
+              <span className="material-icons text-base mr-1">library_books</span>
+              Batch reports
+            </button>
+            {isMultiAccount && (
+              <div className="flex items-center gap-2">
+                <select
+                  value={accountFilter}
+                  onChange={(e) => setAccountFilter(e.target.value)}
+                  className="bg-white border border-gray-300 rounded-md py-1 px-2 text-sm text-gray-900 focus:ring-red-500 focus:border-red-500"
+                  aria-label="Filter by account"
+                >
+                  <option value="all">All accounts ({vehicles.length})</option>
+                  {accounts.map(account => (
+                    <option key={account.auth.accountName} value={account.auth.accountName}>
+                      {account.auth.accountName} ({vehicles.filter(v => v.account === account.auth.accountName).length})
+                    </option>
+                  ))}
+                </select>
+                {accountFilter !== 'all' && (
+                  <button
+                    onClick={() => onRemoveAccount(accountFilter)}
+                    className="flex items-center text-sm text-white hover:text-red-200"
+                    title={`Sign out of ${accountFilter} and remove its vehicles`}
+                  >
+                    <span className="material-icons text-base">person_remove</span>
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
         </div>
+        {isBatchOpen && (
+          <BatchReportPanel
+            accounts={accounts}
+            vehicles={batchVehicles}
+            preferences={preferences}
+            profileLibrary={profileLibrary}
+            onSelectAll={() => setBatchVehicleKeys(new Set([...batchVehicleKeys, ...visibleVehicles.map(vehicleKey)]))}
+            onClearSelection={() => setBatchVehicleKeys(new Set())}
+            onClose={() => setIsBatchOpen(false)}
+          />
+        )}
+        {Object.keys(accountErrors).map(accountName => (
+          <div key={accountName} className="px-4 pt-4">
+            <ErrorNotice
+              error={{ ...accountErrors[accountName], title: `${accountName}: ${accountErrors[accountName].title}` }}
+              onRetry={fetchVehicles}
+              onSignIn={onReauthenticate}
+            />
+          </div>
+        ))}
         <div className="flex-grow overflow-y-auto">
           <VehicleTable 
-            vehicles={vehicles} 
+            vehicles={visibleVehicles} 
             onRowClick={handleRowClick}
-            selectedVehicleId={selectedVehicleId}
-            onVehicleHover={setSelectedVehicleId}
+            selectedVehicleKey={selectedVehicleKey}
+            onVehicleHover={setSelectedVehicleKey}
+            showAccount={isMultiAccount}
+            alertedVehicleKeys={alertedVehicleKeys}
+            checkedVehicleKeys={isBatchOpen ? batchVehicleKeys : undefined}
+            onToggleChecked={isBatchOpen ? toggleBatchVehicle : undefined}
+            preferences={preferences}
           />
         </div>
       </div>
       <div className="w-full md:w-3/5 h-1/2 md:h-full">
         <VehicleMap 
-          vehicles={vehicles} 
+          vehicles={visibleVehicles} 
           onMarkerClick={handleMarkerClick}
-          selectedVehicleId={selectedVehicleId}
+          selectedVehicleKey={selectedVehicleKey}
           center={mapCenter}
+          showAccount={isMultiAccount}
+          preferences={preferences}
         />
       </div>
     </div>
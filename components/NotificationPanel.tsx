@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { ALERT_KIND_LABELS, AlertRule, AlertSettings } from '../services/alertRules';
+import { Alert, NotificationCenter, SNOOZE_OPTIONS_MINUTES, alertTitle, describeAlert, needsAttention } from '../services/notificationCenter';
+import { browserNotificationsSupported, requestNotificationPermission } from '../services/browserAlerts';
+import { AlertChannel, AlertDispatcher, DeliveryLog } from '../services/alertChannels';
+import { DisplayPreferences, formatDateTime } from '../services/preferences';
+import AlertChannels from './AlertChannels';
+
+interface NotificationPanelProps {
+  center: NotificationCenter;
+  alerts: Alert[];
+  settings: AlertSettings;
+  channels: AlertChannel[];
+  dispatcher: AlertDispatcher;
+  deliveryLog: DeliveryLog;
+  preferences: DisplayPreferences;
+  now: number;
+  onSettingsChange: (settings: AlertSettings) => void;
+  onChannelsChange: (channels: AlertChannel[]) => void;
+  onClose: () => void;
+}
+
+const secondaryButtonClassName = "px-3 py-1 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md";
+const inputClassName = "w-20 bg-white border border-gray-300 rounded-md py-1 px-2 text-sm text-gray-900 focus:ring-red-500 focus:border-red-500";
+
+const alertState = (alert: Alert, now: number): string => {
+  if (alert.resolvedAt !== null) return 'Resolved';
+  if (alert.acknowledgedAt !== null) return 'Acknowledged';
+  if (alert.snoozedUntil !== null && alert.snoozedUntil > now) return 'Snoozed';
+  return 'Active';
+};
+
+const NotificationPanel: React.FC<NotificationPanelProps> = ({
+  center, alerts, settings, channels, dispatcher, deliveryLog, preferences, now, onSettingsChange, onChannelsChange, onClose,
+}) => {
+  const [showRules, setShowRules] = useState(false);
+  const [showChannels, setShowChannels] = useState(false);
+  const [permissionError, setPermissionError] = useState<string | null>(null);
+
+  const updateRule = (id: string, changes: Partial<AlertRule>) =>
+    onSettingsChange({ ...settings, rules: settings.rules.map(rule => rule.id === id ? { ...rule, ...changes } : rule) });
+
+  const handleBrowserNotifications = async (enabled: boolean) => {
+    if (enabled && !(await requestNotificationPermission())) {
+      setPermissionError('The browser did not allow notifications for this site.');
+      return;
+    }
+    setPermissionError(null);
+    onSettingsChange({ ...settings, browserNotifications: enabled });
+  };
+
+  return (
+    <div className="bg-white border-b border-gray-200 shadow-inner">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-semibold text-gray-800 flex items-center">
+            <span className="material-icons mr-2 text-red-500">notifications</span>
+            Alerts
+          </h2>
+          <div className="flex gap-2">
+            <button onClick={() => setShowRules(prev => !prev)} className={secondaryButtonClassName}>
+              {showRules ? 'Hide rules' : 'Rules'}
+            </button>
+            <button onClick={() => setShowChannels(prev => !prev)} className={secondaryButtonClassName}>
+              {showChannels ? 'Hide channels' : 'Channels'}
+            </button>
+            <button onClick={() => center.acknowledgeAll()} disabled={!alerts.some(alert => needsAttention(alert, now))} className={`${secondaryButtonClassName} disabled:opacity-50`}>
+              Acknowledge all
+            </button>
+            <button onClick={() => center.clearResolved()} disabled={!alerts.some(alert => alert.resolvedAt !== null)} className={`${secondaryButtonClassName} disabled:opacity-50`}>
+              Clear resolved
+            </button>
+            <button onClick={onClose} className={secondaryButtonClassName}>Close</button>
+          </div>
+        </div>
+        {showRules && (
+          <div className="mb-4 p-3 border border-gray-200 rounded-md space-y-2 text-sm text-gray-700">
+            {settings.rules.map(rule => (
+              <div key={rule.id} className="flex items-center gap-3 flex-wrap">
+                <label className="flex items-center gap-2 w-56">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                    className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded"
+                  />
+                  {ALERT_KIND_LABELS[rule.kind]}
+                </label>
+                <span>{rule.kind === 'movingWithDoorOpen' ? 'door open at least' : 'after'}</span>
+                <input
+                  type="number"
+                  min="0"
+                  value={rule.minutes}
+                  onChange={(e) => updateRule(rule.id, { minutes: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                  className={inputClassName}
+                  aria-label={`${ALERT_KIND_LABELS[rule.kind]} minutes`}
+                />
+                <span>min</span>
+              </div>
+            ))}
+            <p className="text-gray-500">Temperatures are checked against the vehicle's limits, or the loaded product's while one is assigned.</p>
+            <div className="flex items-center gap-6 pt-2">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={settings.browserNotifications}
+                  disabled={!browserNotificationsSupported()}
+                  onChange={(e) => handleBrowserNotifications(e.target.checked)}
+                  className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded"
+                />
+                Browser notifications
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={settings.sound}
+                  onChange={(e) => onSettingsChange({ ...settings, sound: e.target.checked })}
+                  className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded"
+                />
+                Sound
+              </label>
+            </div>
+            {permissionError && <p className="text-red-500">{permissionError}</p>}
+          </div>
+        )}
+        {showChannels && (
+          <AlertChannels channels={channels} dispatcher={dispatcher} deliveryLog={deliveryLog} preferences={preferences} onChange={onChannelsChange} />
+        )}
+        {alerts.length === 0 ? (
+          <p className="text-sm text-gray-500">No alerts raised.</p>
+        ) : (
+          <ul className="max-h-72 overflow-y-auto divide-y divide-gray-100 text-sm">
+            {alerts.map(alert => {
+              const pending = needsAttention(alert, now);
+              return (
+                <li key={alert.id} className="py-2 flex items-center justify-between gap-4">
+                  <div>
+                    <span className={`font-semibold ${pending ? 'text-red-600' : 'text-gray-800'}`}>{alertTitle(alert)}</span>
+                    <span className="ml-2 text-gray-500">{formatDateTime(alert.raisedAt, preferences)} · {alertState(alert, now)}</span>
+                    <p className="text-gray-600">{describeAlert(alert, preferences, now)}</p>
+                  </div>
+                  {alert.resolvedAt === null && alert.acknowledgedAt === null && (
+                    <div className="flex items-center gap-2 shrink-0">
+                      <select
+                        value=""
+                        onChange={(e) => e.target.value && center.snooze(alert.id, parseInt(e.target.value, 10))}
+                        className="bg-white border border-gray-300 rounded-md py-1 px-2 text-sm text-gray-900"
+                        aria-label="Snooze"
+                      >
+                        <option value="">Snooze...</option>
+                        {SNOOZE_OPTIONS_MINUTES.map(minutes => (
+                          <option key={minutes} value={minutes}>{minutes < 60 ? `${minutes} min` : `${minutes / 60} h`}</option>
+                        ))}
+                      </select>
+                      <button onClick={() => center.acknowledge(alert.id)} className={secondaryButtonClassName}>Acknowledge</button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NotificationPanel;
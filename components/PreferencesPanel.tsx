@@ -0,0 +1,135 @@
+import React from 'react';
+import {
+  ClockFormat,
+  DATE_FORMAT_LABELS,
+  DateFormat,
+  DisplayPreferences,
+  TIME_ZONE_MODE_LABELS,
+  TemperatureUnit,
+  TimeZoneMode,
+  accountTimeZone,
+  formatDateTime,
+  formatTemperature,
+} from '../services/preferences';
+import { availableTimeZones, isValidTimeZone } from '../services/timeZones';
+
+interface PreferencesPanelProps {
+  preferences: DisplayPreferences;
+  accountNames: string[];
+  onChange: (preferences: DisplayPreferences) => void;
+  onClose: () => void;
+}
+
+const selectClassName = "bg-white border border-gray-300 rounded-md py-1 px-2 text-sm text-gray-900 focus:ring-red-500 focus:border-red-500";
+
+const PreferencesPanel: React.FC<PreferencesPanelProps> = ({ preferences, accountNames, onChange, onClose }) => {
+  const update = (changes: Partial<DisplayPreferences>) => onChange({ ...preferences, ...changes });
+
+  const setAccountZone = (accountName: string, zone: string) => {
+    if (zone && !isValidTimeZone(zone)) return;
+    const accountTimeZones = { ...preferences.accountTimeZones };
+    if (zone) accountTimeZones[accountName] = zone;
+    else delete accountTimeZones[accountName];
+    update({ accountTimeZones });
+  };
+
+  return (
+    <div className="bg-white border-b border-gray-200 shadow-inner">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-semibold text-gray-800 flex items-center">
+            <span className="material-icons mr-2 text-gray-600">settings</span>
+            Display preferences
+          </h2>
+          <button
+            onClick={onClose}
+            className="px-3 py-1 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+          >
+            Close
+          </button>
+        </div>
+        <div className="flex flex-wrap items-center gap-6 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            Temperature
+            <select
+              value={preferences.temperatureUnit}
+              onChange={(e) => update({ temperatureUnit: e.target.value as TemperatureUnit })}
+              className={selectClassName}
+            >
+              <option value="C">Celsius (°C)</option>
+              <option value="F">Fahrenheit (°F)</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Decimals
+            <select
+              value={preferences.decimals}
+              onChange={(e) => update({ decimals: parseInt(e.target.value, 10) })}
+              className={selectClassName}
+            >
+              {[0, 1, 2].map(decimals => <option key={decimals} value={decimals}>{decimals}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Date
+            <select
+              value={preferences.dateFormat}
+              onChange={(e) => update({ dateFormat: e.target.value as DateFormat })}
+              className={selectClassName}
+            >
+              {(Object.keys(DATE_FORMAT_LABELS) as DateFormat[]).map(format => (
+                <option key={format} value={format}>{DATE_FORMAT_LABELS[format]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Clock
+            <select
+              value={preferences.clock}
+              onChange={(e) => update({ clock: e.target.value as ClockFormat })}
+              className={selectClassName}
+            >
+              <option value="24h">24-hour</option>
+              <option value="12h">12-hour</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Time zone
+            <select
+              value={preferences.timeZoneMode}
+              onChange={(e) => update({ timeZoneMode: e.target.value as TimeZoneMode })}
+              className={selectClassName}
+            >
+              {(Object.keys(TIME_ZONE_MODE_LABELS) as TimeZoneMode[]).map(mode => (
+                <option key={mode} value={mode}>{TIME_ZONE_MODE_LABELS[mode]}</option>
+              ))}
+            </select>
+          </label>
+          <span className="text-gray-500">
+            Example: {formatDateTime(Date.now(), preferences)} · {formatTemperature(-18.25, preferences)}
+          </span>
+        </div>
+        <div className="flex flex-wrap items-center gap-6 mt-3 text-sm text-gray-700">
+          <span className="font-medium">Account time zones</span>
+          {accountNames.map(accountName => (
+            <label key={accountName} className="flex items-center gap-2">
+              {accountName}
+              <input
+                list="account-time-zones"
+                defaultValue={accountTimeZone(preferences, accountName)}
+                onBlur={(e) => setAccountZone(accountName, e.target.value.trim())}
+                className={selectClassName}
+                aria-label={`Time zone of ${accountName}`}
+              />
+            </label>
+          ))}
+          <datalist id="account-time-zones">
+            {availableTimeZones().map(zone => <option key={zone} value={zone} />)}
+          </datalist>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PreferencesPanel;
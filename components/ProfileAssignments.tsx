@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { ProductProfile, ProfileAssignment, ProfileLibrary } from '../services/productProfiles';
+import { DisplayPreferences, formatDateTime } from '../services/preferences';
+import { parseDateTimeLocalValue, toDateTimeLocalValue } from '../services/timeZones';
+import { describeProfileLimit } from './ProfileLibraryPanel';
+
+interface ProfileAssignmentsProps {
+  library: ProfileLibrary;
+  accountName: string;
+  vehicleUid: string;
+  assignments: ProfileAssignment[];
+  profiles: Map<string, ProductProfile>;
+  compartments: string[];
+  // Zone-resolved preferences of the view; the date inputs are read on its wall clock.
+  preferences: DisplayPreferences;
+  timeZone: string;
+  onClose: () => void;
+}
+
+const inputClassName = "bg-white border border-gray-300 rounded-md py-1 px-2 text-sm text-gray-900 focus:ring-red-500 focus:border-red-500";
+
+const ProfileAssignments: React.FC<ProfileAssignmentsProps> = ({
+  library, accountName, vehicleUid, assignments, profiles, compartments, preferences, timeZone, onClose,
+}) => {
+  const [profileId, setProfileId] = useState(() => library.listProfiles()[0]?.id ?? '');
+  const [compartment, setCompartment] = useState('');
+  const [start, setStart] = useState(() => toDateTimeLocalValue(Date.now(), timeZone));
+  const [end, setEnd] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAssign = (e: React.FormEvent) => {
+    e.preventDefault();
+    const startTime = parseDateTimeLocalValue(start, timeZone);
+    if (startTime === null) {
+      setError('Enter when the load was put on the vehicle.');
+      return;
+    }
+    try {
+      library.assign({
+        accountName,
+        vehicleUid,
+        profileId,
+        compartment: compartment || null,
+        startTime,
+        endTime: end ? parseDateTimeLocalValue(end, timeZone) : null,
+      });
+      setEnd('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The load could not be assigned.');
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-white rounded-lg shadow space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-800 flex items-center">
+          <span className="material-icons mr-2 text-blue-600">inventory_2</span>
+          Loaded products
+        </h3>
+        <button onClick={onClose} className="px-3 py-1 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md">Close</button>
+      </div>
+      <p className="text-sm text-gray-500">
+        While a product is loaded, its profile replaces the vehicle's own limits and decides how long doors may stay open.
+      </p>
+      {assignments.length === 0 ? (
+        <p className="text-sm text-gray-500">No products assigned to this vehicle yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 text-sm">
+          {assignments.map(assignment => {
+            const profile = profiles.get(assignment.profileId);
+            return (
+              <li key={assignment.id} className="py-2 flex items-center justify-between gap-4">
+                <div>
+                  <span className="font-semibold text-gray-800">{profile?.name ?? 'Removed profile'}</span>
+                  {assignment.compartment && <span className="ml-2 text-gray-600">in {assignment.compartment}</span>}
+                  <p className="text-gray-600">
+                    {formatDateTime(assignment.startTime, preferences)} to {assignment.endTime !== null ? formatDateTime(assignment.endTime, preferences) : 'now'}
+                    {profile && ` · ${describeProfileLimit(profile, preferences)}`}
+                  </p>
+                </div>
+                <button onClick={() => library.unassign(assignment.id)} className="text-sm text-gray-600 hover:text-red-600 underline">Remove</button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <form onSubmit={handleAssign} className="flex items-center gap-2 flex-wrap text-sm text-gray-700">
+        <select value={profileId} onChange={(e) => setProfileId(e.target.value)} className={inputClassName} aria-label="Product profile">
+          {library.listProfiles().map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+        </select>
+        {compartments.length > 0 && (
+          <select value={compartment} onChange={(e) => setCompartment(e.target.value)} className={inputClassName} aria-label="Compartment">
+            <option value="">Whole vehicle</option>
+            {compartments.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        )}
+        <span>from</span>
+        <input type="datetime-local" value={start} onChange={(e) => setStart(e.target.value)} className={inputClassName} aria-label="Loaded from" />
+        <span>to</span>
+        <input type="datetime-local" value={end} onChange={(e) => setEnd(e.target.value)} className={inputClassName} aria-label="Loaded until" />
+        <span className="text-gray-500">(empty while still loaded)</span>
+        <button type="submit" className="px-3 py-1 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-md">Assign</button>
+      </form>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default ProfileAssignments;
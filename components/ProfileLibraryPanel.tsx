@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { ProductProfile, ProfileLibrary } from '../services/productProfiles';
+import { DisplayPreferences, formatTemperature, temperatureUnitLabel } from '../services/preferences';
+import { EMPTY_DRAFT, LimitDraft, LimitFields, fromDraft } from './LimitsEditor';
+
+interface ProfileLibraryPanelProps {
+  library: ProfileLibrary;
+  preferences: DisplayPreferences;
+  onClose: () => void;
+}
+
+const secondaryButtonClassName = "px-3 py-1 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md";
+const inputClassName = "bg-white border border-gray-300 rounded-md py-1 px-2 text-sm text-gray-900 focus:ring-red-500 focus:border-red-500";
+
+export const describeProfileLimit = (profile: ProductProfile, preferences: DisplayPreferences): string => {
+  const { min, max } = profile.limit;
+  if (min !== null && max !== null) return `${formatTemperature(min, preferences)} to ${formatTemperature(max, preferences)}`;
+  return min !== null ? `at least ${formatTemperature(min, preferences)}` : `at most ${formatTemperature(max!, preferences)}`;
+};
+
+const ProfileLibraryPanel: React.FC<ProfileLibraryPanelProps> = ({ library, preferences, onClose }) => {
+  const [profiles, setProfiles] = useState(() => library.listProfiles());
+  const [name, setName] = useState('');
+  const [limitDraft, setLimitDraft] = useState<LimitDraft>(EMPTY_DRAFT);
+  const [doorOpenMinutes, setDoorOpenMinutes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => library.subscribe(() => setProfiles(library.listProfiles())), [library]);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const limit = fromDraft(limitDraft, name.trim() || 'Profile', preferences);
+      if (!limit) throw new Error('A profile needs a minimum or a maximum temperature.');
+      const doorMinutes = doorOpenMinutes.trim() === '' ? null : parseInt(doorOpenMinutes, 10);
+      if (doorMinutes !== null && (isNaN(doorMinutes) || doorMinutes < 0)) {
+        throw new Error('Enter the allowed door-open time in whole minutes.');
+      }
+      library.saveProfile({ name, limit, doorOpenMinutes: doorMinutes });
+      setName('');
+      setLimitDraft(EMPTY_DRAFT);
+      setDoorOpenMinutes('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The profile could not be saved.');
+    }
+  };
+
+  const handleRemove = (profile: ProductProfile) => {
+    if (!window.confirm(`Remove the profile ${profile.name}?`)) return;
+    try {
+      library.removeProfile(profile.id);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The profile could not be removed.');
+    }
+  };
+
+  return (
+    <div className="bg-white border-b border-gray-200 shadow-inner">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-semibold text-gray-800 flex items-center">
+            <span className="material-icons mr-2 text-blue-600">inventory_2</span>
+            Product profiles
+          </h2>
+          <button onClick={onClose} className={secondaryButtonClassName}>Close</button>
+        </div>
+        <ul className="max-h-72 overflow-y-auto divide-y divide-gray-100 text-sm">
+          {profiles.map(profile => (
+            <li key={profile.id} className="py-2 flex items-center justify-between gap-4">
+              <div>
+                <span className="font-semibold text-gray-800">{profile.name}</span>
+                {profile.builtIn && <span className="ml-2 text-xs text-gray-500">built-in</span>}
+                <p className="text-gray-600">
+                  {describeProfileLimit(profile, preferences)}, alarm after {profile.limit.toleranceMinutes} min
+                  {profile.doorOpenMinutes !== null ? `, doors open at most ${profile.doorOpenMinutes} min` : ', door openings unrestricted'}
+                </p>
+              </div>
+              {!profile.builtIn && (
+                <button onClick={() => handleRemove(profile)} className="text-sm text-gray-600 hover:text-red-600 underline">Remove</button>
+              )}
+            </li>
+          ))}
+        </ul>
+        <form onSubmit={handleAdd} className="mt-3 flex items-center gap-3 flex-wrap text-sm text-gray-700">
+          <input value={name} onChange={(e) => setName(e.target.value)} className={inputClassName} placeholder="New profile name" aria-label="Profile name" />
+          <LimitFields draft={limitDraft} unit={temperatureUnitLabel(preferences)} onChange={setLimitDraft} />
+          <span>doors open at most</span>
+          <input
+            type="number"
+            min="0"
+            value={doorOpenMinutes}
+            onChange={(e) => setDoorOpenMinutes(e.target.value)}
+            className={`w-20 ${inputClassName}`}
+            placeholder="-"
+            aria-label="Allowed door-open minutes"
+          />
+          <span>min</span>
+          <button type="submit" className="px-3 py-1 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-md">Add profile</button>
+        </form>
+        {error && <p className="mt-2 text-sm text-red-500">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default ProfileLibraryPanel;
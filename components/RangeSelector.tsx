@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import {
+  InvalidRangeError,
+  RANGE_PATTERN_OPTIONS,
+  RELATIVE_RANGE_HOURS,
+  RangeSelection,
+  customRange,
+  resolveRange,
+} from '../services/reportRange';
+import { parseDateTimeLocalValue, toDateTimeLocalValue } from '../services/timeZones';
+import { Clock, systemClock } from '../services/dataSource';
+
+interface RangeSelectorProps {
+  selection: RangeSelection;
+  // Zone in which the custom range inputs are read and shown.
+  timeZone: string;
+  // The data source's clock, which a replay sets to the recording's time.
+  clock?: Clock;
+  onChange: (selection: RangeSelection) => void;
+}
+
+const CUSTOM = 'custom';
+
+const selectionValue = (selection: RangeSelection): string => {
+  switch (selection.kind) {
+    case 'relative':
+      return `last-${selection.hours}h`;
+    case 'custom':
+      return CUSTOM;
+    default:
+      return selection.rangePattern;
+  }
+};
+
+const inputClassName = "bg-white border border-gray-300 rounded-md py-2 px-3 text-sm text-gray-900 focus:ring-red-500 focus:border-red-500";
+
+const RangeSelector: React.FC<RangeSelectorProps> = ({ selection, timeZone, clock = systemClock, onChange }) => {
+  const [isEditingCustom, setIsEditingCustom] = useState(selection.kind === 'custom');
+  const [draftStart, setDraftStart] = useState('');
+  const [draftEnd, setDraftEnd] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // A custom range starts from whatever is shown right now, so narrowing it down takes a few edits.
+  const openCustomEditor = () => {
+    const now = clock();
+    const current = resolveRange(selection, timeZone, now);
+    setDraftStart(toDateTimeLocalValue(current?.startTime ?? now - 24 * 60 * 60 * 1000, timeZone));
+    setDraftEnd(toDateTimeLocalValue(current?.endTime ?? now, timeZone));
+    setError(null);
+    setIsEditingCustom(true);
+  };
+
+  const handleSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = e.target.value;
+    if (value === CUSTOM) {
+      openCustomEditor();
+      return;
+    }
+    setIsEditingCustom(false);
+    const relative = /^last-(\d+)h$/.exec(value);
+    onChange(relative ? { kind: 'relative', hours: parseInt(relative[1], 10) } : { kind: 'pattern', rangePattern: value });
+  };
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      onChange(customRange(
+        parseDateTimeLocalValue(draftStart, timeZone) ?? NaN,
+        parseDateTimeLocalValue(draftEnd, timeZone) ?? NaN
+      ));
+      setError(null);
+    } catch (err) {
+      if (!(err instanceof InvalidRangeError)) throw err;
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-2">
+        <label htmlFor="range-pattern" className="text-sm font-medium text-gray-600">Date Range:</label>
+        <select
+          id="range-pattern"
+          name="rangePattern"
+          value={isEditingCustom ? CUSTOM : selectionValue(selection)}
+          onChange={handleSelect}
+          className={inputClassName}
+          aria-label="Select Date Range"
+        >
+          {RANGE_PATTERN_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+          <optgroup label="Relative">
+            {RELATIVE_RANGE_HOURS.map(hours => (
+              <option key={hours} value={`last-${hours}h`}>Last {hours} hours</option>
+            ))}
+          </optgroup>
+          <option value={CUSTOM}>Custom range...</option>
+        </select>
+      </div>
+      {isEditingCustom && (
+        <form onSubmit={handleApply} className="flex items-center gap-2 flex-wrap">
+          <input
+            type="datetime-local"
+            value={draftStart}
+            onChange={(e) => setDraftStart(e.target.value)}
+            className={inputClassName}
+            aria-label="Range start"
+          />
+          <span className="text-sm text-gray-600">to</span>
+          <input
+            type="datetime-local"
+            value={draftEnd}
+            onChange={(e) => setDraftEnd(e.target.value)}
+            className={inputClassName}
+            aria-label="Range end"
+          />
+          <button
+            type="submit"
+            className="px-3 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-md"
+          >
+            Apply
+          </button>
+          {error && <p className="w-full text-sm text-red-500">{error}</p>}
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default RangeSelector;
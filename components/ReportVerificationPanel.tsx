@@ -0,0 +1,207 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DisplayPreferences, formatDateTime } from '../services/preferences';
+import { REPORT_KIND_LABELS } from '../services/reports';
+import { CheckStatus, ReportKeyring, ReportVerification, SigningKey, TrustedKey, verifyReport } from '../services/reportSigning';
+import { downloadBlob } from '../services/dataExport';
+
+interface ReportVerificationPanelProps {
+  keyring: ReportKeyring;
+  preferences: DisplayPreferences;
+  onClose: () => void;
+}
+
+const secondaryButtonClassName = "px-3 py-1 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md disabled:opacity-50";
+const inputClassName = "bg-white border border-gray-300 rounded-md py-1 px-2 text-sm text-gray-900 focus:ring-red-500 focus:border-red-500";
+
+const CHECK_STYLES: Record<CheckStatus, { icon: string; className: string }> = {
+  passed: { icon: 'check_circle', className: 'text-green-600' },
+  failed: { icon: 'cancel', className: 'text-red-600' },
+  skipped: { icon: 'remove_circle_outline', className: 'text-gray-400' },
+};
+
+const ReportVerificationPanel: React.FC<ReportVerificationPanelProps> = ({ keyring, preferences, onClose }) => {
+  const [payload, setPayload] = useState('');
+  const [source, setSource] = useState<string | null>(null);
+  const [result, setResult] = useState<ReportVerification | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [signingKey, setSigningKey] = useState<SigningKey | null>(null);
+  const [trustedKeys, setTrustedKeys] = useState<TrustedKey[]>(() => keyring.listTrustedKeys());
+  const [keyLabel, setKeyLabel] = useState('');
+  const [keyError, setKeyError] = useState<string | null>(null);
+  const reportInputRef = useRef<HTMLInputElement>(null);
+  const keyInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    keyring.signingKey()
+      .then(setSigningKey)
+      .catch(err => setKeyError(err instanceof Error ? err.message : 'The signing key could not be loaded.'));
+  }, [keyring]);
+
+  const verify = async (input: Uint8Array | string, name: string) => {
+    setIsVerifying(true);
+    setError(null);
+    setResult(null);
+    setSource(name);
+    try {
+      setResult(await verifyReport(input, keyring));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The report could not be checked.');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleReportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    await verify(new Uint8Array(await file.arrayBuffer()), file.name);
+  };
+
+  const handleKeyFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      await keyring.trustKey(await file.text());
+      setTrustedKeys(keyring.listTrustedKeys());
+      setKeyError(null);
+    } catch (err) {
+      setKeyError(err instanceof Error ? err.message : 'The key could not be imported.');
+    }
+  };
+
+  const handleExportKey = async () => {
+    if (!signingKey) return;
+    const contents = await keyring.exportPublicKey(keyLabel.trim() || signingKey.keyId);
+    downloadBlob(new Blob([contents], { type: 'application/json' }), `report-key-${signingKey.keyId}.json`);
+  };
+
+  const handleRegenerate = async () => {
+    if (!window.confirm('Create a new signing key? Reports signed with the current key will only verify where its public key was imported.')) return;
+    try {
+      setSigningKey(await keyring.regenerate());
+      setKeyError(null);
+    } catch (err) {
+      setKeyError(err instanceof Error ? err.message : 'The signing key could not be created.');
+    }
+  };
+
+  const handleRemoveKey = (key: TrustedKey) => {
+    if (!window.confirm(`Stop trusting reports signed by ${key.label}?`)) return;
+    keyring.removeTrustedKey(key.keyId);
+    setTrustedKeys(keyring.listTrustedKeys());
+  };
+
+  const statement = result?.statement;
+
+  return (
+    <div className="bg-white border-b border-gray-200 shadow-inner">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-semibold text-gray-800 flex items-center">
+            <span className="material-icons mr-2 text-green-600">verified</span>
+            Verify report
+          </h2>
+          <button onClick={onClose} className={secondaryButtonClassName}>Close</button>
+        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 text-sm text-gray-700">
+          <div className="space-y-3">
+            <p className="text-gray-500">
+              Choose a report PDF to check its signature and that the file was not edited, or paste the payload read from its QR code to check what it claims to cover.
+            </p>
+            <div className="flex items-center gap-2">
+              <input ref={reportInputRef} type="file" accept="application/pdf,.pdf" onChange={handleReportFile} className="hidden" />
+              <button onClick={() => reportInputRef.current?.click()} disabled={isVerifying} className={secondaryButtonClassName}>Choose PDF...</button>
+            </div>
+            <div className="flex items-start gap-2">
+              <textarea
+                value={payload}
+                onChange={(e) => setPayload(e.target.value)}
+                rows={3}
+                placeholder="CCR1...."
+                className={`${inputClassName} flex-1 font-mono text-xs`}
+                aria-label="Signed report payload"
+              />
+              <button
+                onClick={() => verify(payload, 'Pasted payload')}
+                disabled={isVerifying || payload.trim() === ''}
+                className="px-3 py-1 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-md disabled:opacity-50"
+              >
+                Verify
+              </button>
+            </div>
+            {isVerifying && <p className="text-gray-500">Checking {source}...</p>}
+            {error && <p className="text-red-500">{source}: {error}</p>}
+            {result && statement && (
+              <div className={`p-3 rounded-md border ${result.valid ? 'border-green-300 bg-green-50' : 'border-red-300 bg-red-50'}`}>
+                <p className={`font-semibold ${result.valid ? 'text-green-800' : 'text-red-800'}`}>
+                  {result.valid ? `${source}: authentic` : `${source}: not verified`}
+                </p>
+                <ul className="mt-2 space-y-1">
+                  {result.checks.map(check => (
+                    <li key={check.label} className="flex items-start gap-2">
+                      <span className={`material-icons text-base ${CHECK_STYLES[check.status].className}`}>{CHECK_STYLES[check.status].icon}</span>
+                      <span><span className="font-medium">{check.label}:</span> {check.detail}</span>
+                    </li>
+                  ))}
+                </ul>
+                <dl className="mt-3 grid grid-cols-[max-content_1fr] gap-x-3 gap-y-1">
+                  <dt className="text-gray-500">Report</dt>
+                  <dd>{REPORT_KIND_LABELS[statement.kind] ?? statement.kind}</dd>
+                  <dt className="text-gray-500">Vehicle</dt>
+                  <dd>{statement.vehicle} ({statement.account}), object UID {statement.objectuid}</dd>
+                  <dt className="text-gray-500">Range</dt>
+                  <dd>
+                    {statement.range
+                      ? `${formatDateTime(statement.range.startTime, preferences)} to ${formatDateTime(statement.range.endTime, preferences)}`
+                      : 'Range pattern resolved by Webfleet'}
+                  </dd>
+                  <dt className="text-gray-500">Generated</dt>
+                  <dd>{formatDateTime(statement.generatedAt, preferences, true)}</dd>
+                  <dt className="text-gray-500">Readings</dt>
+                  <dd>{statement.points}</dd>
+                  <dt className="text-gray-500">Data SHA-256</dt>
+                  <dd className="font-mono text-xs break-all">{statement.dataHash}</dd>
+                  <dt className="text-gray-500">Signed by</dt>
+                  <dd>{result.signer ?? 'Unknown key'} ({statement.keyId})</dd>
+                </dl>
+              </div>
+            )}
+          </div>
+          <div className="space-y-3">
+            <h3 className="font-semibold text-gray-800">Signing keys</h3>
+            <p className="text-gray-500">
+              Reports downloaded here are signed with this browser's key. Give its public key to whoever checks your reports, and import theirs to check reports from other installations.
+            </p>
+            <div className="flex items-center gap-2 flex-wrap">
+              <span>This browser:</span>
+              <span className="font-mono text-xs">{signingKey?.keyId ?? '...'}</span>
+              <input value={keyLabel} onChange={(e) => setKeyLabel(e.target.value)} placeholder="Name, e.g. Depot Madrid" className={inputClassName} aria-label="Name on the exported key" />
+              <button onClick={handleExportKey} disabled={!signingKey} className={secondaryButtonClassName}>Download public key</button>
+              <button onClick={handleRegenerate} className={secondaryButtonClassName}>New key</button>
+            </div>
+            <ul className="divide-y divide-gray-100">
+              {trustedKeys.map(key => (
+                <li key={key.keyId} className="py-2 flex items-center justify-between gap-4">
+                  <div>
+                    <span className="font-semibold text-gray-800">{key.label}</span>
+                    <span className="ml-2 font-mono text-xs text-gray-500">{key.keyId}</span>
+                  </div>
+                  <button onClick={() => handleRemoveKey(key)} className="text-sm text-gray-600 hover:text-red-600 underline">Remove</button>
+                </li>
+              ))}
+              {trustedKeys.length === 0 && <li className="py-2 text-gray-500">No keys from other installations.</li>}
+            </ul>
+            <input ref={keyInputRef} type="file" accept="application/json,.json" onChange={handleKeyFile} className="hidden" />
+            <button onClick={() => keyInputRef.current?.click()} className={secondaryButtonClassName}>Import public key...</button>
+            {keyError && <p className="text-red-500">{keyError}</p>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReportVerificationPanel;
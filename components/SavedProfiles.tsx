@@ -0,0 +1,129 @@
+import React, { useState, useCallback } from 'react';
+import { CredentialVault, RememberedCredentials, VaultProfileSummary } from '../services/credentialVault';
+
+interface SavedProfilesProps {
+  vault: CredentialVault;
+  profiles: VaultProfileSummary[];
+  onProfilesChange: () => void;
+  onUse: (credentials: RememberedCredentials) => void;
+}
+
+const inputClassName = "appearance-none rounded-md relative block w-full px-3 py-2 border border-login-input bg-login-input text-black placeholder-gray-800 focus:outline-none focus:ring-red-500 focus:border-red-500 sm:text-sm";
+const secondaryButtonClassName = "px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md disabled:opacity-50 disabled:cursor-not-allowed";
+
+const SavedProfiles: React.FC<SavedProfilesProps> = ({ vault, profiles, onProfilesChange, onUse }) => {
+  const [selectedId, setSelectedId] = useState(profiles[0]?.id ?? '');
+  const [pin, setPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [isRotating, setIsRotating] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const selectedProfile = profiles.find(profile => profile.id === selectedId) ?? profiles[0];
+
+  const handleUse = useCallback(async () => {
+    if (!selectedProfile) return;
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const credentials = await vault.unlockProfile(selectedProfile.id, pin);
+      setPin('');
+      onUse(credentials);
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Could not unlock the profile.', isError: true });
+    } finally {
+      setIsBusy(false);
+    }
+  }, [vault, selectedProfile, pin, onUse]);
+
+  const handleRotate = useCallback(async () => {
+    if (!selectedProfile) return;
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      await vault.rotateProfile(selectedProfile.id, pin, newPin);
+      setPin('');
+      setNewPin('');
+      setIsRotating(false);
+      setMessage({ text: `${selectedProfile.label} is now protected by the new PIN.`, isError: false });
+      onProfilesChange();
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Could not change the PIN.', isError: true });
+    } finally {
+      setIsBusy(false);
+    }
+  }, [vault, selectedProfile, pin, newPin, onProfilesChange]);
+
+  const handleForget = useCallback(() => {
+    if (!selectedProfile) return;
+    if (!window.confirm(`Forget the saved profile ${selectedProfile.label} on this computer?`)) return;
+    vault.forgetProfile(selectedProfile.id);
+    setSelectedId('');
+    setMessage(null);
+    onProfilesChange();
+  }, [vault, selectedProfile, onProfilesChange]);
+
+  if (!selectedProfile) return null;
+
+  return (
+    <div className="p-4 space-y-3 rounded-md border border-gray-200 bg-gray-50">
+      <div className="flex items-center justify-between gap-2">
+        <label htmlFor="saved-profile" className="text-sm font-medium text-gray-700">Saved profile</label>
+        <select
+          id="saved-profile"
+          value={selectedProfile.id}
+          onChange={(e) => setSelectedId(e.target.value)}
+          className="flex-grow bg-white border border-gray-300 rounded-md py-2 px-3 text-sm text-gray-900 focus:ring-red-500 focus:border-red-500"
+        >
+          {profiles.map(profile => (
+            <option key={profile.id} value={profile.id}>
+              {profile.label}{profile.hasPassword ? ' (with password)' : ''}
+            </option>
+          ))}
+        </select>
+      </div>
+      <input
+        type="password"
+        value={pin}
+        onChange={(e) => setPin(e.target.value)}
+        autoComplete="off"
+        className={inputClassName}
+        placeholder={isRotating ? 'Current PIN or passphrase' : 'PIN or passphrase'}
+      />
+      {isRotating && (
+        <input
+          type="password"
+          value={newPin}
+          onChange={(e) => setNewPin(e.target.value)}
+          autoComplete="new-password"
+          className={inputClassName}
+          placeholder="New PIN or passphrase"
+        />
+      )}
+      {message && <p className={`text-sm text-center ${message.isError ? 'text-red-500' : 'text-green-700'}`}>{message.text}</p>}
+      <div className="flex gap-2 justify-end">
+        {isRotating ? (
+          <>
+            <button type="button" onClick={() => setIsRotating(false)} disabled={isBusy} className={secondaryButtonClassName}>Cancel</button>
+            <button type="button" onClick={handleRotate} disabled={isBusy || !pin || !newPin} className={secondaryButtonClassName}>Save new PIN</button>
+          </>
+        ) : (
+          <>
+            <button type="button" onClick={handleForget} disabled={isBusy} className={secondaryButtonClassName}>Forget</button>
+            <button type="button" onClick={() => setIsRotating(true)} disabled={isBusy} className={secondaryButtonClassName}>Rotate PIN</button>
+            <button
+              type="button"
+              onClick={handleUse}
+              disabled={isBusy || !pin}
+              className="px-3 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-md disabled:bg-red-400 disabled:cursor-not-allowed"
+            >
+              {isBusy ? 'Unlocking...' : 'Use profile'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SavedProfiles;
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { RESAMPLE_INTERVAL_MINUTES } from '../services/resampling';
+import { EMPTY_CALIBRATION, SensorCalibration, TICKET_SECTION_LABELS, ThermographTemplate, TicketSection, VehicleCalibrations } from '../services/thermographTemplate';
+
+interface TicketTemplateEditorProps {
+  template: ThermographTemplate;
+  calibrations: VehicleCalibrations;
+  sensorIds: string[];
+  sensorInfo: Map<string, string>;
+  accountName: string;
+  onSave: (template: ThermographTemplate, calibrations: VehicleCalibrations) => void;
+  onClose: () => void;
+}
+
+const inputClassName = "bg-white border border-gray-300 rounded-md py-1 px-2 text-sm text-gray-900 focus:ring-red-500 focus:border-red-500";
+const secondaryButtonClassName = "px-3 py-1 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md";
+
+const CALIBRATION_FIELDS: { key: keyof SensorCalibration; label: string; placeholder: string }[] = [
+  { key: 'serialNumber', label: 'Serial no.', placeholder: 'SN 123456' },
+  { key: 'calibratedOn', label: 'Calibrated', placeholder: 'YYYY-MM-DD' },
+  { key: 'calibrationDue', label: 'Due', placeholder: 'YYYY-MM-DD' },
+  { key: 'certificate', label: 'Certificate', placeholder: 'Certificate no.' },
+  { key: 'accuracy', label: 'Accuracy', placeholder: '±0.5 °C' },
+];
+
+const TicketTemplateEditor: React.FC<TicketTemplateEditorProps> = ({ template, calibrations, sensorIds, sensorInfo, accountName, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ThermographTemplate>(template);
+  const [signatures, setSignatures] = useState(template.signatures.join(', '));
+  const [calibrationDrafts, setCalibrationDrafts] = useState<VehicleCalibrations>(calibrations);
+
+  const setCalibration = (sensorId: number, key: keyof SensorCalibration, value: string) => {
+    setCalibrationDrafts(prev => ({ ...prev, [sensorId]: { ...EMPTY_CALIBRATION, ...prev[sensorId], [key]: value } }));
+  };
+
+  const handleSave = () => {
+    onSave(
+      { ...draft, signatures: signatures.split(',').map(label => label.trim()).filter(Boolean) },
+      calibrationDrafts
+    );
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-white rounded-lg shadow space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-800 flex items-center">
+          <span className="material-icons mr-2 text-gray-600">receipt_long</span>
+          Thermograph ticket
+        </h3>
+        <div className="flex gap-2">
+          <button onClick={onClose} className={secondaryButtonClassName}>Cancel</button>
+          <button onClick={handleSave} className="px-3 py-1 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-md">Save ticket</button>
+        </div>
+      </div>
+      <p className="text-sm text-gray-500">
+        The layout applies to every vehicle of {accountName}; the calibration records belong to this vehicle. Readings are printed at the recording interval, with the state at each mark; minimum and maximum cover every reading.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          <span className="w-32">Interval</span>
+          <select
+            value={draft.intervalMinutes}
+            onChange={(e) => setDraft({ ...draft, intervalMinutes: parseInt(e.target.value, 10) })}
+            className={inputClassName}
+          >
+            {RESAMPLE_INTERVAL_MINUTES.map(minutes => (
+              <option key={minutes} value={minutes}>Every {minutes < 60 ? `${minutes} min` : `${minutes / 60} h`}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="w-32">Company</span>
+          <input value={draft.company} onChange={(e) => setDraft({ ...draft, company: e.target.value })} className={`${inputClassName} flex-1`} />
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="w-32">Recorder</span>
+          <input
+            value={draft.recorder}
+            onChange={(e) => setDraft({ ...draft, recorder: e.target.value })}
+            placeholder="EN 12830, class 1, -30 to +30 °C"
+            className={`${inputClassName} flex-1`}
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="w-32">Signatures</span>
+          <input
+            value={signatures}
+            onChange={(e) => setSignatures(e.target.value)}
+            placeholder="Driver, Receiver"
+            className={`${inputClassName} flex-1`}
+          />
+        </label>
+        <label className="flex items-center gap-2 md:col-span-2">
+          <span className="w-32">Footer</span>
+          <input value={draft.footer} onChange={(e) => setDraft({ ...draft, footer: e.target.value })} className={`${inputClassName} flex-1`} />
+        </label>
+      </div>
+      <div className="flex items-center gap-4 flex-wrap text-sm text-gray-700">
+        {(Object.keys(TICKET_SECTION_LABELS) as TicketSection[]).map(section => (
+          <label key={section} className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={draft.sections[section]}
+              onChange={(e) => setDraft({ ...draft, sections: { ...draft.sections, [section]: e.target.checked } })}
+              className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded"
+            />
+            {TICKET_SECTION_LABELS[section]}
+          </label>
+        ))}
+      </div>
+      {sensorIds.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600">
+                <th className="py-1 pr-3 font-medium">Sensor</th>
+                {CALIBRATION_FIELDS.map(field => <th key={field.key} className="py-1 pr-3 font-medium">{field.label}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {sensorIds.map(id => {
+                const sensorId = parseInt(id, 10);
+                return (
+                  <tr key={id}>
+                    <td className="py-1 pr-3 text-gray-800 whitespace-nowrap">{sensorInfo.get(id)}</td>
+                    {CALIBRATION_FIELDS.map(field => (
+                      <td key={field.key} className="py-1 pr-3">
+                        <input
+                          value={calibrationDrafts[sensorId]?.[field.key] ?? ''}
+                          onChange={(e) => setCalibration(sensorId, field.key, e.target.value)}
+                          placeholder={field.placeholder}
+                          className={`${inputClassName} w-32`}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TicketTemplateEditor;
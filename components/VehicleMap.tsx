@@ -3,12 +3,17 @@ import React, { useEffect } from 'react';
 import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
 import { Vehicle, DoorStatus, TemperatureReading } from '../types';
 import L from 'leaflet';
+import { DisplayPreferences, formatTemperature } from '../services/preferences';
+import { vehicleKey } from '../services/liveUpdates';
 
 interface VehicleMapProps {
   vehicles: Vehicle[];
-  onMarkerClick: (vehicleId: string) => void;
-  selectedVehicleId: string | null;
+  // Vehicles are identified by vehicleKey, as uids repeat across accounts.
+  onMarkerClick: (key: string) => void;
+  selectedVehicleKey: string | null;
   center: [number, number] | null;
+  showAccount?: boolean;
+  preferences: DisplayPreferences;
 }
 
 const MapUpdater: React.FC<{ center: [number, number] | null }> = ({ center }) => {
@@ -21,10 +26,10 @@ const MapUpdater: React.FC<{ center: [number, number] | null }> = ({ center }) =
     return null;
 }
 
-const formatTemperaturesForPopup = (temps: { [id: number]: TemperatureReading } | null): string => {
+const formatTemperaturesForPopup = (temps: { [id: number]: TemperatureReading } | null, preferences: DisplayPreferences): string => {
     if (!temps || Object.keys(temps).length === 0) return 'N/A';
     const sortedSensorIds = Object.keys(temps).map(Number).sort((a, b) => a - b);
-    return sortedSensorIds.map(id => `${temps[id].name}: ${temps[id].value.toFixed(1)}°C`).join('<br />');
+    return sortedSensorIds.map(id => `${temps[id].name}: ${formatTemperature(temps[id].value, preferences)}`).join('<br />');
 };
 
 const formatDoorStatusesForPopup = (statuses: { [id: number]: DoorStatus } | null): string => {
@@ -33,7 +38,7 @@ const formatDoorStatusesForPopup = (statuses: { [id: number]: DoorStatus } | nul
     return sortedSensorIds.map(id => `Door ${id}: ${statuses[id]}`).join('<br />');
 };
 
-const VehicleMap: React.FC<VehicleMapProps> = ({ vehicles, onMarkerClick, selectedVehicleId, center }) => {
+const VehicleMap: React.FC<VehicleMapProps> = ({ vehicles, onMarkerClick, selectedVehicleKey, center, showAccount = false, preferences }) => {
     const defaultPosition: [number, number] = center || [52.3676, 4.9041]; // Amsterdam Centraal
 
     const createIcon = (color: string) => {
@@ -58,20 +63,22 @@ const VehicleMap: React.FC<VehicleMapProps> = ({ vehicles, onMarkerClick, select
         url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
       />
       {vehicles.filter(v => v.location).map((vehicle) => {
-        const tempString = formatTemperaturesForPopup(vehicle.temperatures);
+        const tempString = formatTemperaturesForPopup(vehicle.temperatures, preferences);
         const doorString = formatDoorStatusesForPopup(vehicle.doorStatus);
+        const key = vehicleKey(vehicle);
         return (
             <Marker 
-                key={vehicle.uid} 
+                key={key} 
                 position={[vehicle.location!.lat, vehicle.location!.lng]}
-                icon={selectedVehicleId === vehicle.uid ? selectedIcon : defaultIcon}
+                icon={selectedVehicleKey === key ? selectedIcon : defaultIcon}
                 eventHandlers={{
-                    click: () => onMarkerClick(vehicle.uid),
+                    click: () => onMarkerClick(key),
                 }}
             >
               <Popup>
                 <div className="text-sm">
                   <p className="font-bold text-base">{vehicle.name}</p>
+                  {showAccount && <p className="text-xs text-blue-800">{vehicle.account}</p>}
                   <p className="text-gray-600">{vehicle.location!.address}</p>
                   <hr className="my-2"/>
                   <p><b>Temperatures:</b><br />{tempString}</p>
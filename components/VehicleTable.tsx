@@ -1,14 +1,25 @@
 import React from 'react';
 import { Vehicle, DoorStatus, TemperatureReading } from '../types';
+import { doorColor, doorShortLabel, sensorColor } from '../services/sensorRegistry';
+import { DisplayPreferences, formatTemperature } from '../services/preferences';
+import { vehicleKey } from '../services/liveUpdates';
 
 interface VehicleTableProps {
   vehicles: Vehicle[];
   onRowClick: (vehicle: Vehicle) => void;
-  selectedVehicleId: string | null;
-  onVehicleHover: (vehicleId: string | null) => void;
+  // Vehicles are identified by vehicleKey, as uids repeat across accounts.
+  selectedVehicleKey: string | null;
+  onVehicleHover: (key: string | null) => void;
+  showAccount?: boolean;
+  // Vehicles with alerts nobody has acknowledged yet.
+  alertedVehicleKeys?: Set<string>;
+  // Shows a checkbox per row when given, for picking vehicles for batch reports.
+  checkedVehicleKeys?: Set<string>;
+  onToggleChecked?: (key: string) => void;
+  preferences: DisplayPreferences;
 }
 
-const TempDisplay: React.FC<{ temps: { [id: number]: TemperatureReading } | null }> = ({ temps }) => {
+const TempDisplay: React.FC<{ temps: { [id: number]: TemperatureReading } | null; preferences: DisplayPreferences }> = ({ temps, preferences }) => {
     if (!temps || Object.keys(temps).length === 0) return <div className="text-gray-500">N/A</div>;
     const sortedSensorIds = Object.keys(temps).map(Number).sort((a, b) => a - b);
     
@@ -17,8 +28,9 @@ const TempDisplay: React.FC<{ temps: { [id: number]: TemperatureReading } | null
             {sortedSensorIds.map(id => {
                 const reading = temps[id];
                 return (
-                    <span key={id} className="text-xs font-medium bg-gray-200 text-gray-800 px-2 py-1 rounded-full whitespace-nowrap">
-                        {reading.name}: {reading.value.toFixed(1)}°C
+                    <span key={id} className="inline-flex items-center text-xs font-medium bg-gray-200 text-gray-800 px-2 py-1 rounded-full whitespace-nowrap">
+                        <span className="h-2 w-2 rounded-full mr-1" style={{ backgroundColor: sensorColor(id) }}></span>
+                        {reading.name}: {formatTemperature(reading.value, preferences)}
                     </span>
                 );
             })}
@@ -34,10 +46,11 @@ const DoorDisplay: React.FC<{ statuses: { [id: number]: DoorStatus } | null }> =
     return (
         <div className="flex items-center gap-2 flex-wrap justify-start">
             {sortedSensorIds.map(id => (
-                <span key={id} className={`text-xs font-semibold px-2 py-1 rounded-full whitespace-nowrap ${
+                <span key={id} className={`inline-flex items-center text-xs font-semibold px-2 py-1 rounded-full whitespace-nowrap ${
                     statuses[id] === DoorStatus.OPEN ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
                 }`}>
-                    D{id}: {statuses[id] === DoorStatus.OPEN ? 'Open' : 'Closed'}
+                    <span className="h-2 w-2 rounded-full mr-1" style={{ backgroundColor: doorColor(id) }}></span>
+                    {doorShortLabel(id)}: {statuses[id] === DoorStatus.OPEN ? 'Open' : 'Closed'}
                 </span>
             ))}
         </div>
@@ -57,30 +70,51 @@ const VehicleTableHeader: React.FC = () => (
 );
 
 
-const VehicleTable: React.FC<VehicleTableProps> = ({ vehicles, onRowClick, selectedVehicleId, onVehicleHover }) => {
+const VehicleTable: React.FC<VehicleTableProps> = ({ vehicles, onRowClick, selectedVehicleKey, onVehicleHover, showAccount = false, alertedVehicleKeys, checkedVehicleKeys, onToggleChecked, preferences }) => {
   return (
     <>
       <VehicleTableHeader />
       <ul className="divide-y divide-gray-200">
         {vehicles.map((vehicle) => {
+          const key = vehicleKey(vehicle);
           return (
             <li
-              id={`vehicle-row-${vehicle.uid}`}
-              key={vehicle.uid}
+              id={`vehicle-row-${key}`}
+              key={key}
               onClick={() => onRowClick(vehicle)}
-              onMouseEnter={() => onVehicleHover(vehicle.uid)}
+              onMouseEnter={() => onVehicleHover(key)}
               onMouseLeave={() => onVehicleHover(null)}
               className="p-4 flex items-center justify-between cursor-pointer transition-colors duration-300 row-hover"
-              style={selectedVehicleId === vehicle.uid ? { backgroundColor: '#e9f4c1' } : undefined}
+              style={selectedVehicleKey === key ? { backgroundColor: '#e9f4c1' } : undefined}
             >
+              {onToggleChecked && (
+                <input
+                  type="checkbox"
+                  checked={checkedVehicleKeys?.has(key) ?? false}
+                  onChange={() => onToggleChecked(key)}
+                  onClick={(e) => e.stopPropagation()}
+                  className="h-4 w-4 mr-4 text-red-600 focus:ring-red-500 border-gray-300 rounded"
+                  aria-label={`Include ${vehicle.name} in the batch`}
+                />
+              )}
               <div className="flex-1">
-                <p className="font-semibold text-lg text-gray-800">{vehicle.name}</p>
-                <p className="text-sm text-gray-500">{vehicle.type}</p>
+                <p className="font-semibold text-lg text-gray-800 flex items-center">
+                  {vehicle.name}
+                  {alertedVehicleKeys?.has(key) && (
+                    <span className="material-icons text-red-500 ml-2" style={{ fontSize: '20px' }} title="This vehicle has open alerts">notification_important</span>
+                  )}
+                </p>
+                <p className="text-sm text-gray-500">
+                  {vehicle.type}
+                  {showAccount && (
+                    <span className="ml-2 text-xs font-semibold px-2 py-0.5 rounded-full bg-blue-100 text-blue-800">{vehicle.account}</span>
+                  )}
+                </p>
               </div>
               <div className="flex items-center space-x-6 text-right">
                 <div className="w-48 flex items-center justify-end">
                    <span className="material-icons text-gray-400 mr-2">thermostat</span>
-                   <TempDisplay temps={vehicle.temperatures} />
+                   <TempDisplay temps={vehicle.temperatures} preferences={preferences} />
                 </div>
                 <div className="w-48 text-left">
                   <DoorDisplay statuses={vehicle.doorStatus} />
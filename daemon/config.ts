@@ -0,0 +1,71 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { AuthCredentials } from '../types';
+import { AlertSettings } from '../services/alertRules';
+import { AlertChannel } from '../services/alertChannels';
+import { isValidTimeZone } from '../services/timeZones';
+
+export interface DaemonConfig {
+    // JSON file holding everything the web app keeps in localStorage: limits, product profiles,
+    // alert rules, channels, raised alerts and the delivery log. Relative to the config file.
+    stateFile: string;
+    accounts: AuthCredentials[];
+    queueIntervalSeconds: number;
+    pollIntervalSeconds: number;
+    evaluationIntervalSeconds: number;
+    // Zone used in notification texts; defaults to the first account's zone from the saved preferences.
+    timeZone?: string;
+    // When given, these replace the rules and channels found in the state file. Channels that need a
+    // signing secret or an SMTP password must be given here, since neither is saved in the state file.
+    alertSettings?: AlertSettings;
+    channels?: AlertChannel[];
+}
+
+export const DEFAULT_CONFIG_PATH = 'coldchain-daemon.json';
+
+const DEFAULTS = {
+    stateFile: 'coldchain-state.json',
+    queueIntervalSeconds: 15,
+    pollIntervalSeconds: 60,
+    evaluationIntervalSeconds: 30,
+};
+
+export class DaemonConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DaemonConfigError';
+    }
+}
+
+const isPositiveNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+export const loadDaemonConfig = (configPath: string): DaemonConfig => {
+    if (!fs.existsSync(configPath)) {
+        throw new DaemonConfigError(`No configuration found at ${configPath}. Pass another file with --config.`);
+    }
+    let raw: any;
+    try {
+        raw = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    } catch (e) {
+        throw new DaemonConfigError(`${configPath} is not valid JSON: ${e instanceof Error ? e.message : e}`);
+    }
+
+    const config: DaemonConfig = { ...DEFAULTS, ...raw };
+    if (!Array.isArray(config.accounts) || config.accounts.length === 0) {
+        throw new DaemonConfigError('The configuration lists no accounts.');
+    }
+    config.accounts.forEach((account, index) => {
+        const missing = (['accountName', 'username', 'password', 'apiKey'] as const).filter(field => !account?.[field]);
+        if (missing.length > 0) {
+            throw new DaemonConfigError(`Account ${index + 1} is missing ${missing.join(', ')}.`);
+        }
+    });
+    (['queueIntervalSeconds', 'pollIntervalSeconds', 'evaluationIntervalSeconds'] as const).forEach(field => {
+        if (!isPositiveNumber(config[field])) throw new DaemonConfigError(`${field} must be a positive number.`);
+    });
+    if (config.timeZone && !isValidTimeZone(config.timeZone)) {
+        throw new DaemonConfigError(`Unknown time zone "${config.timeZone}".`);
+    }
+
+    return { ...config, stateFile: path.resolve(path.dirname(configPath), config.stateFile) };
+};
@@ -0,0 +1,67 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+// A Storage backed by one JSON file, so the services that persist through localStorage in the browser
+// (limits, product profiles, alert rules, channels, alerts, the delivery log) work unchanged under Node.
+// The file uses the same keys as the browser, so entries can be copied across.
+export class FileStorage implements Storage {
+    [name: string]: any;
+
+    private readonly entries: Map<string, string>;
+
+    constructor(private readonly filePath: string) {
+        this.entries = new Map(Object.entries(FileStorage.read(filePath)));
+    }
+
+    public get length(): number {
+        return this.entries.size;
+    }
+
+    public key(index: number): string | null {
+        let found: string | null = null;
+        let position = 0;
+        this.entries.forEach((_, key) => {
+            if (position++ === index) found = key;
+        });
+        return found;
+    }
+
+    public getItem(key: string): string | null {
+        return this.entries.get(key) ?? null;
+    }
+
+    public setItem(key: string, value: string): void {
+        this.entries.set(key, String(value));
+        this.flush();
+    }
+
+    public removeItem(key: string): void {
+        if (this.entries.delete(key)) this.flush();
+    }
+
+    public clear(): void {
+        this.entries.clear();
+        this.flush();
+    }
+
+    private static read(filePath: string): Record<string, string> {
+        if (!fs.existsSync(filePath)) return {};
+        try {
+            return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        } catch (e) {
+            throw new Error(`The state file ${filePath} is not valid JSON: ${e instanceof Error ? e.message : e}`);
+        }
+    }
+
+    // Written to a temporary file first, so a crash mid-write never leaves a truncated state file behind.
+    private flush(): void {
+        const data: Record<string, string> = {};
+        this.entries.forEach((value, key) => {
+            data[key] = value;
+        });
+        fs.mkdirSync(path.dirname(path.resolve(this.filePath)), { recursive: true });
+        const temporary = `${this.filePath}.tmp`;
+        fs.writeFileSync(temporary, JSON.stringify(data, null, 2));
+        fs.renameSync(temporary, this.filePath);
+    }
+}
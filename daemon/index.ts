@@ -0,0 +1,113 @@
+// Headless monitor: follows every configured account, evaluates the alert rules the web app uses and
+// sends raised alerts to the configured channels, including email. Run with `npm run daemon`.
+import { Vehicle } from '../types';
+import WebfleetService from '../services/webfleetService';
+import { createFetchTransport } from '../services/apiTransport';
+import { LiveFleetUpdater } from '../services/liveUpdates';
+import { AlertEngine, loadAlertSettings, restoreAlertEngine, saveAlertEngine, storedLimitLookup } from '../services/alertRules';
+import { NotificationCenter, describeAlert } from '../services/notificationCenter';
+import { AlertDispatcher, DeliveryLog, loadChannels } from '../services/alertChannels';
+import { ProfileLibrary } from '../services/productProfiles';
+import { DisplayPreferences, loadPreferences, resolveTimeZone, withTimeZone } from '../services/preferences';
+import { WebfleetAuthError, describeError } from '../services/webfleetErrors';
+import { sendSmtpMail } from '../services/smtpClient';
+import { DEFAULT_CONFIG_PATH, DaemonConfig, DaemonConfigError, loadDaemonConfig } from './config';
+import { FileStorage } from './fileStorage';
+
+const log = (message: string) => console.log(`${new Date().toISOString()} ${message}`);
+
+const configPathFromArgs = (args: string[]): string => {
+    const index = args.indexOf('--config');
+    return index !== -1 && args[index + 1] ? args[index + 1] : DEFAULT_CONFIG_PATH;
+};
+
+const hasSensors = (vehicle: Vehicle): boolean =>
+    (vehicle.temperatures !== null && Object.keys(vehicle.temperatures).length > 0) || vehicle.doorStatus !== null;
+
+const run = async (config: DaemonConfig): Promise<void> => {
+    const storage = new FileStorage(config.stateFile);
+    const engine = new AlertEngine(storedLimitLookup(new ProfileLibrary(storage), storage));
+    restoreAlertEngine(engine, storage);
+    const center = new NotificationCenter(storage);
+    const dispatcher = new AlertDispatcher(() => config.channels ?? loadChannels(storage), new DeliveryLog(storage), { email: sendSmtpMail });
+
+    const firstAccount = config.accounts[0];
+    const savedPreferences = loadPreferences(firstAccount, storage);
+    const preferences: DisplayPreferences = withTimeZone(
+        savedPreferences,
+        config.timeZone ?? resolveTimeZone(savedPreferences, firstAccount.accountName)
+    );
+
+    const updaters: LiveFleetUpdater[] = [];
+    for (const auth of config.accounts) {
+        const service = new WebfleetService(createFetchTransport());
+        try {
+            await service.login(auth);
+            const vehicles = (await service.getVehiclesAndAssets(auth)).filter(hasSensors);
+            engine.observeSnapshot(vehicles);
+            log(`${auth.accountName}: following ${vehicles.length} vehicles with sensors`);
+        } catch (error) {
+            log(`${auth.accountName}: ${describeError(error, 'Could not sign in.').message} Skipping this account.`);
+            continue;
+        }
+        updaters.push(new LiveFleetUpdater(service, auth, {
+            onUpdates: updates => engine.observeUpdates(updates),
+            onSnapshot: vehicles => engine.observeSnapshot(vehicles.filter(hasSensors)),
+            onStatus: status => log(`${auth.accountName}: ${status}`),
+            onError: error => {
+                log(`${auth.accountName}: ${describeError(error, 'Live update failed.').message}`);
+                // The updater stops for good once Webfleet rejects the login; exit so the service manager
+                // restarts the daemon and signs in again instead of leaving this account unwatched.
+                if (error instanceof WebfleetAuthError) {
+                    log(`${auth.accountName}: login rejected, restarting`);
+                    shutdown(1);
+                }
+            },
+        }, {
+            queueIntervalMs: config.queueIntervalSeconds * 1000,
+            pollIntervalMs: config.pollIntervalSeconds * 1000,
+            errorBackoffMs: 30 * 1000,
+        }));
+    }
+    if (updaters.length === 0) {
+        throw new Error('None of the configured accounts could be reached.');
+    }
+
+    const controller = new AbortController();
+    const evaluate = () => {
+        const now = Date.now();
+        const rules = (config.alertSettings ?? loadAlertSettings(storage)).rules;
+        const raised = center.update(engine.evaluate(rules, now), now);
+        saveAlertEngine(engine, storage);
+        if (raised.length === 0) return;
+        raised.forEach(alert => log(`Alert: ${describeAlert(alert, preferences, now)}`));
+        dispatcher.dispatch(raised, preferences, controller.signal).catch(error => {
+            if (!controller.signal.aborted) console.error('Failed to dispatch alerts', error);
+        });
+    };
+
+    const unsubscribe = engine.subscribe(evaluate);
+    const timer = setInterval(evaluate, config.evaluationIntervalSeconds * 1000);
+
+    const shutdown = (exitCode: number) => {
+        log('Stopping');
+        unsubscribe();
+        clearInterval(timer);
+        controller.abort();
+        updaters.forEach(updater => updater.stop());
+        saveAlertEngine(engine, storage);
+        process.exit(exitCode);
+    };
+    process.once('SIGINT', () => shutdown(0));
+    process.once('SIGTERM', () => shutdown(0));
+
+    updaters.forEach(updater => updater.start());
+    evaluate();
+};
+
+const main = async () => run(loadDaemonConfig(configPathFromArgs(process.argv.slice(2))));
+
+main().catch(error => {
+    console.error(error instanceof DaemonConfigError ? error.message : error);
+    process.exit(1);
+});
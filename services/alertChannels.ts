@@ -0,0 +1,379 @@
+import { abortableWait } from './concurrency';
+import { Alert, alertTitle, describeAlert } from './notificationCenter';
+import { DisplayPreferences } from './preferences';
+
+export type ChannelKind = 'webhook' | 'chat' | 'email';
+export type ChatStyle = 'slack' | 'teams';
+
+interface ChannelBase {
+    id: string;
+    name: string;
+    enabled: boolean;
+    // Attempts per alert, including the first one; retries wait retryDelaySeconds, doubling each time.
+    maxAttempts: number;
+    retryDelaySeconds: number;
+}
+
+// Generic JSON POST, signed with HMAC-SHA256 over the raw body when a secret is set.
+export interface WebhookChannel extends ChannelBase {
+    kind: 'webhook';
+    url: string;
+    // Never saved; see withoutSecrets.
+    secret: string;
+}
+
+// Incoming webhook of a chat tool.
+export interface ChatChannel extends ChannelBase {
+    kind: 'chat';
+    url: string;
+    style: ChatStyle;
+}
+
+export interface EmailChannel extends ChannelBase {
+    kind: 'email';
+    host: string;
+    port: number;
+    // Implicit TLS (usually port 465); otherwise STARTTLS is used when the server offers it. Without either,
+    // only servers that need no login can be used.
+    secure: boolean;
+    username: string;
+    // Never saved; see withoutSecrets.
+    password: string;
+    from: string;
+    to: string[];
+}
+
+export type AlertChannel = WebhookChannel | ChatChannel | EmailChannel;
+
+export interface EmailMessage {
+    subject: string;
+    text: string;
+}
+
+// Browsers cannot open SMTP connections, so email goes through whatever the runtime offers.
+export type EmailTransport = (channel: EmailChannel, message: EmailMessage) => Promise<void>;
+
+export interface DeliveryRecord {
+    id: string;
+    channelId: string;
+    channelName: string;
+    alertId: string;
+    // Missing on records written before deliveries were kept per account.
+    accountName?: string;
+    summary: string;
+    attempt: number;
+    at: number;
+    ok: boolean;
+    error: string | null;
+}
+
+type Listener = () => void;
+
+export const CHANNEL_KIND_LABELS: Record<ChannelKind, string> = {
+    webhook: 'JSON webhook',
+    chat: 'Slack / Teams webhook',
+    email: 'Email (SMTP)',
+};
+
+export const SIGNATURE_HEADER = 'X-ColdChain-Signature';
+
+const CHANNELS_STORAGE_KEY = 'alertChannels';
+const DELIVERIES_STORAGE_KEY = 'alertDeliveries';
+const MAX_DELIVERIES = 300;
+
+export class ChannelDeliveryError extends Error {
+    constructor(message: string, public readonly retryable: boolean = true) {
+        super(message);
+        this.name = 'ChannelDeliveryError';
+    }
+}
+
+export class ChannelUnavailableError extends ChannelDeliveryError {
+    constructor(message: string) {
+        super(message, false);
+        this.name = 'ChannelUnavailableError';
+    }
+}
+
+export const emailUnavailable: EmailTransport = async () => {
+    throw new ChannelUnavailableError('Email cannot be sent from the browser; SMTP channels are delivered by the monitoring daemon.');
+};
+
+export const newChannel = (kind: ChannelKind): AlertChannel => {
+    const base = { id: crypto.randomUUID(), name: CHANNEL_KIND_LABELS[kind], enabled: true, maxAttempts: 3, retryDelaySeconds: 10 };
+    switch (kind) {
+        case 'webhook':
+            return { ...base, kind, url: '', secret: '' };
+        case 'chat':
+            return { ...base, kind, url: '', style: 'slack' };
+        case 'email':
+            return { ...base, kind, host: '', port: 587, secure: false, username: '', password: '', from: '', to: [] };
+    }
+};
+
+// Signing secrets and SMTP passwords stay out of storage, like remembered logins: the browser only keeps
+// them until the page is closed, and the daemon takes them from the channels in its configuration file.
+const withoutSecrets = (channel: AlertChannel): AlertChannel => {
+    switch (channel.kind) {
+        case 'webhook':
+            return { ...channel, secret: '' };
+        case 'email':
+            return { ...channel, password: '' };
+        default:
+            return channel;
+    }
+};
+
+const hasSecret = (channel: AlertChannel): boolean =>
+    (channel.kind === 'webhook' && channel.secret !== '') || (channel.kind === 'email' && channel.password !== '');
+
+export const loadChannels = (storage: Storage = localStorage): AlertChannel[] => {
+    const raw = storage.getItem(CHANNELS_STORAGE_KEY);
+    if (!raw) return [];
+    let channels: AlertChannel[];
+    try {
+        channels = JSON.parse(raw) as AlertChannel[];
+    } catch (e) {
+        console.error('Failed to parse saved alert channels', e);
+        return [];
+    }
+    // Earlier versions saved the secrets as they were typed.
+    if (channels.some(hasSecret)) {
+        console.warn('Removed signing secrets and SMTP passwords from the saved alert channels; enter them again.');
+        saveChannels(channels, storage);
+    }
+    return channels.map(withoutSecrets);
+};
+
+export const saveChannels = (channels: AlertChannel[], storage: Storage = localStorage): void => {
+    storage.setItem(CHANNELS_STORAGE_KEY, JSON.stringify(channels.map(withoutSecrets)));
+};
+
+export const validateChannel = (channel: AlertChannel): string | null => {
+    if (!channel.name.trim()) return 'Give the channel a name.';
+    if (channel.maxAttempts < 1) return 'A channel needs at least one attempt.';
+    if (channel.kind === 'email') {
+        if (!channel.host.trim()) return 'Enter the SMTP server.';
+        if (!channel.from.trim() || channel.to.length === 0) return 'Enter a sender and at least one recipient.';
+        return null;
+    }
+    try {
+        const url = new URL(channel.url);
+        return url.protocol === 'https:' || url.protocol === 'http:' ? null : 'The webhook URL must start with http:// or https://.';
+    } catch {
+        return 'Enter a valid webhook URL.';
+    }
+};
+
+const toHex = (buffer: ArrayBuffer): string =>
+    Array.from(new Uint8Array(buffer)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const signPayload = async (secret: string, body: string): Promise<string> => {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    return `sha256=${toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(body)))}`;
+};
+
+const isoTime = (timestamp: number | null): string | null => timestamp === null ? null : new Date(timestamp).toISOString();
+
+export const webhookPayload = (alert: Alert, preferences: DisplayPreferences, now: number) => ({
+    event: 'alert.raised',
+    sentAt: isoTime(now),
+    alert: {
+        id: alert.id,
+        kind: alert.kind,
+        title: alertTitle(alert),
+        account: alert.accountName,
+        vehicle: { uid: alert.vehicleUid, name: alert.vehicleName },
+        sensor: alert.sensorKind !== null ? { kind: alert.sensorKind, id: alert.sensorId, name: alert.sensorName } : null,
+        since: isoTime(alert.since),
+        raisedAt: isoTime(alert.raisedAt),
+        // Celsius, as reported by Webfleet.
+        value: alert.value,
+        limit: alert.limit ? { min: alert.limit.min, max: alert.limit.max } : null,
+    },
+    text: describeAlert(alert, preferences, now),
+});
+
+export const chatPayload = (style: ChatStyle, alert: Alert, preferences: DisplayPreferences, now: number) => {
+    const text = describeAlert(alert, preferences, now);
+    if (style === 'teams') {
+        return {
+            '@type': 'MessageCard',
+            '@context': 'https://schema.org/extensions',
+            summary: alertTitle(alert),
+            themeColor: 'E4002B',
+            title: alertTitle(alert),
+            text,
+        };
+    }
+    return { text: `*${alertTitle(alert)}*\n${text}` };
+};
+
+export const emailMessage = (alert: Alert, preferences: DisplayPreferences, now: number): EmailMessage => ({
+    subject: `[Cold Chain] ${alertTitle(alert)}: ${alert.vehicleName}`,
+    text: `${describeAlert(alert, preferences, now)}\n\nAccount: ${alert.accountName}\nVehicle: ${alert.vehicleName} (${alert.vehicleUid})\n`,
+});
+
+// Keeps the outcome of every delivery attempt for the last few hundred alerts.
+export class DeliveryLog {
+    private readonly listeners = new Set<Listener>();
+
+    constructor(private readonly storage: Storage = localStorage) {}
+
+    public list(): DeliveryRecord[] {
+        return [...this.read()].sort((a, b) => b.at - a.at);
+    }
+
+    public record(entry: Omit<DeliveryRecord, 'id'>): void {
+        const records = [...this.read(), { ...entry, id: crypto.randomUUID() }];
+        this.storage.setItem(DELIVERIES_STORAGE_KEY, JSON.stringify(records.slice(-MAX_DELIVERIES)));
+        this.listeners.forEach(listener => listener());
+    }
+
+    public clear(): void {
+        this.storage.removeItem(DELIVERIES_STORAGE_KEY);
+        this.listeners.forEach(listener => listener());
+    }
+
+    // Records that cannot be told apart by account go as well.
+    public forgetAccount(accountName: string): void {
+        const kept = this.read().filter(record => record.accountName !== undefined && record.accountName !== accountName);
+        this.storage.setItem(DELIVERIES_STORAGE_KEY, JSON.stringify(kept));
+        this.listeners.forEach(listener => listener());
+    }
+
+    public subscribe(listener: Listener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private read(): DeliveryRecord[] {
+        const raw = this.storage.getItem(DELIVERIES_STORAGE_KEY);
+        if (!raw) return [];
+        try {
+            return JSON.parse(raw) as DeliveryRecord[];
+        } catch (e) {
+            console.error('Failed to parse the alert delivery log', e);
+            return [];
+        }
+    }
+}
+
+export interface DispatcherOptions {
+    fetch: typeof fetch;
+    email: EmailTransport;
+    wait: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+const DEFAULT_DISPATCHER_OPTIONS: DispatcherOptions = {
+    fetch: (input, init) => fetch(input, init),
+    email: emailUnavailable,
+    wait: abortableWait,
+};
+
+// Sends raised alerts to every enabled channel. Channels are retried independently, so one slow
+// or failing endpoint never holds up the others.
+export class AlertDispatcher {
+    private readonly options: DispatcherOptions;
+
+    constructor(
+        private readonly channels: () => AlertChannel[],
+        private readonly log: DeliveryLog,
+        options: Partial<DispatcherOptions> = {}
+    ) {
+        this.options = { ...DEFAULT_DISPATCHER_OPTIONS, ...options };
+    }
+
+    public async dispatch(alerts: Alert[], preferences: DisplayPreferences, signal?: AbortSignal): Promise<void> {
+        const channels = this.channels().filter(channel => channel.enabled);
+        await Promise.all(alerts.flatMap(alert => channels.map(channel => this.deliver(channel, alert, preferences, signal))));
+    }
+
+    // Returns whether the alert got through in the end.
+    public async deliver(channel: AlertChannel, alert: Alert, preferences: DisplayPreferences, signal?: AbortSignal): Promise<boolean> {
+        const summary = `${alertTitle(alert)}: ${alert.vehicleName}${alert.sensorName ? `, ${alert.sensorName}` : ''}`;
+        for (let attempt = 1; attempt <= channel.maxAttempts; attempt++) {
+            try {
+                await this.send(channel, alert, preferences, signal);
+                this.log.record({
+                    channelId: channel.id,
+                    channelName: channel.name,
+                    alertId: alert.id,
+                    accountName: alert.accountName,
+                    summary,
+                    attempt,
+                    at: Date.now(),
+                    ok: true,
+                    error: null,
+                });
+                return true;
+            } catch (error) {
+                if (signal?.aborted) throw error;
+                const retryable = !(error instanceof ChannelDeliveryError) || error.retryable;
+                this.log.record({
+                    channelId: channel.id,
+                    channelName: channel.name,
+                    alertId: alert.id,
+                    accountName: alert.accountName,
+                    summary,
+                    attempt,
+                    at: Date.now(),
+                    ok: false,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+                if (!retryable || attempt === channel.maxAttempts) return false;
+                await this.options.wait(channel.retryDelaySeconds * 1000 * 2 ** (attempt - 1), signal);
+            }
+        }
+        return false;
+    }
+
+    private async send(channel: AlertChannel, alert: Alert, preferences: DisplayPreferences, signal?: AbortSignal): Promise<void> {
+        const problem = validateChannel(channel);
+        if (problem) throw new ChannelDeliveryError(problem, false);
+        const now = Date.now();
+        if (channel.kind === 'email') {
+            await this.options.email(channel, emailMessage(alert, preferences, now));
+            return;
+        }
+
+        const body = JSON.stringify(channel.kind === 'webhook'
+            ? webhookPayload(alert, preferences, now)
+            : chatPayload(channel.style, alert, preferences, now));
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (channel.kind === 'webhook' && channel.secret) {
+            headers[SIGNATURE_HEADER] = await signPayload(channel.secret, body);
+        }
+
+        const response = await this.options.fetch(channel.url, { method: 'POST', headers, body, signal });
+        if (!response.ok) {
+            // Client errors other than rate limiting will not go away by sending the same request again.
+            const retryable = response.status >= 500 || response.status === 429 || response.status === 408;
+            throw new ChannelDeliveryError(`${channel.url} answered ${response.status} ${response.statusText}`.trim(), retryable);
+        }
+    }
+}
+
+// What "Send test" delivers, so a channel can be checked before a real alert depends on it.
+export const sampleAlert = (now: number = Date.now()): Alert => ({
+    id: `test-${now}`,
+    key: 'test',
+    ruleId: 'test',
+    kind: 'doorOpenTooLong',
+    accountName: 'test',
+    vehicleUid: 'test',
+    vehicleName: 'Test vehicle',
+    sensorKind: 'door',
+    sensorId: 1,
+    sensorName: 'D1',
+    since: now - 12 * 60 * 1000,
+    value: null,
+    limit: null,
+    raisedAt: now,
+    resolvedAt: null,
+    acknowledgedAt: null,
+    snoozedUntil: null,
+});
@@ -0,0 +1,315 @@
+import { DoorStatus, TemperatureReading, Vehicle, VehicleUpdate } from '../types';
+import { SensorKind, doorShortLabel } from './sensorRegistry';
+import { TemperatureLimit, isOutOfRange, loadVehicleLimits } from './temperatureLimits';
+import { ProfileLibrary, limitResolver } from './productProfiles';
+import { vehicleKey } from './liveUpdates';
+
+export type AlertKind = 'temperatureOutOfRange' | 'doorOpenTooLong' | 'sensorSilent' | 'movingWithDoorOpen';
+
+// minutes is how long the condition has to hold before the rule fires.
+export interface AlertRule {
+    id: string;
+    kind: AlertKind;
+    enabled: boolean;
+    minutes: number;
+}
+
+export interface AlertSettings {
+    rules: AlertRule[];
+    browserNotifications: boolean;
+    sound: boolean;
+}
+
+// A rule that currently holds for one vehicle or sensor.
+export interface AlertCondition {
+    ruleId: string;
+    kind: AlertKind;
+    accountName: string;
+    vehicleUid: string;
+    vehicleName: string;
+    sensorKind: SensorKind | null;
+    sensorId: number | null;
+    sensorName: string | null;
+    since: number;
+    // Latest temperature and the limit it broke, for temperature alerts.
+    value: number | null;
+    limit: TemperatureLimit | null;
+}
+
+export type LimitLookup = (vehicle: Vehicle, sensorId: number, timestamp: number) => TemperatureLimit | null;
+
+type Listener = () => void;
+
+// What the engine has learned so far; kept by long-running monitors so durations survive a restart.
+export interface AlertEngineState {
+    vehicles: TrackedVehicle[];
+}
+
+export interface TrackedVehicle {
+    vehicle: Vehicle;
+    temperatureSeenAt: Record<number, number>;
+    doorSeenAt: Record<number, number>;
+    outOfRangeSince: Record<number, number>;
+    doorOpenSince: Record<number, number>;
+    // Last observation at which the position had moved on from the previous one.
+    movedAt: number | null;
+}
+
+export const ALERT_KIND_LABELS: Record<AlertKind, string> = {
+    temperatureOutOfRange: 'Temperature out of range',
+    doorOpenTooLong: 'Door open too long',
+    sensorSilent: 'Sensor not reporting',
+    movingWithDoorOpen: 'Moving with a door open',
+};
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+    rules: [
+        { id: 'temperature', kind: 'temperatureOutOfRange', enabled: true, minutes: 15 },
+        { id: 'door', kind: 'doorOpenTooLong', enabled: true, minutes: 10 },
+        { id: 'silent', kind: 'sensorSilent', enabled: true, minutes: 60 },
+        { id: 'moving', kind: 'movingWithDoorOpen', enabled: true, minutes: 0 },
+    ],
+    browserNotifications: false,
+    sound: false,
+};
+
+// Position changes below this are GPS jitter rather than driving.
+export const MOVING_DISTANCE_METERS = 100;
+
+const STORAGE_KEY = 'alertSettings';
+const ENGINE_STATE_KEY = 'alertEngineState';
+
+export const loadAlertSettings = (storage: Storage = localStorage): AlertSettings => {
+    const raw = storage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_ALERT_SETTINGS;
+    try {
+        return { ...DEFAULT_ALERT_SETTINGS, ...JSON.parse(raw) };
+    } catch (e) {
+        console.error('Failed to parse saved alert settings', e);
+        return DEFAULT_ALERT_SETTINGS;
+    }
+};
+
+export const saveAlertSettings = (settings: AlertSettings, storage: Storage = localStorage): void => {
+    storage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Without its state a restarted engine would resolve every open alert and raise it again once the rule's time has passed.
+export const restoreAlertEngine = (engine: AlertEngine, storage: Storage = localStorage): void => {
+    const raw = storage.getItem(ENGINE_STATE_KEY);
+    if (!raw) return;
+    try {
+        engine.restoreState(JSON.parse(raw) as AlertEngineState);
+    } catch (e) {
+        console.error('Failed to restore the alert engine state, starting fresh', e);
+    }
+};
+
+export const saveAlertEngine = (engine: AlertEngine, storage: Storage = localStorage): void => {
+    storage.setItem(ENGINE_STATE_KEY, JSON.stringify(engine.exportState()));
+};
+
+// Live readings are judged against the same limits as the reports: the loaded product first, then the vehicle's own.
+export const storedLimitLookup = (library: ProfileLibrary, storage: Storage = localStorage): LimitLookup =>
+    (vehicle, sensorId, timestamp) => {
+        const profiles = new Map(library.listProfiles().map(profile => [profile.id, profile]));
+        const resolve = limitResolver(
+            loadVehicleLimits(vehicle.account, vehicle.uid, storage),
+            library.listAssignments(vehicle.account, vehicle.uid),
+            profiles
+        );
+        return resolve(sensorId, timestamp);
+    };
+
+export const distanceMeters = (a: { lat: number; lng: number }, b: { lat: number; lng: number }): number => {
+    const toRadians = (degrees: number) => degrees * Math.PI / 180;
+    const dLat = toRadians(b.lat - a.lat);
+    const dLng = toRadians(b.lng - a.lng);
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+    return 2 * 6371000 * Math.asin(Math.sqrt(h));
+};
+
+export const conditionKey = (condition: AlertCondition): string =>
+    `${condition.ruleId}|${condition.accountName}|${condition.vehicleUid}|${condition.sensorKind ?? ''}:${condition.sensorId ?? ''}`;
+
+// Follows the live fleet and tells which rules hold. Snapshots and queue messages are fed in as they arrive;
+// evaluate is called on a timer as well, since most rules fire on time passing rather than on new data.
+export class AlertEngine {
+    private readonly vehicles = new Map<string, TrackedVehicle>();
+    private readonly listeners = new Set<Listener>();
+
+    constructor(private readonly limitFor: LimitLookup) {}
+
+    // The current-data calls repeat the last known value however old it is, so a sensor counts as seen when
+    // Webfleet says the value was measured; only readings without a measurement time count at the poll.
+    public observeSnapshot(vehicles: Vehicle[], now: number = Date.now()): void {
+        vehicles.forEach(vehicle => {
+            const tracked = this.track(vehicle);
+            this.recordTemperatures(tracked, vehicle.temperatures ?? {}, now);
+            this.recordDoors(tracked, vehicle.doorStatus ?? {}, vehicle.doorReadAt ?? {}, now);
+            this.recordLocation(tracked, vehicle.location, now);
+            tracked.vehicle = vehicle;
+        });
+        this.emit();
+    }
+
+    public observeUpdates(updates: VehicleUpdate[]): void {
+        if (updates.length === 0) return;
+        [...updates].sort((a, b) => a.timestamp - b.timestamp).forEach(update => {
+            const tracked = this.vehicles.get(vehicleKey(update));
+            // Queue messages for objects the fleet list filtered out are of no interest.
+            if (!tracked) return;
+            const vehicle = tracked.vehicle;
+            if (update.temperatures) this.recordTemperatures(tracked, update.temperatures, update.timestamp);
+            if (update.doorStatus) this.recordDoors(tracked, update.doorStatus, {}, update.timestamp);
+            if (update.location) this.recordLocation(tracked, update.location, update.timestamp);
+            tracked.vehicle = {
+                ...vehicle,
+                temperatures: update.temperatures ? { ...(vehicle.temperatures || {}), ...update.temperatures } : vehicle.temperatures,
+                doorStatus: update.doorStatus ? { ...(vehicle.doorStatus || {}), ...update.doorStatus } : vehicle.doorStatus,
+                location: update.location ?? vehicle.location,
+            };
+        });
+        this.emit();
+    }
+
+    public exportState(): AlertEngineState {
+        const vehicles: TrackedVehicle[] = [];
+        this.vehicles.forEach(tracked => vehicles.push(tracked));
+        return { vehicles };
+    }
+
+    public restoreState(state: AlertEngineState): void {
+        this.vehicles.clear();
+        state.vehicles.forEach(tracked => this.vehicles.set(vehicleKey(tracked.vehicle), tracked));
+    }
+
+    public forgetAccount(accountName: string): void {
+        this.vehicles.forEach((tracked, key) => {
+            if (tracked.vehicle.account !== accountName) return;
+            this.vehicles.delete(key);
+        });
+    }
+
+    public evaluate(rules: AlertRule[], now: number = Date.now()): AlertCondition[] {
+        const conditions: AlertCondition[] = [];
+        rules.filter(rule => rule.enabled).forEach(rule => {
+            const thresholdMs = rule.minutes * 60 * 1000;
+            this.vehicles.forEach(tracked => {
+                const { vehicle } = tracked;
+                const base = { ruleId: rule.id, kind: rule.kind, accountName: vehicle.account, vehicleUid: vehicle.uid, vehicleName: vehicle.name };
+                const sensor = (sensorKind: SensorKind, sensorId: number, since: number, reading?: TemperatureReading) => ({
+                    ...base,
+                    sensorKind,
+                    sensorId,
+                    // Named as in the fleet list.
+                    sensorName: reading?.name ?? (sensorKind === 'door' ? doorShortLabel(sensorId) : `Sensor ${sensorId}`),
+                    since,
+                    value: null,
+                    limit: null,
+                });
+
+                switch (rule.kind) {
+                    case 'temperatureOutOfRange':
+                        Object.keys(tracked.outOfRangeSince).map(Number).forEach(sensorId => {
+                            const since = tracked.outOfRangeSince[sensorId];
+                            if (now - since < thresholdMs) return;
+                            const reading = vehicle.temperatures?.[sensorId];
+                            conditions.push({
+                                ...sensor('temperature', sensorId, since, reading),
+                                value: reading?.value ?? null,
+                                limit: reading ? this.limitFor(vehicle, sensorId, now) : null,
+                            });
+                        });
+                        break;
+                    case 'doorOpenTooLong':
+                        Object.keys(tracked.doorOpenSince).map(Number).forEach(doorId => {
+                            const since = tracked.doorOpenSince[doorId];
+                            if (now - since >= thresholdMs) conditions.push(sensor('door', doorId, since));
+                        });
+                        break;
+                    case 'sensorSilent':
+                        Object.keys(tracked.temperatureSeenAt).map(Number).forEach(sensorId => {
+                            const seenAt = tracked.temperatureSeenAt[sensorId];
+                            if (now - seenAt >= thresholdMs) conditions.push(sensor('temperature', sensorId, seenAt, vehicle.temperatures?.[sensorId]));
+                        });
+                        Object.keys(tracked.doorSeenAt).map(Number).forEach(doorId => {
+                            const seenAt = tracked.doorSeenAt[doorId];
+                            if (now - seenAt >= thresholdMs) conditions.push(sensor('door', doorId, seenAt));
+                        });
+                        break;
+                    case 'movingWithDoorOpen':
+                        Object.keys(tracked.doorOpenSince).map(Number).forEach(doorId => {
+                            const since = tracked.doorOpenSince[doorId];
+                            if (tracked.movedAt !== null && tracked.movedAt >= since + thresholdMs) {
+                                conditions.push(sensor('door', doorId, since));
+                            }
+                        });
+                        break;
+                }
+            });
+        });
+        return conditions;
+    }
+
+    public subscribe(listener: Listener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private track(vehicle: Vehicle): TrackedVehicle {
+        const key = vehicleKey(vehicle);
+        let tracked = this.vehicles.get(key);
+        if (!tracked) {
+            tracked = { vehicle, temperatureSeenAt: {}, doorSeenAt: {}, outOfRangeSince: {}, doorOpenSince: {}, movedAt: null };
+            this.vehicles.set(key, tracked);
+        }
+        return tracked;
+    }
+
+    private recordTemperatures(
+        tracked: TrackedVehicle,
+        temperatures: { [sensorId: number]: TemperatureReading },
+        timestamp: number
+    ): void {
+        Object.keys(temperatures).map(Number).forEach(sensorId => {
+            const readAt = temperatures[sensorId].readAt ?? timestamp;
+            tracked.temperatureSeenAt[sensorId] = Math.max(tracked.temperatureSeenAt[sensorId] ?? 0, readAt);
+            const limit = this.limitFor(tracked.vehicle, sensorId, timestamp);
+            if (limit && isOutOfRange(temperatures[sensorId].value, limit)) {
+                tracked.outOfRangeSince[sensorId] ??= timestamp;
+            } else {
+                delete tracked.outOfRangeSince[sensorId];
+            }
+        });
+    }
+
+    private recordDoors(
+        tracked: TrackedVehicle,
+        doors: { [sensorId: number]: DoorStatus },
+        readAt: { [sensorId: number]: number },
+        timestamp: number
+    ): void {
+        Object.keys(doors).map(Number).forEach(doorId => {
+            tracked.doorSeenAt[doorId] = Math.max(tracked.doorSeenAt[doorId] ?? 0, readAt[doorId] ?? timestamp);
+            if (doors[doorId] === DoorStatus.OPEN) {
+                tracked.doorOpenSince[doorId] ??= timestamp;
+            } else {
+                delete tracked.doorOpenSince[doorId];
+            }
+        });
+    }
+
+    private recordLocation(tracked: TrackedVehicle, location: Vehicle['location'], timestamp: number): void {
+        const previous = tracked.vehicle.location;
+        if (location && previous && distanceMeters(previous, location) >= MOVING_DISTANCE_METERS) {
+            tracked.movedAt = timestamp;
+        }
+    }
+
+    private emit(): void {
+        this.listeners.forEach(listener => listener());
+    }
+}
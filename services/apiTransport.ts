@@ -0,0 +1,93 @@
+import { AuthCredentials } from '../types';
+
+const API_BASE_URL = 'https://csv.webfleet.com/extern';
+
+export interface ApiResponse {
+    status: number;
+    errorMessage: string | null;
+    body: string;
+}
+
+export interface ApiTransport {
+    send(action: string, params: Record<string, string>, auth: AuthCredentials, signal?: AbortSignal): Promise<ApiResponse>;
+}
+
+export interface FetchTransportOptions {
+    fetch: typeof fetch;
+    // Encodes a string of byte values (0-255) as base64, like btoa.
+    encodeBase64: (binary: string) => string;
+}
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// For runtimes without btoa.
+export const encodeBase64 = (binary: string): string => {
+    let output = '';
+    for (let i = 0; i < binary.length; i += 3) {
+        const [a, b, c] = [binary.charCodeAt(i), binary.charCodeAt(i + 1), binary.charCodeAt(i + 2)];
+        const triple = (a << 16) | ((b || 0) << 8) | (c || 0);
+        output += BASE64_ALPHABET[(triple >> 18) & 63] + BASE64_ALPHABET[(triple >> 12) & 63];
+        output += i + 1 < binary.length ? BASE64_ALPHABET[(triple >> 6) & 63] : '=';
+        output += i + 2 < binary.length ? BASE64_ALPHABET[triple & 63] : '=';
+    }
+    return output;
+};
+
+const DEFAULT_FETCH_TRANSPORT_OPTIONS: FetchTransportOptions = {
+    fetch: (input, init) => fetch(input, init),
+    encodeBase64: binary => typeof btoa === 'function' ? btoa(binary) : encodeBase64(binary),
+};
+
+// Basic auth credentials are sent as UTF-8, so passwords outside Latin-1 survive the encoding.
+const basicAuthorization = (username: string, password: string, encode: (binary: string) => string): string => {
+    const bytes = new TextEncoder().encode(`${username}:${password}`);
+    return `Basic ${encode(String.fromCharCode(...bytes))}`;
+};
+
+export const createFetchTransport = (options: Partial<FetchTransportOptions> = {}): ApiTransport => {
+    const { fetch: fetchImpl, encodeBase64: encode } = { ...DEFAULT_FETCH_TRANSPORT_OPTIONS, ...options };
+    return {
+        async send(action, params, auth, signal) {
+            const { accountName, username, password, apiKey } = auth;
+
+            if (!apiKey) {
+                throw new Error("API Key is required to access the Webfleet API.");
+            }
+            if (!username || !password) {
+                throw new Error("Username and password are required for authentication.");
+            }
+
+            const url = new URL(API_BASE_URL);
+
+            const queryParams: Record<string, string> = {
+                ...params,
+                action,
+                account: accountName,
+                apikey: apiKey,
+                outputformat: 'json',
+                lang: 'en',
+                useISO8601: 'true',
+            };
+
+            for (const key in queryParams) {
+                url.searchParams.append(key, queryParams[key]);
+            }
+
+            const response = await fetchImpl(url.toString(), {
+                method: 'GET',
+                headers: {
+                    'Authorization': basicAuthorization(username, password, encode),
+                },
+                signal,
+            });
+
+            return {
+                status: response.status,
+                errorMessage: response.headers.get('X-Webfleet-Errormessage'),
+                body: await response.text(),
+            };
+        },
+    };
+};
+
+export const fetchTransport: ApiTransport = createFetchTransport();
@@ -0,0 +1,253 @@
+import { zipSync } from 'fflate';
+import { Vehicle } from '../types';
+import { AccountConnection, HistoricalProgress, connectionForVehicle } from './dataSource';
+import { abortError, isAbortError } from './concurrency';
+import { describeError } from './webfleetErrors';
+import { DisplayPreferences, formatDateTime, formatTimeZone, resolveTimeZone, withTimeZone } from './preferences';
+import { loadVehicleLimits } from './temperatureLimits';
+import { loadCalibrations, loadThermographTemplate } from './thermographTemplate';
+import { describeVerdict } from './excursions';
+import { ProfileLibrary } from './productProfiles';
+import { RangeSelection, rangeFileSuffix, rangeRequest, rangeSelectionLabel, resolveRange } from './reportRange';
+import { REPORT_KIND_LABELS, ReportDataError, ReportKind, VehicleReport, buildVehicleReport, renderDoorReport, renderThermographTicket, reportFileName } from './reports';
+
+// Thermograph and door reports for many vehicles in one go, bundled into a ZIP with an index PDF.
+
+export type BatchReportKind = Extract<ReportKind, 'thermograph' | 'door'>;
+
+export type BatchItemStatus = 'queued' | 'fetching' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchSummary {
+    rangeLabel: string;
+    timeZone: string;
+    verdict: string;
+    excursions: number;
+    doorOpenings: number;
+    // History windows Webfleet still did not return after one retry; the reports list them.
+    gaps: number;
+}
+
+export interface BatchItem {
+    vehicle: Vehicle;
+    status: BatchItemStatus;
+    progress: HistoricalProgress | null;
+    files: string[];
+    // Reports left out because the vehicle has no data for them, with the reason.
+    skipped: string[];
+    error: string | null;
+    summary: BatchSummary | null;
+}
+
+export interface BatchJob {
+    accounts: AccountConnection[];
+    vehicles: Vehicle[];
+    selection: RangeSelection;
+    kinds: BatchReportKind[];
+    preferences: DisplayPreferences;
+    profileLibrary: ProfileLibrary;
+    // Returns a new jsPDF document with the autoTable plugin, as for the single-vehicle reports.
+    createDocument: () => any;
+    onItemChange: (index: number, item: BatchItem) => void;
+    signal?: AbortSignal;
+}
+
+export interface BatchResult {
+    items: BatchItem[];
+    fileName: string;
+    zip: Uint8Array;
+}
+
+export const BATCH_REPORT_KINDS: BatchReportKind[] = ['thermograph', 'door'];
+
+export const INDEX_FILE_NAME = 'index.pdf';
+
+// Every request already waits for its quota in the account's RequestScheduler. A batch also takes one vehicle
+// per account and one history window at a time, which leaves quota for the live view while a long batch runs.
+const VEHICLES_PER_ACCOUNT = 1;
+const CHUNKS_PER_VEHICLE = 1;
+
+export const queuedBatchItem = (vehicle: Vehicle): BatchItem =>
+    ({ vehicle, status: 'queued', progress: null, files: [], skipped: [], error: null, summary: null });
+
+// Two vehicles of different accounts may share a name, and with it their report file names.
+const uniqueFileName = (taken: Set<string>, fileName: string): string => {
+    const dot = fileName.lastIndexOf('.');
+    let candidate = fileName;
+    for (let n = 2; taken.has(candidate); n++) {
+        candidate = `${fileName.slice(0, dot)}-${n}${fileName.slice(dot)}`;
+    }
+    taken.add(candidate);
+    return candidate;
+};
+
+const renderReport = (doc: any, kind: BatchReportKind, report: VehicleReport, now: number): void => {
+    if (kind === 'thermograph') {
+        renderThermographTicket(doc, report, now);
+    } else {
+        renderDoorReport(doc, report);
+    }
+};
+
+const itemResult = (item: BatchItem): string => {
+    if (item.status === 'failed') return `Failed: ${item.error}`;
+    if (item.status !== 'done' || !item.summary) return 'Cancelled before its reports were generated.';
+    const { verdict, excursions, doorOpenings, gaps } = item.summary;
+    return [
+        verdict,
+        `${excursions} excursion(s), ${doorOpenings} door opening(s)`,
+        ...(gaps > 0 ? [`${gaps} time window(s) missing`] : []),
+        ...item.skipped,
+    ].join('\n');
+};
+
+export const renderBatchIndex = (doc: any, job: BatchJob, items: BatchItem[], generatedAt: number): void => {
+    doc.setFontSize(22);
+    doc.text('Batch Report Index', 14, 22);
+    doc.setFontSize(12);
+    doc.text(`Date Range: ${rangeSelectionLabel(job.selection)}`, 14, 32);
+    doc.text(`Reports: ${job.kinds.map(kind => REPORT_KIND_LABELS[kind]).join(', ')}`, 14, 38);
+    doc.text(`Generated: ${formatDateTime(generatedAt, job.preferences)} (${formatTimeZone(job.preferences, generatedAt)})`, 14, 44);
+    const done = items.filter(item => item.status === 'done').length;
+    doc.text(`Vehicles: ${done} of ${items.length} reported`, 14, 50);
+
+    doc.autoTable({
+        head: [['#', 'Vehicle', 'Range', 'Result', 'Files']],
+        body: items.map((item, index) => [
+            `${index + 1}.`,
+            `${item.vehicle.name}\n${item.vehicle.account}`,
+            item.summary ? `${item.summary.rangeLabel}\n${item.summary.timeZone}` : '',
+            itemResult(item),
+            item.files.join('\n'),
+        ]),
+        startY: 58,
+        theme: 'grid',
+        styles: { fontSize: 8, valign: 'top' },
+        headStyles: { fillColor: [220, 38, 38] },
+        columnStyles: { 0: { halign: 'right', cellWidth: 10 }, 1: { cellWidth: 32 }, 2: { cellWidth: 42 } },
+        didParseCell: (hook: any) => {
+            if (hook.section === 'body' && hook.column.index === 3 && items[hook.row.index].status !== 'done') {
+                hook.cell.styles.textColor = [200, 0, 0];
+            }
+        },
+    });
+};
+
+export const runBatchReports = async (job: BatchJob): Promise<BatchResult> => {
+    const { accounts, vehicles, selection, kinds, preferences, profileLibrary, signal } = job;
+    const now = Date.now();
+    // Every vehicle's range is resolved at the same moment, on the first account's clock as in the panel.
+    const rangeTime = accounts[0]?.dataSource.now() ?? now;
+    const items = vehicles.map(queuedBatchItem);
+    const files: { [name: string]: Uint8Array } = {};
+    const taken = new Set<string>([INDEX_FILE_NAME]);
+    const profiles = new Map(profileLibrary.listProfiles().map(profile => [profile.id, profile]));
+
+    const update = (index: number, patch: Partial<BatchItem>) => {
+        items[index] = { ...items[index], ...patch };
+        job.onItemChange(index, items[index]);
+    };
+
+    const reportOn = async (index: number) => {
+        const vehicle = vehicles[index];
+        const connection = connectionForVehicle(accounts, vehicle);
+        if (!connection) {
+            update(index, { status: 'failed', error: `The account ${vehicle.account} is no longer signed in.` });
+            return;
+        }
+        const { auth, dataSource } = connection;
+        update(index, { status: 'fetching' });
+        try {
+            const timeZone = resolveTimeZone(preferences, auth.accountName, vehicle);
+            const range = resolveRange(selection, timeZone, rangeTime);
+            const request = rangeRequest(selection, range);
+            const control = { signal, maxConcurrentChunks: CHUNKS_PER_VEHICLE, onProgress: (progress: HistoricalProgress) => update(index, { progress }) };
+            let historical = await dataSource.getHistoricalData(
+                auth,
+                typeof request === 'string' ? { objectuid: vehicle.uid, rangePattern: request } : { objectuid: vehicle.uid, ...request },
+                control
+            );
+            if (historical.gaps.length > 0) {
+                historical = await dataSource.retryHistoricalGaps(auth, historical, control);
+            }
+            if (signal?.aborted) throw abortError(signal);
+
+            const zoned = withTimeZone(preferences, timeZone);
+            const report = buildVehicleReport({
+                vehicle,
+                points: historical.points,
+                gaps: historical.gaps,
+                selection,
+                range,
+                sensors: dataSource.sensors,
+                limits: loadVehicleLimits(vehicle.account, vehicle.uid),
+                assignments: profileLibrary.listAssignments(vehicle.account, vehicle.uid),
+                profiles,
+                preferences: zoned,
+                template: loadThermographTemplate(vehicle.account),
+                calibrations: loadCalibrations(vehicle.account, vehicle.uid),
+            });
+
+            const written: string[] = [];
+            const skipped: string[] = [];
+            kinds.forEach(kind => {
+                try {
+                    const doc = job.createDocument();
+                    renderReport(doc, kind, report, now);
+                    const fileName = uniqueFileName(taken, reportFileName(kind, report));
+                    files[fileName] = new Uint8Array(doc.output('arraybuffer'));
+                    written.push(fileName);
+                } catch (error) {
+                    if (!(error instanceof ReportDataError)) throw error;
+                    skipped.push(`No ${REPORT_KIND_LABELS[kind].toLowerCase()}: ${error.message}`);
+                }
+            });
+
+            update(index, {
+                status: 'done',
+                files: written,
+                skipped,
+                summary: {
+                    rangeLabel: report.rangeLabel,
+                    timeZone: formatTimeZone(zoned, range?.startTime),
+                    verdict: report.hasLimits ? describeVerdict(report.verdict) : 'No limits set',
+                    excursions: report.excursions.length,
+                    doorOpenings: report.doorOpenings.length,
+                    gaps: historical.gaps.length,
+                },
+            });
+        } catch (error) {
+            if (signal?.aborted || isAbortError(error)) {
+                update(index, { status: 'cancelled' });
+                return;
+            }
+            update(index, { status: 'failed', error: describeError(error, 'Failed to generate the reports.').message });
+        }
+    };
+
+    // Accounts have their own quotas, so they run side by side.
+    const byAccount = new Map<string, number[]>();
+    vehicles.forEach((vehicle, index) => {
+        byAccount.set(vehicle.account, [...(byAccount.get(vehicle.account) ?? []), index]);
+    });
+    const queues: Promise<void>[] = [];
+    byAccount.forEach(indexes => {
+        queues.push((async () => {
+            for (let next = 0; next < indexes.length; next += VEHICLES_PER_ACCOUNT) {
+                if (signal?.aborted) {
+                    indexes.slice(next).forEach(index => update(index, { status: 'cancelled' }));
+                    return;
+                }
+                await Promise.all(indexes.slice(next, next + VEHICLES_PER_ACCOUNT).map(reportOn));
+            }
+        })());
+    });
+    await Promise.all(queues);
+
+    const indexDoc = job.createDocument();
+    renderBatchIndex(indexDoc, job, items, Date.now());
+    const zip = zipSync({ [INDEX_FILE_NAME]: new Uint8Array(indexDoc.output('arraybuffer')), ...files });
+
+    // Named after the range on the first vehicle's clock; the index lists each vehicle's own boundaries.
+    const timeZone = resolveTimeZone(preferences, vehicles[0]?.account ?? '', vehicles[0]);
+    return { items, fileName: `batch-reports-${rangeFileSuffix(selection, resolveRange(selection, timeZone, rangeTime), timeZone)}.zip`, zip };
+};
@@ -0,0 +1,43 @@
+// Desktop notifications and an alert tone for newly raised alerts. Both are optional and off by default.
+
+export const browserNotificationsSupported = (): boolean => typeof Notification !== 'undefined';
+
+export const requestNotificationPermission = async (): Promise<boolean> => {
+    if (!browserNotificationsSupported()) return false;
+    if (Notification.permission === 'granted') return true;
+    if (Notification.permission === 'denied') return false;
+    return (await Notification.requestPermission()) === 'granted';
+};
+
+export const showBrowserNotification = (title: string, body: string, tag?: string): void => {
+    if (!browserNotificationsSupported() || Notification.permission !== 'granted') return;
+    try {
+        new Notification(title, { body, tag });
+    } catch (e) {
+        // Some mobile browsers only allow notifications from a service worker.
+        console.error('Failed to show a browser notification', e);
+    }
+};
+
+let audioContext: AudioContext | null = null;
+
+// Two short beeps synthesised on the spot, so no sound file has to be shipped.
+export const playAlertSound = (): void => {
+    if (typeof AudioContext === 'undefined') return;
+    try {
+        audioContext ??= new AudioContext();
+        const start = audioContext.currentTime;
+        [0, 0.25].forEach(offset => {
+            const oscillator = audioContext!.createOscillator();
+            const gain = audioContext!.createGain();
+            oscillator.frequency.value = 880;
+            gain.gain.setValueAtTime(0.2, start + offset);
+            gain.gain.exponentialRampToValueAtTime(0.001, start + offset + 0.2);
+            oscillator.connect(gain).connect(audioContext!.destination);
+            oscillator.start(start + offset);
+            oscillator.stop(start + offset + 0.2);
+        });
+    } catch (e) {
+        console.error('Failed to play the alert sound', e);
+    }
+};
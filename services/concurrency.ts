@@ -0,0 +1,42 @@
+export const abortError = (signal: AbortSignal): unknown =>
+    signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+    typeof error === 'object' && error !== null && (error as { name?: string }).name === 'AbortError';
+
+export const abortableWait = (ms: number, signal?: AbortSignal): Promise<void> => {
+    if (signal?.aborted) return Promise.reject(abortError(signal));
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortError(signal!));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+};
+
+// Runs at most `limit` tasks at a time and keeps results in input order.
+export const mapWithConcurrency = async <T, R>(
+    items: T[],
+    limit: number,
+    task: (item: T, index: number) => Promise<R>,
+    signal?: AbortSignal
+): Promise<R[]> => {
+    const results = new Array<R>(items.length);
+    let nextIndex = 0;
+
+    const worker = async () => {
+        while (nextIndex < items.length) {
+            if (signal?.aborted) throw abortError(signal);
+            const index = nextIndex++;
+            results[index] = await task(items[index], index);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker));
+    return results;
+};
@@ -0,0 +1,216 @@
+import { AuthCredentials } from '../types';
+
+const STORAGE_KEY = 'credentialVault';
+const LEGACY_STORAGE_KEY = 'rememberedCredentials';
+const PBKDF2_ITERATIONS = 310000;
+const MIN_PIN_LENGTH = 4;
+
+export interface VaultProfileSummary {
+    id: string;
+    label: string;
+    hasPassword: boolean;
+    savedAt: number;
+}
+
+// What a profile gives back once unlocked; the password is only present if it was saved.
+export interface RememberedCredentials {
+    apiKey: string;
+    accountName: string;
+    username: string;
+    password?: string;
+}
+
+interface StoredProfile extends VaultProfileSummary {
+    salt: string;
+    iv: string;
+    iterations: number;
+    ciphertext: string;
+}
+
+interface StoredVault {
+    version: 1;
+    profiles: StoredProfile[];
+}
+
+export class CredentialVaultError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CredentialVaultError';
+    }
+}
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const subtleCrypto = (): SubtleCrypto => {
+    if (typeof crypto === 'undefined' || !crypto.subtle) {
+        throw new CredentialVaultError('Saving credentials needs WebCrypto, which this browser only offers on HTTPS pages.');
+    }
+    return crypto.subtle;
+};
+
+const deriveKey = async (pin: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+    const subtle = subtleCrypto();
+    const baseKey = await subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveKey']);
+    return subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+        baseKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+};
+
+const checkPin = (pin: string): void => {
+    if (pin.length < MIN_PIN_LENGTH) {
+        throw new CredentialVaultError(`The PIN or passphrase must have at least ${MIN_PIN_LENGTH} characters.`);
+    }
+};
+
+// Keeps "Remember me" profiles in localStorage, each sealed with AES-GCM under a key derived from a
+// local PIN or passphrase. Only the profile label is readable without the PIN.
+export class CredentialVault {
+    constructor(private readonly storage: Storage = localStorage) {}
+
+    public listProfiles(): VaultProfileSummary[] {
+        return this.read().profiles
+            .map(({ id, label, hasPassword, savedAt }) => ({ id, label, hasPassword, savedAt }))
+            .sort((a, b) => b.savedAt - a.savedAt);
+    }
+
+    public async saveProfile(credentials: AuthCredentials, pin: string, includePassword: boolean): Promise<VaultProfileSummary> {
+        return this.store({
+            apiKey: credentials.apiKey,
+            accountName: credentials.accountName,
+            username: credentials.username,
+            ...(includePassword ? { password: credentials.password } : {}),
+        }, pin);
+    }
+
+    // Older versions kept the API key, account and username in plain JSON. The entry stays until the user
+    // seals it with a PIN or discards it, so an upgrade does not silently lose the saved login.
+    public legacyProfile(): RememberedCredentials | null {
+        const raw = this.storage.getItem(LEGACY_STORAGE_KEY);
+        if (!raw) return null;
+        try {
+            const { apiKey, accountName, username } = JSON.parse(raw);
+            if (typeof apiKey === 'string' && typeof accountName === 'string' && typeof username === 'string') {
+                return { apiKey, accountName, username };
+            }
+        } catch (e) {
+            // Fall through and drop it.
+        }
+        console.error('Discarding unreadable remembered credentials.');
+        this.discardLegacyProfile();
+        return null;
+    }
+
+    public async migrateLegacyProfile(pin: string): Promise<VaultProfileSummary> {
+        const legacy = this.legacyProfile();
+        if (!legacy) {
+            throw new CredentialVaultError('The login saved by the earlier version is no longer there.');
+        }
+        const summary = await this.store(legacy, pin);
+        this.discardLegacyProfile();
+        return summary;
+    }
+
+    public discardLegacyProfile(): void {
+        this.storage.removeItem(LEGACY_STORAGE_KEY);
+    }
+
+    public async unlockProfile(id: string, pin: string): Promise<RememberedCredentials> {
+        return CredentialVault.open(this.find(id), pin);
+    }
+
+    public forgetProfile(id: string): void {
+        this.write(profiles => profiles.filter(profile => profile.id !== id));
+    }
+
+    // Re-encrypts a profile under a new PIN with a fresh salt and IV.
+    public async rotateProfile(id: string, currentPin: string, newPin: string): Promise<void> {
+        checkPin(newPin);
+        const stored = this.find(id);
+        const secret = await CredentialVault.open(stored, currentPin);
+        const rotated = await CredentialVault.seal(id, stored.label, secret, newPin);
+        this.write(profiles => profiles.map(profile => profile.id === id ? rotated : profile));
+    }
+
+    private async store(secret: RememberedCredentials, pin: string): Promise<VaultProfileSummary> {
+        checkPin(pin);
+        const label = `${secret.username} @ ${secret.accountName}`;
+        const existing = this.read().profiles.find(profile => profile.label === label);
+        const profile = await CredentialVault.seal(existing?.id ?? crypto.randomUUID(), label, secret, pin);
+        this.write(profiles => [...profiles.filter(p => p.id !== profile.id), profile]);
+        return { id: profile.id, label, hasPassword: profile.hasPassword, savedAt: profile.savedAt };
+    }
+
+    private find(id: string): StoredProfile {
+        const profile = this.read().profiles.find(p => p.id === id);
+        if (!profile) {
+            throw new CredentialVaultError('This saved profile no longer exists.');
+        }
+        return profile;
+    }
+
+    private read(): StoredVault {
+        const raw = this.storage.getItem(STORAGE_KEY);
+        if (!raw) return { version: 1, profiles: [] };
+        try {
+            const parsed = JSON.parse(raw);
+            if (parsed?.version === 1 && Array.isArray(parsed.profiles)) {
+                return parsed as StoredVault;
+            }
+        } catch (e) {
+            // Fall through and start over with an empty vault.
+        }
+        console.error('Discarding unreadable credential vault.');
+        this.storage.removeItem(STORAGE_KEY);
+        return { version: 1, profiles: [] };
+    }
+
+    private write(update: (profiles: StoredProfile[]) => StoredProfile[]): void {
+        const vault: StoredVault = { version: 1, profiles: update(this.read().profiles) };
+        if (vault.profiles.length === 0) {
+            this.storage.removeItem(STORAGE_KEY);
+        } else {
+            this.storage.setItem(STORAGE_KEY, JSON.stringify(vault));
+        }
+    }
+
+    private static async seal(id: string, label: string, secret: RememberedCredentials, pin: string): Promise<StoredProfile> {
+        const salt = crypto.getRandomValues(new Uint8Array(16));
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const key = await deriveKey(pin, salt, PBKDF2_ITERATIONS);
+        // The profile ID is bound as additional data so ciphertexts cannot be swapped between profiles.
+        const ciphertext = await subtleCrypto().encrypt(
+            { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(id) },
+            key,
+            new TextEncoder().encode(JSON.stringify(secret))
+        );
+        return {
+            id,
+            label,
+            hasPassword: secret.password !== undefined,
+            savedAt: Date.now(),
+            salt: toBase64(salt),
+            iv: toBase64(iv),
+            iterations: PBKDF2_ITERATIONS,
+            ciphertext: toBase64(new Uint8Array(ciphertext)),
+        };
+    }
+
+    private static async open(profile: StoredProfile, pin: string): Promise<RememberedCredentials> {
+        const key = await deriveKey(pin, fromBase64(profile.salt), profile.iterations);
+        try {
+            const plaintext = await subtleCrypto().decrypt(
+                { name: 'AES-GCM', iv: fromBase64(profile.iv), additionalData: new TextEncoder().encode(profile.id) },
+                key,
+                fromBase64(profile.ciphertext)
+            );
+            return JSON.parse(new TextDecoder().decode(plaintext)) as RememberedCredentials;
+        } catch (e) {
+            throw new CredentialVaultError('Wrong PIN or passphrase.');
+        }
+    }
+}
@@ -0,0 +1,112 @@
+import { HistoricalDataPoint } from '../types';
+import { displayTimeZone, formatDateTime, temperatureUnitLabel, toDisplayTemperature } from './preferences';
+import { resamplePoints } from './resampling';
+import { VehicleReport, toCsv, vehicleFileName } from './reports';
+import { TRACK_FORMAT_LABELS, TRACK_MIME_TYPES, TrackFormat, isTrackFormat, trackDocument, trackPoints } from './trackExport';
+
+// Spreadsheet exports of the loaded range: one row per point, one column per temperature sensor and door.
+// The track formats carry the same values per positioned point.
+
+export type ExportFormat = 'csv' | 'xlsx' | TrackFormat;
+
+export interface ExportOptions {
+    format: ExportFormat;
+    // Null exports the points as fetched; otherwise one row per interval with the state at its start.
+    intervalMinutes: number | null;
+    // The step points getHistoricalData inserts before every change only repeat the previous state.
+    includeCarriedForward: boolean;
+}
+
+export interface ExportTable {
+    head: string[];
+    rows: (string | number | null)[][];
+}
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+    csv: 'CSV',
+    xlsx: 'Excel (XLSX)',
+    ...TRACK_FORMAT_LABELS,
+};
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = { format: 'xlsx', intervalMinutes: null, includeCarriedForward: false };
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+    csv: 'text/csv;charset=utf-8',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    ...TRACK_MIME_TYPES,
+};
+
+export const exportPoints = (report: VehicleReport, options: ExportOptions): HistoricalDataPoint[] => {
+    const points = options.includeCarriedForward ? report.points : report.points.filter(point => !point.carriedForward);
+    const rows = options.intervalMinutes === null
+        ? points
+        : resamplePoints(points, options.intervalMinutes, displayTimeZone(report.preferences));
+    return isTrackFormat(options.format) ? trackPoints(rows) : rows;
+};
+
+// Temperatures are numbers in the display unit, so spreadsheets can calculate with them.
+export const exportTable = (report: VehicleReport, options: ExportOptions): ExportTable => {
+    const { sensorIds, sensorInfo, doorSensorIds, doorInfo, preferences } = report;
+    const unit = temperatureUnitLabel(preferences);
+    const head = [
+        'Timestamp',
+        ...sensorIds.map(id => `${sensorInfo.get(id)} (${unit})`),
+        ...doorSensorIds.map(id => doorInfo.get(id)!),
+        'Latitude',
+        'Longitude',
+        'Address',
+    ];
+
+    const rows = exportPoints(report, options).map(point => [
+        formatDateTime(point.timestamp, preferences, true),
+        ...sensorIds.map(id => {
+            const temp = point.temperatures?.[id];
+            return typeof temp?.value === 'number' ? Number(toDisplayTemperature(temp.value, preferences).toFixed(preferences.decimals)) : null;
+        }),
+        ...doorSensorIds.map(id => {
+            const status = point.doorStatus?.[id];
+            return status === 1 ? 'Open' : (status === 0 ? 'Closed' : null);
+        }),
+        point.location ? Number(point.location.lat.toFixed(6)) : null,
+        point.location ? Number(point.location.lng.toFixed(6)) : null,
+        point.location ? point.location.address : null,
+    ]);
+    return { head, rows };
+};
+
+const xlsxWorkbook = async (table: ExportTable): Promise<ArrayBuffer> => {
+    // Loaded on demand; most sessions never export a spreadsheet.
+    const XLSX = await import('xlsx');
+    const sheet = XLSX.utils.aoa_to_sheet([table.head, ...table.rows]);
+    sheet['!cols'] = table.head.map((title, index) => ({ wch: index === table.head.length - 1 ? 50 : Math.max(12, title.length + 2) }));
+    const book = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(book, sheet, 'Data');
+    return XLSX.write(book, { type: 'array', bookType: 'xlsx' });
+};
+
+export const exportHistoricalData = async (report: VehicleReport, options: ExportOptions): Promise<Blob> => {
+    const { format } = options;
+    if (isTrackFormat(format)) {
+        const { vehicle, rangeLabel, sensorIds, sensorInfo, doorSensorIds, doorInfo, preferences } = report;
+        const track = { name: `${vehicle.name}, ${rangeLabel}`, points: exportPoints(report, options), sensorIds, sensorInfo, doorSensorIds, doorInfo, preferences };
+        return new Blob([trackDocument(track, format)], { type: MIME_TYPES[format] });
+    }
+    const table = exportTable(report, options);
+    // The byte order mark makes Excel read the CSV as UTF-8, so unit symbols and addresses survive.
+    const content = format === 'csv' ? `\uFEFF${toCsv(table.head, table.rows)}` : await xlsxWorkbook(table);
+    return new Blob([content], { type: MIME_TYPES[format] });
+};
+
+export const exportFileName = (report: VehicleReport, options: ExportOptions): string => {
+    const prefix = isTrackFormat(options.format) ? 'track' : 'data';
+    return vehicleFileName(options.intervalMinutes === null ? prefix : `${prefix}-${options.intervalMinutes}min`, report, options.format);
+};
+
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
@@ -0,0 +1,26 @@
+import { DataGap, HistoricalAction, HistoricalWindow } from '../types';
+import { DisplayPreferences, formatDateTime } from './preferences';
+
+export const HISTORICAL_ACTION_LABELS: Record<HistoricalAction, string> = {
+    getHistoricalTemperatureData: 'Temperature',
+    getHistoricalRefrigeratedDoorStatusData: 'Door status',
+    showTracks: 'Position',
+};
+
+export const formatGapWindow = (window: HistoricalWindow, preferences?: DisplayPreferences): string => {
+    if (window.rangePattern || window.startTime === null || window.endTime === null) {
+        return 'the entire selected range';
+    }
+    const format = (timestamp: number) => preferences ? formatDateTime(timestamp, preferences) : new Date(timestamp).toLocaleString();
+    return `${format(window.startTime)} to ${format(window.endTime)}`;
+};
+
+export const describeGap = (gap: DataGap, preferences?: DisplayPreferences): string =>
+    `${HISTORICAL_ACTION_LABELS[gap.action]} data missing for ${formatGapWindow(gap, preferences)}`;
+
+export const gapsForActions = (gaps: DataGap[], actions: HistoricalAction[]): DataGap[] =>
+    gaps.filter(gap => actions.includes(gap.action));
+
+// Whether the gap touches the window from `from` to `to`; gaps without boundaries stand for the entire range.
+export const gapOverlaps = (gap: DataGap, from: number, to: number): boolean =>
+    gap.rangePattern !== null || ((gap.startTime === null || gap.startTime <= to) && (gap.endTime === null || gap.endTime > from));
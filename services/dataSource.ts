@@ -0,0 +1,57 @@
+import { AuthCredentials, Vehicle, VehicleUpdate, HistoricalDataResult, TimeRange, Trip } from '../types';
+import { SensorRegistry } from './sensorRegistry';
+
+export interface HistoricalDataOptions {
+    objectuid: string;
+    rangePattern?: string;
+    startTime?: number;
+    endTime?: number;
+}
+
+export interface HistoricalProgress {
+    completedChunks: number;
+    totalChunks: number;
+}
+
+export interface FetchControl {
+    signal?: AbortSignal;
+    onProgress?: (progress: HistoricalProgress) => void;
+    maxConcurrentChunks?: number;
+}
+
+// Milliseconds since the epoch, as Date.now.
+export type Clock = () => number;
+
+export const systemClock: Clock = () => Date.now();
+
+// One pop off the message queue. Webfleet sends every message class, so `received` counts all messages
+// taken off the queue, including those that carried nothing of interest or failed validation; they are
+// acknowledged all the same, or the queue would hand out the same batch again.
+export interface QueueBatch {
+    updates: VehicleUpdate[];
+    received: number;
+}
+
+export interface FleetDataSource {
+    readonly sensors: SensorRegistry;
+    // The time ranges like "Today" are resolved against; replays run on the recording's clock.
+    now(): number;
+    getVehiclesAndAssets(auth: AuthCredentials, signal?: AbortSignal): Promise<Vehicle[]>;
+    getHistoricalData(auth: AuthCredentials, options: HistoricalDataOptions, control?: FetchControl): Promise<HistoricalDataResult>;
+    retryHistoricalGaps(auth: AuthCredentials, previous: HistoricalDataResult, control?: FetchControl): Promise<HistoricalDataResult>;
+    getTrips(auth: AuthCredentials, objectuid: string, range: string | TimeRange, signal?: AbortSignal): Promise<Trip[]>;
+    createMessageQueue(auth: AuthCredentials, signal?: AbortSignal): Promise<void>;
+    popQueueMessages(auth: AuthCredentials, signal?: AbortSignal): Promise<QueueBatch>;
+    ackQueueMessages(auth: AuthCredentials, signal?: AbortSignal): Promise<void>;
+}
+
+// One signed-in Webfleet account of the workspace and the data source that talks to it.
+export interface AccountConnection<S extends FleetDataSource = FleetDataSource> {
+    auth: AuthCredentials;
+    dataSource: S;
+}
+
+export const connectionForVehicle = <S extends FleetDataSource>(connections: AccountConnection<S>[], vehicle: Vehicle): AccountConnection<S> | null =>
+    connections.find(connection => connection.auth.accountName === vehicle.account) ?? null;
+
+export type DataSourceMode = 'live' | 'recording' | 'replay';
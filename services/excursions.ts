@@ -0,0 +1,150 @@
+import { HistoricalDataPoint } from '../types';
+import { TemperatureLimit, isOutOfRange } from './temperatureLimits';
+
+export interface Excursion {
+    sensorId: number;
+    direction: 'above' | 'below';
+    // The limit that was crossed, in Celsius.
+    limit: number;
+    startTime: number;
+    // First in-range reading after the excursion, or the last reading when the data ends out of range.
+    endTime: number;
+    durationMs: number;
+    // Highest reading above the maximum, or lowest reading below the minimum, in Celsius.
+    peak: number;
+    peakTime: number;
+    // True while the excursion was still going on when the data ended.
+    ongoing: boolean;
+    // Excursions shorter than the limit's tolerance are recorded but not counted as violations.
+    tolerated: boolean;
+}
+
+type OpenExcursion = Omit<Excursion, 'endTime' | 'durationMs' | 'ongoing' | 'tolerated'> & { toleranceMs: number };
+
+const close = (open: OpenExcursion, endTime: number, ongoing: boolean): Excursion => {
+    const { toleranceMs, ...excursion } = open;
+    const durationMs = endTime - open.startTime;
+    return { ...excursion, endTime, durationMs, ongoing, tolerated: durationMs <= toleranceMs };
+};
+
+const sameLimit = (a: TemperatureLimit | null, b: TemperatureLimit | null): boolean =>
+    a === b || (!!a && !!b && a.min === b.min && a.max === b.max && a.toleranceMinutes === b.toleranceMinutes);
+
+// Historical points carry the last reading of every sensor forward, so each point holds the value
+// that applied from its timestamp until the next one. Limits may change over time, for example when
+// another product is loaded; an excursion then ends where its limit stops applying.
+export const detectExcursions = (
+    points: HistoricalDataPoint[],
+    sensorIds: number[],
+    limitFor: (sensorId: number, timestamp: number) => TemperatureLimit | null
+): Excursion[] => {
+    const excursions: Excursion[] = [];
+
+    sensorIds.forEach(sensorId => {
+        let open: OpenExcursion | null = null;
+        let openLimit: TemperatureLimit | null = null;
+        let lastTimestamp: number | null = null;
+        for (const point of points) {
+            const value = point.temperatures?.[sensorId]?.value;
+            if (typeof value !== 'number') continue;
+            lastTimestamp = point.timestamp;
+
+            const limit = limitFor(sensorId, point.timestamp);
+            const direction = limit ? isOutOfRange(value, limit) : null;
+            if (open && (open.direction !== direction || !sameLimit(openLimit, limit))) {
+                excursions.push(close(open, point.timestamp, false));
+                open = null;
+            }
+            if (!direction || !limit) continue;
+
+            if (!open) {
+                openLimit = limit;
+                open = {
+                    sensorId,
+                    direction,
+                    limit: direction === 'above' ? limit.max! : limit.min!,
+                    startTime: point.timestamp,
+                    peak: value,
+                    peakTime: point.timestamp,
+                    toleranceMs: limit.toleranceMinutes * 60 * 1000,
+                };
+            } else if (direction === 'above' ? value > open.peak : value < open.peak) {
+                open.peak = value;
+                open.peakTime = point.timestamp;
+            }
+        }
+        if (open && lastTimestamp !== null) {
+            excursions.push(close(open, lastTimestamp, true));
+        }
+    });
+
+    return excursions.sort((a, b) => a.startTime - b.startTime);
+};
+
+export const violations = (excursions: Excursion[]): Excursion[] => excursions.filter(excursion => !excursion.tolerated);
+
+export const excursionStatus = (excursion: Excursion): string =>
+    excursion.ongoing ? 'Ongoing' : (excursion.tolerated ? 'Tolerated' : 'Violation');
+
+export interface DoorOpening {
+    doorId: number;
+    startTime: number;
+    endTime: number;
+    durationMs: number;
+    ongoing: boolean;
+    // How long the door was allowed to stay open when it was opened; null when unrestricted.
+    allowedMs: number | null;
+    exceeded: boolean;
+}
+
+export const detectDoorOpenings = (
+    points: HistoricalDataPoint[],
+    doorIds: number[],
+    allowedMinutesAt: (timestamp: number) => number | null
+): DoorOpening[] => {
+    const openings: DoorOpening[] = [];
+
+    doorIds.forEach(doorId => {
+        let openedAt: number | null = null;
+        let lastTimestamp: number | null = null;
+        const closeOpening = (endTime: number, ongoing: boolean) => {
+            const allowedMinutes = allowedMinutesAt(openedAt!);
+            const allowedMs = allowedMinutes === null ? null : allowedMinutes * 60 * 1000;
+            const durationMs = endTime - openedAt!;
+            openings.push({ doorId, startTime: openedAt!, endTime, durationMs, ongoing, allowedMs, exceeded: allowedMs !== null && durationMs > allowedMs });
+            openedAt = null;
+        };
+
+        for (const point of points) {
+            const status = point.doorStatus?.[doorId];
+            if (status === undefined) continue;
+            lastTimestamp = point.timestamp;
+            if (status === 1 && openedAt === null) openedAt = point.timestamp;
+            if (status === 0 && openedAt !== null) closeOpening(point.timestamp, false);
+        }
+        if (openedAt !== null && lastTimestamp !== null) closeOpening(lastTimestamp, true);
+    });
+
+    return openings.sort((a, b) => a.startTime - b.startTime);
+};
+
+export const doorOpeningStatus = (opening: DoorOpening): string => {
+    if (opening.exceeded) return opening.ongoing ? 'Open too long' : 'Exceeded';
+    return opening.ongoing ? 'Open' : 'Within allowance';
+};
+
+export interface ComplianceVerdict {
+    compliant: boolean;
+    temperatureViolations: number;
+    doorViolations: number;
+}
+
+export const complianceVerdict = (excursions: Excursion[], doorOpenings: DoorOpening[]): ComplianceVerdict => {
+    const temperatureViolations = violations(excursions).length;
+    const doorViolations = doorOpenings.filter(opening => opening.exceeded).length;
+    return { compliant: temperatureViolations === 0 && doorViolations === 0, temperatureViolations, doorViolations };
+};
+
+export const describeVerdict = (verdict: ComplianceVerdict): string => verdict.compliant
+    ? 'Compliant'
+    : `Not compliant: ${verdict.temperatureViolations} temperature and ${verdict.doorViolations} door violation(s)`;
@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AuthCredentials, VehicleUpdate } from '../types';
+import { ApiTransport } from './apiTransport';
+import { LiveFleetUpdater } from './liveUpdates';
+import { RequestScheduler } from './requestScheduler';
+import WebfleetService from './webfleetService';
+
+const auth: AuthCredentials = { apiKey: 'key', accountName: 'account', username: 'user', password: 'secret' };
+
+test('a queue batch without vehicle data is still acknowledged', async () => {
+    // An ignition message and one that fails validation: neither becomes an update.
+    const batches = [JSON.stringify([{ objectuid: '1-1', msg_time: '2026-03-01T10:00:00Z', msgtext: 'Ignition on' }, { msg_time: 'yesterday' }])];
+    let acks = 0;
+    let ackedSignal: () => void = () => {};
+    const wasAcked = new Promise<void>(resolve => { ackedSignal = resolve; });
+    const webfleet: ApiTransport = {
+        send: async action => {
+            if (action === 'popQueueMessagesExtern') return { status: 200, errorMessage: null, body: batches.shift() ?? '[]' };
+            if (action === 'ackQueueMessagesExtern') {
+                acks++;
+                ackedSignal();
+            }
+            return { status: 200, errorMessage: null, body: '[]' };
+        },
+    };
+    const updates: VehicleUpdate[] = [];
+    const updater = new LiveFleetUpdater(
+        new WebfleetService(webfleet, new RequestScheduler({ quotas: null, wait: () => Promise.resolve() })),
+        auth,
+        { onUpdates: batch => updates.push(...batch), onSnapshot: () => {}, onStatus: () => {} },
+        { queueIntervalMs: 1, pollIntervalMs: 1, errorBackoffMs: 1 }
+    );
+
+    updater.start();
+    await Promise.race([wasAcked, new Promise(resolve => setTimeout(resolve, 1000))]);
+    updater.stop();
+
+    assert.deepEqual(updates, []);
+    assert.equal(acks, 1);
+});
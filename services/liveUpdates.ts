@@ -0,0 +1,142 @@
+import { AuthCredentials, LiveUpdateStatus, Vehicle, VehicleUpdate } from '../types';
+import { FleetDataSource } from './dataSource';
+import { abortableWait, isAbortError } from './concurrency';
+import { WebfleetAuthError, WebfleetFeatureNotLicensedError, WebfleetObjectNotFoundError } from './webfleetErrors';
+
+export interface LiveUpdateOptions {
+    queueIntervalMs: number;
+    pollIntervalMs: number;
+    errorBackoffMs: number;
+}
+
+export interface LiveUpdateHandlers {
+    onUpdates: (updates: VehicleUpdate[]) => void;
+    onSnapshot: (vehicles: Vehicle[]) => void;
+    onStatus: (status: LiveUpdateStatus) => void;
+    onError?: (error: unknown) => void;
+}
+
+export const DEFAULT_LIVE_UPDATE_OPTIONS: LiveUpdateOptions = {
+    queueIntervalMs: 15 * 1000,
+    pollIntervalMs: 60 * 1000,
+    errorBackoffMs: 30 * 1000,
+};
+
+const STATUS_SEVERITY: LiveUpdateStatus[] = ['live', 'polling', 'connecting', 'offline'];
+
+// The workspace follows several accounts at once; the header shows the least healthy connection.
+export const combineLiveStatuses = (statuses: LiveUpdateStatus[]): LiveUpdateStatus | null => {
+    if (statuses.length === 0) return null;
+    return statuses.reduce((worst, status) =>
+        STATUS_SEVERITY.indexOf(status) > STATUS_SEVERITY.indexOf(worst) ? status : worst
+    );
+};
+
+// Identifies a vehicle across the workspace; two accounts can hold objects with the same uid.
+export const vehicleKey = (vehicle: { account: string; uid: string }): string => `${vehicle.account}|${vehicle.uid}`;
+
+export const applyVehicleUpdates = (vehicles: Vehicle[], updates: VehicleUpdate[]): Vehicle[] => {
+    if (updates.length === 0) return vehicles;
+
+    const updatesByKey = new Map<string, VehicleUpdate[]>();
+    updates.forEach(update => {
+        const key = vehicleKey(update);
+        if (!updatesByKey.has(key)) updatesByKey.set(key, []);
+        updatesByKey.get(key)!.push(update);
+    });
+
+    return vehicles.map(vehicle => {
+        const vehicleUpdates = updatesByKey.get(vehicleKey(vehicle));
+        if (!vehicleUpdates) return vehicle;
+
+        return [...vehicleUpdates]
+            .sort((a, b) => a.timestamp - b.timestamp)
+            .reduce<Vehicle>((current, update) => ({
+                ...current,
+                temperatures: update.temperatures ? { ...(current.temperatures || {}), ...update.temperatures } : current.temperatures,
+                doorStatus: update.doorStatus ? { ...(current.doorStatus || {}), ...update.doorStatus } : current.doorStatus,
+                location: update.location ?? current.location,
+            }), vehicle);
+    });
+};
+
+// Follows the account's message queue and falls back to polling the fleet report when queues are unavailable.
+export class LiveFleetUpdater {
+    private controller: AbortController | null = null;
+
+    constructor(
+        private readonly source: FleetDataSource,
+        private readonly auth: AuthCredentials,
+        private readonly handlers: LiveUpdateHandlers,
+        private readonly options: LiveUpdateOptions = DEFAULT_LIVE_UPDATE_OPTIONS
+    ) {}
+
+    public start(): void {
+        if (this.controller) return;
+        this.controller = new AbortController();
+        this.run(this.controller.signal);
+    }
+
+    public stop(): void {
+        this.controller?.abort();
+        this.controller = null;
+    }
+
+    private async run(signal: AbortSignal): Promise<void> {
+        this.handlers.onStatus('connecting');
+        let useQueue = await this.openQueue(signal);
+
+        while (!signal.aborted) {
+            try {
+                if (useQueue) {
+                    const { updates, received } = await this.source.popQueueMessages(this.auth, signal);
+                    if (updates.length > 0) this.handlers.onUpdates(updates);
+                    if (received > 0) await this.source.ackQueueMessages(this.auth, signal);
+                    this.handlers.onStatus('live');
+                    await abortableWait(this.options.queueIntervalMs, signal);
+                } else {
+                    const vehicles = await this.source.getVehiclesAndAssets(this.auth, signal);
+                    this.handlers.onSnapshot(vehicles);
+                    this.handlers.onStatus('polling');
+                    await abortableWait(this.options.pollIntervalMs, signal);
+                }
+            } catch (error) {
+                if (signal.aborted || isAbortError(error)) return;
+                this.handlers.onError?.(error);
+
+                if (error instanceof WebfleetAuthError) {
+                    this.handlers.onStatus('offline');
+                    return;
+                }
+                if (useQueue && error instanceof WebfleetObjectNotFoundError) {
+                    // Webfleet drops queues that are not read for a while; open a new one.
+                    useQueue = await this.openQueue(signal);
+                    continue;
+                }
+                if (useQueue && error instanceof WebfleetFeatureNotLicensedError) {
+                    useQueue = false;
+                    continue;
+                }
+
+                this.handlers.onStatus('offline');
+                try {
+                    await abortableWait(this.options.errorBackoffMs, signal);
+                } catch (waitError) {
+                    return;
+                }
+            }
+        }
+    }
+
+    private async openQueue(signal: AbortSignal): Promise<boolean> {
+        try {
+            await this.source.createMessageQueue(this.auth, signal);
+            return true;
+        } catch (error) {
+            if (!isAbortError(error)) {
+                console.warn('[LiveFleetUpdater] Message queue unavailable, falling back to polling.', error);
+            }
+            return false;
+        }
+    }
+}
@@ -0,0 +1,157 @@
+import { ALERT_KIND_LABELS, AlertCondition, conditionKey } from './alertRules';
+import { DisplayPreferences, formatDuration, formatTemperature } from './preferences';
+
+// One occurrence of a condition, from when it started to hold until it cleared.
+export interface Alert extends AlertCondition {
+    id: string;
+    key: string;
+    raisedAt: number;
+    resolvedAt: number | null;
+    acknowledgedAt: number | null;
+    snoozedUntil: number | null;
+}
+
+type Listener = () => void;
+
+const STORAGE_KEY = 'alerts';
+const MAX_ALERTS = 200;
+
+export const SNOOZE_OPTIONS_MINUTES = [15, 60, 240];
+
+export const needsAttention = (alert: Alert, now: number = Date.now()): boolean =>
+    alert.resolvedAt === null
+    && alert.acknowledgedAt === null
+    && (alert.snoozedUntil === null || alert.snoozedUntil <= now);
+
+export const describeAlert = (alert: Alert, preferences: DisplayPreferences, now: number = Date.now()): string => {
+    const subject = alert.sensorName ? `${alert.vehicleName}, ${alert.sensorName}` : alert.vehicleName;
+    const lasting = formatDuration(Math.max(0, (alert.resolvedAt ?? now) - alert.since) / 1000);
+    switch (alert.kind) {
+        case 'temperatureOutOfRange': {
+            const reading = alert.value !== null ? ` at ${formatTemperature(alert.value, preferences)}` : '';
+            const bounds = alert.limit
+                ? ` (limit ${[alert.limit.min, alert.limit.max].map(v => v === null ? '-' : formatTemperature(v, preferences)).join(' to ')})`
+                : '';
+            return `${subject}: out of range${reading}${bounds} for ${lasting}`;
+        }
+        case 'doorOpenTooLong':
+            return `${subject}: open for ${lasting}`;
+        case 'sensorSilent':
+            return `${subject}: no reading for ${lasting}`;
+        case 'movingWithDoorOpen':
+            return `${subject}: vehicle moving with the door open`;
+    }
+};
+
+export const alertTitle = (alert: Alert): string => ALERT_KIND_LABELS[alert.kind];
+
+// Keeps raised alerts across reloads so acknowledgements and snoozes stick.
+export class NotificationCenter {
+    private readonly listeners = new Set<Listener>();
+
+    constructor(private readonly storage: Storage = localStorage) {}
+
+    public list(): Alert[] {
+        return [...this.read()].sort((a, b) => b.raisedAt - a.raisedAt);
+    }
+
+    public pendingCount(now: number = Date.now()): number {
+        return this.read().filter(alert => needsAttention(alert, now)).length;
+    }
+
+    // Opens an alert for every condition not already open, refreshes the open ones and resolves the rest.
+    // Returns the alerts that were raised just now.
+    public update(conditions: AlertCondition[], now: number = Date.now()): Alert[] {
+        const alerts = this.read();
+        const open = new Map(alerts.filter(alert => alert.resolvedAt === null).map(alert => [alert.key, alert]));
+        const raised: Alert[] = [];
+        let changed = false;
+
+        conditions.forEach(condition => {
+            const key = conditionKey(condition);
+            const existing = open.get(key);
+            if (existing) {
+                if (existing.value !== condition.value) {
+                    existing.value = condition.value;
+                    changed = true;
+                }
+                open.delete(key);
+                return;
+            }
+            const alert: Alert = {
+                ...condition,
+                id: crypto.randomUUID(),
+                key,
+                raisedAt: now,
+                resolvedAt: null,
+                acknowledgedAt: null,
+                snoozedUntil: null,
+            };
+            alerts.push(alert);
+            raised.push(alert);
+            changed = true;
+        });
+        open.forEach(alert => {
+            alert.resolvedAt = now;
+            changed = true;
+        });
+
+        if (changed) this.write(alerts);
+        return raised;
+    }
+
+    public acknowledge(id: string, now: number = Date.now()): void {
+        this.change(alert => alert.id === id, alert => ({ ...alert, acknowledgedAt: now }));
+    }
+
+    public acknowledgeAll(now: number = Date.now()): void {
+        this.change(alert => alert.acknowledgedAt === null, alert => ({ ...alert, acknowledgedAt: now }));
+    }
+
+    public snooze(id: string, minutes: number, now: number = Date.now()): void {
+        this.change(alert => alert.id === id, alert => ({ ...alert, snoozedUntil: now + minutes * 60 * 1000 }));
+    }
+
+    public clearResolved(): void {
+        this.write(this.read().filter(alert => alert.resolvedAt === null));
+    }
+
+    // Signing out of an account takes its alerts along, so the next user of the computer does not see them.
+    public forgetAccount(accountName: string): void {
+        this.write(this.read().filter(alert => alert.accountName !== accountName));
+    }
+
+    public subscribe(listener: Listener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private change(matches: (alert: Alert) => boolean, apply: (alert: Alert) => Alert): void {
+        this.write(this.read().map(alert => matches(alert) ? apply(alert) : alert));
+    }
+
+    private read(): Alert[] {
+        const raw = this.storage.getItem(STORAGE_KEY);
+        if (!raw) return [];
+        try {
+            return JSON.parse(raw) as Alert[];
+        } catch (e) {
+            console.error('Failed to parse saved alerts', e);
+            return [];
+        }
+    }
+
+    // The oldest resolved alerts make way first once the history is full.
+    private write(alerts: Alert[]): void {
+        let kept = alerts;
+        if (kept.length > MAX_ALERTS) {
+            const resolved = kept.filter(alert => alert.resolvedAt !== null).sort((a, b) => a.raisedAt - b.raisedAt);
+            const drop = new Set(resolved.slice(0, kept.length - MAX_ALERTS).map(alert => alert.id));
+            kept = kept.filter(alert => !drop.has(alert.id));
+        }
+        this.storage.setItem(STORAGE_KEY, JSON.stringify(kept));
+        this.listeners.forEach(listener => listener());
+    }
+}
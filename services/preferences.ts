@@ -0,0 +1,144 @@
+import { AuthCredentials, Vehicle } from '../types';
+import { UTC, browserTimeZone, formatTimeZoneLabel, zonedParts } from './timeZones';
+import { vehicleKey } from './liveUpdates';
+
+export type TemperatureUnit = 'C' | 'F';
+export type DateFormat = 'iso' | 'dmy' | 'mdy';
+export type ClockFormat = '24h' | '12h';
+export type TimeZoneMode = 'account' | 'depot' | 'utc';
+
+export interface DisplayPreferences {
+    temperatureUnit: TemperatureUnit;
+    decimals: number;
+    dateFormat: DateFormat;
+    clock: ClockFormat;
+    timeZoneMode: TimeZoneMode;
+    // IANA zones keyed by account name and by vehicleKey; missing entries fall back to this browser's zone.
+    accountTimeZones: Record<string, string>;
+    depotTimeZones: Record<string, string>;
+    // The zone the formatters render in, resolved per view with withTimeZone. Never saved.
+    timeZone?: string;
+}
+
+export const DEFAULT_PREFERENCES: DisplayPreferences = {
+    temperatureUnit: 'C',
+    decimals: 1,
+    dateFormat: 'iso',
+    clock: '24h',
+    timeZoneMode: 'account',
+    accountTimeZones: {},
+    depotTimeZones: {},
+};
+
+export const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+    iso: 'YYYY-MM-DD',
+    dmy: 'DD/MM/YYYY',
+    mdy: 'MM/DD/YYYY',
+};
+
+export const TIME_ZONE_MODE_LABELS: Record<TimeZoneMode, string> = {
+    account: 'Account time zone',
+    depot: 'Home depot time zone',
+    utc: 'UTC',
+};
+
+const STORAGE_PREFIX = 'preferences:';
+
+const storageKey = (identity: AuthCredentials): string => `${STORAGE_PREFIX}${identity.accountName}|${identity.username}`;
+
+// Depot zones used to be keyed by the vehicle uid alone; those were set for the account that owns the
+// preferences.
+const migrateDepotTimeZones = (zones: Record<string, string>, accountName: string): Record<string, string> =>
+    Object.fromEntries(Object.entries(zones).map(([key, zone]) => [key.includes('|') ? key : vehicleKey({ account: accountName, uid: key }), zone]));
+
+export const loadPreferences = (identity: AuthCredentials, storage: Storage = localStorage): DisplayPreferences => {
+    const raw = storage.getItem(storageKey(identity));
+    if (!raw) return DEFAULT_PREFERENCES;
+    try {
+        const saved = { ...DEFAULT_PREFERENCES, ...JSON.parse(raw) };
+        return { ...saved, depotTimeZones: migrateDepotTimeZones(saved.depotTimeZones, identity.accountName) };
+    } catch (e) {
+        console.error('Failed to parse saved preferences', e);
+        return DEFAULT_PREFERENCES;
+    }
+};
+
+export const savePreferences = (identity: AuthCredentials, preferences: DisplayPreferences, storage: Storage = localStorage): void => {
+    const { timeZone, ...saved } = preferences;
+    storage.setItem(storageKey(identity), JSON.stringify(saved));
+};
+
+export const accountTimeZone = (preferences: DisplayPreferences, accountName: string): string =>
+    preferences.accountTimeZones[accountName] || browserTimeZone();
+
+// A vehicle without a configured depot zone runs on its account's zone.
+export const resolveTimeZone = (preferences: DisplayPreferences, accountName: string, vehicle?: Vehicle): string => {
+    switch (preferences.timeZoneMode) {
+        case 'utc':
+            return UTC;
+        case 'depot':
+            return (vehicle && preferences.depotTimeZones[vehicleKey(vehicle)]) || accountTimeZone(preferences, vehicle?.account ?? accountName);
+        default:
+            return accountTimeZone(preferences, vehicle?.account ?? accountName);
+    }
+};
+
+export const withTimeZone = (preferences: DisplayPreferences, timeZone: string): DisplayPreferences => ({ ...preferences, timeZone });
+
+export const displayTimeZone = (preferences: DisplayPreferences): string => preferences.timeZone ?? browserTimeZone();
+
+export const formatTimeZone = (preferences: DisplayPreferences, timestamp?: number): string =>
+    formatTimeZoneLabel(displayTimeZone(preferences), timestamp);
+
+// Webfleet always reports Celsius; everything shown or exported is converted here.
+export const toDisplayTemperature = (celsius: number, preferences: DisplayPreferences): number =>
+    preferences.temperatureUnit === 'F' ? celsius * 9 / 5 + 32 : celsius;
+
+export const fromDisplayTemperature = (value: number, preferences: DisplayPreferences): number =>
+    preferences.temperatureUnit === 'F' ? (value - 32) * 5 / 9 : value;
+
+export const temperatureUnitLabel = (preferences: DisplayPreferences): string =>
+    preferences.temperatureUnit === 'F' ? '°F' : '°C';
+
+export const formatTemperatureValue = (celsius: number, preferences: DisplayPreferences): string =>
+    toDisplayTemperature(celsius, preferences).toFixed(preferences.decimals);
+
+export const formatTemperature = (celsius: number, preferences: DisplayPreferences): string =>
+    `${formatTemperatureValue(celsius, preferences)}${temperatureUnitLabel(preferences)}`;
+
+export const formatDuration = (seconds: number): string => {
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    return `${h > 0 ? `${h}h ` : ''}${m}m`;
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+export const formatDate = (timestamp: number, preferences: DisplayPreferences): string => {
+    const d = zonedParts(timestamp, displayTimeZone(preferences));
+    const yyyy = d.year;
+    const mm = pad(d.month);
+    const dd = pad(d.day);
+    switch (preferences.dateFormat) {
+        case 'dmy':
+            return `${dd}/${mm}/${yyyy}`;
+        case 'mdy':
+            return `${mm}/${dd}/${yyyy}`;
+        default:
+            return `${yyyy}-${mm}-${dd}`;
+    }
+};
+
+export const formatTime = (timestamp: number, preferences: DisplayPreferences, withSeconds = false): string => {
+    const d = zonedParts(timestamp, displayTimeZone(preferences));
+    const minutes = pad(d.minute);
+    const seconds = withSeconds ? `:${pad(d.second)}` : '';
+    if (preferences.clock === '12h') {
+        const hours = d.hour % 12 || 12;
+        return `${hours}:${minutes}${seconds} ${d.hour < 12 ? 'AM' : 'PM'}`;
+    }
+    return `${pad(d.hour)}:${minutes}${seconds}`;
+};
+
+export const formatDateTime = (timestamp: number, preferences: DisplayPreferences, withSeconds = false): string =>
+    `${formatDate(timestamp, preferences)} ${formatTime(timestamp, preferences, withSeconds)}`;
@@ -0,0 +1,187 @@
+import { TemperatureLimit, VehicleLimits, limitForSensor } from './temperatureLimits';
+
+const STORAGE_KEY = 'productProfiles';
+
+// A kind of load and how it has to be kept. The limit's tolerance is the alarm delay.
+export interface ProductProfile {
+    id: string;
+    name: string;
+    limit: TemperatureLimit;
+    // Longest a door may stay open in one go; null when door openings are not restricted.
+    doorOpenMinutes: number | null;
+    builtIn?: boolean;
+}
+
+// What a vehicle carried between startTime and endTime (null while still loaded).
+// Without a compartment the profile applies to every sensor of the vehicle.
+export interface ProfileAssignment {
+    id: string;
+    accountName: string;
+    vehicleUid: string;
+    profileId: string;
+    compartment: string | null;
+    startTime: number;
+    endTime: number | null;
+}
+
+interface StoredLibrary {
+    version: 1;
+    profiles: ProductProfile[];
+    assignments: ProfileAssignment[];
+}
+
+type Listener = () => void;
+
+export const BUILT_IN_PROFILES: ProductProfile[] = [
+    { id: 'frozen', name: 'Frozen', limit: { min: null, max: -18, toleranceMinutes: 30 }, doorOpenMinutes: 10, builtIn: true },
+    { id: 'chilled', name: 'Chilled', limit: { min: 0, max: 4, toleranceMinutes: 15 }, doorOpenMinutes: 15, builtIn: true },
+    { id: 'pharma-cold', name: 'Pharma 2-8 °C', limit: { min: 2, max: 8, toleranceMinutes: 5 }, doorOpenMinutes: 5, builtIn: true },
+    { id: 'pharma-ambient', name: 'Pharma 15-25 °C', limit: { min: 15, max: 25, toleranceMinutes: 10 }, doorOpenMinutes: 10, builtIn: true },
+    { id: 'bananas', name: 'Bananas', limit: { min: 12, max: 14, toleranceMinutes: 30 }, doorOpenMinutes: 20, builtIn: true },
+];
+
+export class ProfileLibraryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProfileLibraryError';
+    }
+}
+
+const overlaps = (a: { startTime: number; endTime: number | null }, b: { startTime: number; endTime: number | null }): boolean =>
+    a.startTime < (b.endTime ?? Infinity) && b.startTime < (a.endTime ?? Infinity);
+
+// Keeps the product profiles and the record of which vehicle carried which product when.
+export class ProfileLibrary {
+    private readonly listeners = new Set<Listener>();
+
+    constructor(private readonly storage: Storage = localStorage) {}
+
+    public listProfiles(): ProductProfile[] {
+        return [...BUILT_IN_PROFILES, ...this.read().profiles];
+    }
+
+    public getProfile(id: string): ProductProfile | null {
+        return this.listProfiles().find(profile => profile.id === id) ?? null;
+    }
+
+    public saveProfile(profile: Omit<ProductProfile, 'id' | 'builtIn'> & { id?: string }): ProductProfile {
+        if (profile.id && BUILT_IN_PROFILES.some(builtIn => builtIn.id === profile.id)) {
+            throw new ProfileLibraryError('Built-in profiles cannot be changed. Save a copy under a new name instead.');
+        }
+        const name = profile.name.trim();
+        if (!name) throw new ProfileLibraryError('Give the profile a name.');
+        if (profile.limit.min === null && profile.limit.max === null) {
+            throw new ProfileLibraryError('A profile needs a minimum or a maximum temperature.');
+        }
+
+        const library = this.read();
+        const saved: ProductProfile = { ...profile, id: profile.id ?? crypto.randomUUID(), name };
+        library.profiles = [...library.profiles.filter(p => p.id !== saved.id), saved];
+        this.write(library);
+        return saved;
+    }
+
+    public removeProfile(id: string): void {
+        const library = this.read();
+        if (library.assignments.some(assignment => assignment.profileId === id)) {
+            throw new ProfileLibraryError('The profile is still assigned to a vehicle. Remove those assignments first.');
+        }
+        library.profiles = library.profiles.filter(profile => profile.id !== id);
+        this.write(library);
+    }
+
+    public listAssignments(accountName: string, vehicleUid: string): ProfileAssignment[] {
+        return this.read().assignments
+            .filter(assignment => assignment.accountName === accountName && assignment.vehicleUid === vehicleUid)
+            .sort((a, b) => a.startTime - b.startTime);
+    }
+
+    public assign(assignment: Omit<ProfileAssignment, 'id'>): ProfileAssignment {
+        if (!this.getProfile(assignment.profileId)) {
+            throw new ProfileLibraryError('The selected profile no longer exists.');
+        }
+        if (assignment.endTime !== null && assignment.endTime <= assignment.startTime) {
+            throw new ProfileLibraryError('The load must end after it starts.');
+        }
+        const library = this.read();
+        const clash = library.assignments.find(existing =>
+            existing.accountName === assignment.accountName
+            && existing.vehicleUid === assignment.vehicleUid
+            && existing.compartment === assignment.compartment
+            && overlaps(existing, assignment)
+        );
+        if (clash) {
+            throw new ProfileLibraryError(`${assignment.compartment ?? 'The vehicle'} already carries ${this.getProfile(clash.profileId)?.name ?? 'another profile'} during that time.`);
+        }
+
+        const saved: ProfileAssignment = { ...assignment, id: crypto.randomUUID() };
+        library.assignments = [...library.assignments, saved];
+        this.write(library);
+        return saved;
+    }
+
+    public unassign(id: string): void {
+        const library = this.read();
+        library.assignments = library.assignments.filter(assignment => assignment.id !== id);
+        this.write(library);
+    }
+
+    public subscribe(listener: Listener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private read(): StoredLibrary {
+        const raw = this.storage.getItem(STORAGE_KEY);
+        if (!raw) return { version: 1, profiles: [], assignments: [] };
+        try {
+            return JSON.parse(raw) as StoredLibrary;
+        } catch (e) {
+            console.error('Failed to parse the product profile library', e);
+            return { version: 1, profiles: [], assignments: [] };
+        }
+    }
+
+    private write(library: StoredLibrary): void {
+        this.storage.setItem(STORAGE_KEY, JSON.stringify(library));
+        this.listeners.forEach(listener => listener());
+    }
+}
+
+// The assignment covering a sensor at a moment: one for its compartment first, then one for the whole vehicle.
+export const assignmentAt = (
+    assignments: ProfileAssignment[],
+    timestamp: number,
+    compartment: string | null
+): ProfileAssignment | null => {
+    const covering = assignments.filter(a => a.startTime <= timestamp && (a.endTime === null || timestamp < a.endTime));
+    return (compartment !== null ? covering.find(a => a.compartment === compartment) : undefined)
+        ?? covering.find(a => a.compartment === null)
+        ?? null;
+};
+
+// Limits follow the product that was loaded; outside assigned windows the vehicle's own limits apply.
+export const limitResolver = (
+    limits: VehicleLimits,
+    assignments: ProfileAssignment[],
+    profiles: Map<string, ProductProfile>
+) => (sensorId: number, timestamp: number): TemperatureLimit | null => {
+    const compartment = limits.compartments.find(c => c.sensorIds.includes(sensorId))?.name ?? null;
+    const assignment = assignmentAt(assignments, timestamp, compartment);
+    const profile = assignment ? profiles.get(assignment.profileId) : undefined;
+    return profile ? profile.limit : limitForSensor(limits, sensorId);
+};
+
+// Doors are shared by every compartment, so the strictest profile loaded at the time decides.
+export const doorAllowanceResolver = (
+    assignments: ProfileAssignment[],
+    profiles: Map<string, ProductProfile>
+) => (timestamp: number): number | null => {
+    const allowances = assignments
+        .filter(a => a.startTime <= timestamp && (a.endTime === null || timestamp < a.endTime))
+        .map(a => profiles.get(a.profileId)?.doorOpenMinutes)
+        .filter((minutes): minutes is number => typeof minutes === 'number');
+    return allowances.length > 0 ? Math.min(...allowances) : null;
+};
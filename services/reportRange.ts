@@ -0,0 +1,83 @@
+import { TimeRange } from '../types';
+import { resolveRangePattern, zonedParts } from './timeZones';
+
+export type RangeSelection =
+    | { kind: 'pattern'; rangePattern: string }
+    | { kind: 'relative'; hours: number }
+    | { kind: 'custom'; startTime: number; endTime: number };
+
+export const RANGE_PATTERN_OPTIONS = [
+    { value: 'd0', label: 'Today' },
+    { value: 'd-1', label: 'Yesterday' },
+    { value: 'wf0', label: 'Last 7 Days' },
+    { value: 'w0', label: 'Current Week' },
+    { value: 'w-1', label: 'Last Week' },
+    { value: 'm0', label: 'Current Month' },
+    { value: 'm-1', label: 'Last Month' },
+];
+
+export const RELATIVE_RANGE_HOURS = [6, 12, 24, 48, 72];
+
+export const DEFAULT_RANGE_PATTERN = 'd0';
+
+export const DEFAULT_RANGE: RangeSelection = { kind: 'pattern', rangePattern: DEFAULT_RANGE_PATTERN };
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export class InvalidRangeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidRangeError';
+    }
+}
+
+export const customRange = (startTime: number, endTime: number): RangeSelection => {
+    if (!Number.isFinite(startTime) || !Number.isFinite(endTime)) {
+        throw new InvalidRangeError('Enter both the start and the end of the range.');
+    }
+    if (endTime <= startTime) {
+        throw new InvalidRangeError('The end of the range must be after its start.');
+    }
+    return { kind: 'custom', startTime, endTime };
+};
+
+// Relative ranges end at the moment they are resolved, so resolve once per fetch and keep the result.
+// Returns null only for range patterns this app cannot resolve itself, which Webfleet then resolves.
+export const resolveRange = (selection: RangeSelection, timeZone: string, now: number = Date.now()): TimeRange | null => {
+    switch (selection.kind) {
+        case 'relative':
+            return { startTime: now - selection.hours * HOUR_MS, endTime: now };
+        case 'custom':
+            return { startTime: selection.startTime, endTime: selection.endTime };
+        default:
+            return resolveRangePattern(selection.rangePattern, timeZone, now);
+    }
+};
+
+// What to ask Webfleet for: the resolved boundaries, or the range pattern when only Webfleet can resolve it.
+export const rangeRequest = (selection: RangeSelection, range: TimeRange | null): string | TimeRange =>
+    range ?? (selection.kind === 'pattern' ? selection.rangePattern : DEFAULT_RANGE_PATTERN);
+
+export const rangeSelectionLabel = (selection: RangeSelection): string => {
+    switch (selection.kind) {
+        case 'relative':
+            return `Last ${selection.hours} hours`;
+        case 'custom':
+            return 'Custom range';
+        default:
+            return RANGE_PATTERN_OPTIONS.find(option => option.value === selection.rangePattern)?.label ?? selection.rangePattern;
+    }
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const fileStamp = (timestamp: number, timeZone: string): string => {
+    const p = zonedParts(timestamp, timeZone);
+    return `${p.year}${pad(p.month)}${pad(p.day)}-${pad(p.hour)}${pad(p.minute)}`;
+};
+
+// File names carry the resolved boundaries on the report's wall clock, e.g. 20260324-2200_20260326-0600.
+export const rangeFileSuffix = (selection: RangeSelection, range: TimeRange | null, timeZone: string): string =>
+    range
+        ? `${fileStamp(range.startTime, timeZone)}_${fileStamp(range.endTime, timeZone)}`
+        : (selection.kind === 'pattern' ? selection.rangePattern : 'range');
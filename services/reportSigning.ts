@@ -0,0 +1,404 @@
+import qrcode from 'qrcode-generator';
+import { DataGap, HistoricalDataPoint, TimeRange } from '../types';
+import { ReportKind, VehicleReport } from './reports';
+
+// Tamper-evident PDF reports. Each report carries a signed statement of what it covers (vehicle, range,
+// generation time and a SHA-256 hash of the data behind it) in a QR code and in the PDF metadata, and a
+// second signature over the finished file. Both use an ECDSA P-256 key kept in this browser.
+
+const STORAGE_KEY = 'reportSigningKey';
+const TRUSTED_KEYS_KEY = 'trustedReportKeys';
+const KEY_FILE_FORMAT = 'cold-chain-report-key';
+
+const PAYLOAD_PREFIX = 'CCR1';
+const PAYLOAD_PATTERN = /CCR1\.([A-Za-z0-9_-]+)\.([A-Za-z0-9_-]+)/;
+const DOCUMENT_MARKER = 'CCRDOC.';
+// A P-256 signature is 64 bytes, 86 characters in base64url; the placeholder keeps the file length.
+const SIGNATURE_LENGTH = 86;
+const DOCUMENT_PLACEHOLDER = '0'.repeat(SIGNATURE_LENGTH);
+const DOCUMENT_PATTERN = new RegExp(`${DOCUMENT_MARKER.replace('.', '\\.')}([A-Za-z0-9_-]{${SIGNATURE_LENGTH}})`);
+
+const KEY_ALGORITHM: EcKeyImportParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGNATURE_ALGORITHM: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+const QR_SIZE_MM = 30;
+const PAGE_MARGIN_MM = 14;
+
+// What a report says about itself; signed as-is and shown by the verification screen.
+export interface ReportStatement {
+    v: 1;
+    kind: ReportKind;
+    objectuid: string;
+    vehicle: string;
+    account: string;
+    // The fetched boundaries; null when Webfleet resolved a range pattern.
+    range: TimeRange | null;
+    generatedAt: number;
+    points: number;
+    // SHA-256, hex, of the points and gaps the report was built from.
+    dataHash: string;
+    keyId: string;
+}
+
+export interface SigningKey {
+    keyId: string;
+    privateKey: CryptoKey;
+    publicKey: CryptoKey;
+    publicJwk: JsonWebKey;
+    createdAt: number;
+}
+
+export interface TrustedKey {
+    keyId: string;
+    label: string;
+    publicJwk: JsonWebKey;
+    addedAt: number;
+}
+
+interface StoredSigningKey {
+    version: 1;
+    keyId: string;
+    privateJwk: JsonWebKey;
+    publicJwk: JsonWebKey;
+    createdAt: number;
+}
+
+export type CheckStatus = 'passed' | 'failed' | 'skipped';
+
+export interface VerificationCheck {
+    label: string;
+    status: CheckStatus;
+    detail: string;
+}
+
+export interface ReportVerification {
+    statement: ReportStatement;
+    // The label of the key that signed, when it is this browser's or a trusted one.
+    signer: string | null;
+    checks: VerificationCheck[];
+    valid: boolean;
+}
+
+export class ReportSignatureError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ReportSignatureError';
+    }
+}
+
+const subtleCrypto = (): SubtleCrypto => {
+    if (typeof crypto === 'undefined' || !crypto.subtle) {
+        throw new ReportSignatureError('Signing reports needs WebCrypto, which this browser only offers on HTTPS pages.');
+    }
+    return crypto.subtle;
+};
+
+const toHex = (buffer: ArrayBuffer): string =>
+    Array.from(new Uint8Array(buffer)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+const toBase64Url = (bytes: Uint8Array): string =>
+    btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string): Uint8Array => {
+    const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+    return Uint8Array.from(atob(base64 + '='.repeat((4 - base64.length % 4) % 4)), c => c.charCodeAt(0));
+};
+
+// PDF bytes as a string with one character per byte, so string offsets are byte offsets.
+const byteString = (bytes: Uint8Array): string => {
+    let text = '';
+    for (let start = 0; start < bytes.length; start += 8192) {
+        text += String.fromCharCode(...bytes.subarray(start, start + 8192));
+    }
+    return text;
+};
+
+// JSON with object keys sorted at every level, so the same data always hashes the same.
+const canonicalJson = (value: unknown): string => {
+    if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+    if (value !== null && typeof value === 'object') {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, item]) => item !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+};
+
+const sha256Hex = async (text: string): Promise<string> =>
+    toHex(await subtleCrypto().digest('SHA-256', new TextEncoder().encode(text)));
+
+// The points inserted to draw steps repeat their neighbours, so only Webfleet's own readings are hashed.
+export const reportDataHash = (points: HistoricalDataPoint[], gaps: DataGap[]): Promise<string> =>
+    sha256Hex(canonicalJson({ points: points.filter(point => !point.carriedForward), gaps }));
+
+// The first 16 hex digits of the SHA-256 of the public key, printed on reports and shown when verifying.
+const publicKeyId = async (jwk: JsonWebKey): Promise<string> =>
+    (await sha256Hex(canonicalJson({ crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y }))).slice(0, 16);
+
+const importPublicKey = (jwk: JsonWebKey): Promise<CryptoKey> =>
+    subtleCrypto().importKey('jwk', jwk, KEY_ALGORITHM, true, ['verify']);
+
+// The signing key of this browser and the public keys of other installations whose reports it accepts.
+export class ReportKeyring {
+    private key: Promise<SigningKey> | null = null;
+
+    constructor(private readonly storage: Storage = localStorage) {}
+
+    // Created on first use; reports signed with an earlier key only verify where that key is trusted.
+    public signingKey(): Promise<SigningKey> {
+        if (!this.key) {
+            this.key = this.loadKey().catch(error => {
+                this.key = null;
+                throw error;
+            });
+        }
+        return this.key;
+    }
+
+    public async regenerate(): Promise<SigningKey> {
+        this.storage.removeItem(STORAGE_KEY);
+        this.key = null;
+        return this.signingKey();
+    }
+
+    public async exportPublicKey(label: string): Promise<string> {
+        const key = await this.signingKey();
+        return JSON.stringify({ format: KEY_FILE_FORMAT, keyId: key.keyId, label, publicKey: key.publicJwk, createdAt: key.createdAt }, null, 2);
+    }
+
+    public listTrustedKeys(): TrustedKey[] {
+        const raw = this.storage.getItem(TRUSTED_KEYS_KEY);
+        if (!raw) return [];
+        try {
+            return JSON.parse(raw);
+        } catch (e) {
+            console.error('Failed to parse trusted report keys', e);
+            return [];
+        }
+    }
+
+    // Takes a file written by exportPublicKey; the key ID is recomputed rather than taken from the file.
+    public async trustKey(fileContents: string): Promise<TrustedKey> {
+        let file: any;
+        try {
+            file = JSON.parse(fileContents);
+        } catch {
+            throw new ReportSignatureError('The key file is not valid JSON.');
+        }
+        if (file?.format !== KEY_FILE_FORMAT || typeof file.publicKey !== 'object') {
+            throw new ReportSignatureError('This is not a report signing key exported from Cold Chain.');
+        }
+        try {
+            await importPublicKey(file.publicKey);
+        } catch {
+            throw new ReportSignatureError('The key file does not hold a valid P-256 public key.');
+        }
+        const keyId = await publicKeyId(file.publicKey);
+        const trusted: TrustedKey = {
+            keyId,
+            label: typeof file.label === 'string' && file.label.trim() ? file.label.trim() : keyId,
+            publicJwk: file.publicKey,
+            addedAt: Date.now(),
+        };
+        this.saveTrustedKeys([...this.listTrustedKeys().filter(key => key.keyId !== keyId), trusted]);
+        return trusted;
+    }
+
+    public removeTrustedKey(keyId: string): void {
+        this.saveTrustedKeys(this.listTrustedKeys().filter(key => key.keyId !== keyId));
+    }
+
+    // The public key and label for a key ID, or null when the key is neither this browser's nor trusted.
+    public async findPublicKey(keyId: string): Promise<{ label: string; publicKey: CryptoKey } | null> {
+        const own = await this.signingKey();
+        if (own.keyId === keyId) return { label: 'This browser', publicKey: own.publicKey };
+        const trusted = this.listTrustedKeys().find(key => key.keyId === keyId);
+        return trusted ? { label: trusted.label, publicKey: await importPublicKey(trusted.publicJwk) } : null;
+    }
+
+    private saveTrustedKeys(keys: TrustedKey[]): void {
+        this.storage.setItem(TRUSTED_KEYS_KEY, JSON.stringify(keys));
+    }
+
+    private async loadKey(): Promise<SigningKey> {
+        const subtle = subtleCrypto();
+        const raw = this.storage.getItem(STORAGE_KEY);
+        if (raw) {
+            try {
+                const stored: StoredSigningKey = JSON.parse(raw);
+                return {
+                    keyId: stored.keyId,
+                    privateKey: await subtle.importKey('jwk', stored.privateJwk, KEY_ALGORITHM, false, ['sign']),
+                    publicKey: await importPublicKey(stored.publicJwk),
+                    publicJwk: stored.publicJwk,
+                    createdAt: stored.createdAt,
+                };
+            } catch (e) {
+                console.error('Failed to load the report signing key, creating a new one', e);
+            }
+        }
+
+        const pair = await subtle.generateKey(KEY_ALGORITHM, true, ['sign', 'verify']) as CryptoKeyPair;
+        const privateJwk = await subtle.exportKey('jwk', pair.privateKey);
+        const publicJwk = await subtle.exportKey('jwk', pair.publicKey);
+        const stored: StoredSigningKey = { version: 1, keyId: await publicKeyId(publicJwk), privateJwk, publicJwk, createdAt: Date.now() };
+        this.storage.setItem(STORAGE_KEY, JSON.stringify(stored));
+        return { keyId: stored.keyId, privateKey: pair.privateKey, publicKey: pair.publicKey, publicJwk, createdAt: stored.createdAt };
+    }
+}
+
+const sign = async (key: SigningKey, data: Uint8Array): Promise<string> =>
+    toBase64Url(new Uint8Array(await subtleCrypto().sign(SIGNATURE_ALGORITHM, key.privateKey, data)));
+
+const verify = (publicKey: CryptoKey, signature: string, data: Uint8Array): Promise<boolean> =>
+    subtleCrypto().verify(SIGNATURE_ALGORITHM, publicKey, fromBase64Url(signature), data);
+
+// "CCR1.<statement>.<signature>", both base64url; the signature covers the encoded statement.
+export const signStatement = async (statement: ReportStatement, key: SigningKey): Promise<string> => {
+    const encoded = toBase64Url(new TextEncoder().encode(JSON.stringify(statement)));
+    return `${PAYLOAD_PREFIX}.${encoded}.${await sign(key, new TextEncoder().encode(encoded))}`;
+};
+
+const drawQrCode = (doc: any, payload: string, x: number, y: number, size: number): void => {
+    const qr = qrcode(0, 'M');
+    qr.addData(payload);
+    qr.make();
+    const count = qr.getModuleCount();
+    const cell = size / count;
+    doc.setFillColor(0, 0, 0);
+    // One rectangle per run of dark modules keeps the page small.
+    for (let row = 0; row < count; row++) {
+        for (let col = 0; col < count; col++) {
+            if (!qr.isDark(row, col)) continue;
+            const start = col;
+            while (col + 1 < count && qr.isDark(row, col + 1)) col++;
+            doc.rect(x + start * cell, y + row * cell, (col - start + 1) * cell, cell, 'F');
+        }
+    }
+};
+
+// The QR code in the top right corner of the first page and the signature line at the foot of every page.
+const drawSignatureMarks = (doc: any, payload: string, statement: ReportStatement): void => {
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.height;
+    const pageCount = doc.getNumberOfPages();
+    for (let page = 1; page <= pageCount; page++) {
+        doc.setPage(page);
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(7);
+        doc.setTextColor(100, 100, 100);
+        doc.text(
+            `Signed report | Data SHA-256 ${statement.dataHash.slice(0, 16)}... | Key ${statement.keyId} | Check it with Verify report in Cold Chain`,
+            PAGE_MARGIN_MM,
+            pageHeight - 6
+        );
+    }
+    doc.setPage(1);
+    const x = pageWidth - PAGE_MARGIN_MM - QR_SIZE_MM;
+    drawQrCode(doc, payload, x, 8, QR_SIZE_MM);
+    doc.setFontSize(6);
+    doc.text('Signed report payload', x + QR_SIZE_MM / 2, 8 + QR_SIZE_MM + 3, { align: 'center' });
+    doc.setTextColor(0, 0, 0);
+    doc.setPage(pageCount);
+};
+
+// Signs a rendered report and returns the PDF bytes. The payload goes into the document keywords next to a
+// placeholder, which is then overwritten with a signature over the whole file, placeholder included.
+export const signReportPdf = async (
+    doc: any,
+    report: VehicleReport,
+    kind: ReportKind,
+    keyring: ReportKeyring,
+    generatedAt: number
+): Promise<Uint8Array> => {
+    const key = await keyring.signingKey();
+    const statement: ReportStatement = {
+        v: 1,
+        kind,
+        objectuid: report.vehicle.uid,
+        vehicle: report.vehicle.name,
+        account: report.vehicle.account,
+        range: report.range,
+        generatedAt,
+        points: report.points.filter(point => !point.carriedForward).length,
+        dataHash: await reportDataHash(report.points, report.gaps),
+        keyId: key.keyId,
+    };
+    const payload = await signStatement(statement, key);
+    drawSignatureMarks(doc, payload, statement);
+    doc.setProperties({ keywords: `${payload} ${DOCUMENT_MARKER}${DOCUMENT_PLACEHOLDER}` });
+
+    const bytes = new Uint8Array(doc.output('arraybuffer'));
+    const offset = byteString(bytes).indexOf(`${DOCUMENT_MARKER}${DOCUMENT_PLACEHOLDER}`) + DOCUMENT_MARKER.length;
+    if (offset < DOCUMENT_MARKER.length) {
+        throw new ReportSignatureError('The signature placeholder is missing from the generated PDF.');
+    }
+    const signature = await sign(key, bytes);
+    bytes.set(new TextEncoder().encode(signature), offset);
+    return bytes;
+};
+
+const parseStatement = (encoded: string): ReportStatement => {
+    try {
+        const statement = JSON.parse(new TextDecoder().decode(fromBase64Url(encoded)));
+        if (statement?.v === 1 && typeof statement.keyId === 'string' && typeof statement.dataHash === 'string') {
+            return statement;
+        }
+    } catch {
+        // Reported below.
+    }
+    throw new ReportSignatureError('The signed payload is damaged or was not written by Cold Chain.');
+};
+
+// Takes the PDF bytes, or the payload from its QR code or keywords. A payload alone proves what the report
+// claims to cover; only the file proves its pages were not edited.
+export const verifyReport = async (input: Uint8Array | string, keyring: ReportKeyring): Promise<ReportVerification> => {
+    const isFile = typeof input !== 'string';
+    const text = isFile ? byteString(input) : input.trim();
+    const payload = PAYLOAD_PATTERN.exec(text);
+    if (!payload) {
+        throw new ReportSignatureError(isFile
+            ? 'This PDF does not carry a report signature. Only reports downloaded from the vehicle view are signed.'
+            : `Paste the whole payload, starting with ${PAYLOAD_PREFIX}.`);
+    }
+    const [, encoded, statementSignature] = payload;
+    const statement = parseStatement(encoded);
+    const signer = await keyring.findPublicKey(statement.keyId);
+
+    const checks: VerificationCheck[] = [];
+    checks.push(signer
+        ? { label: 'Signing key', status: 'passed', detail: `Key ${statement.keyId} (${signer.label}).` }
+        : { label: 'Signing key', status: 'failed', detail: `Key ${statement.keyId} is not trusted here. Import the signer's public key to check this report.` });
+
+    const statementValid = signer !== null && await verify(signer.publicKey, statementSignature, new TextEncoder().encode(encoded));
+    checks.push(!signer
+        ? { label: 'Report signature', status: 'skipped', detail: 'Needs the signer\'s public key.' }
+        : statementValid
+            ? { label: 'Report signature', status: 'passed', detail: 'The vehicle, range, generation time and data hash are as signed.' }
+            : { label: 'Report signature', status: 'failed', detail: 'The vehicle, range, generation time or data hash was changed after signing.' });
+
+    if (!isFile) {
+        checks.push({ label: 'Document checksum', status: 'skipped', detail: 'Only the payload was checked; verify the PDF itself to check its pages.' });
+    } else {
+        const document = DOCUMENT_PATTERN.exec(text);
+        if (!document) {
+            checks.push({ label: 'Document checksum', status: 'failed', detail: 'The document signature is missing; the PDF was rewritten after signing.' });
+        } else if (!signer) {
+            checks.push({ label: 'Document checksum', status: 'skipped', detail: 'Needs the signer\'s public key.' });
+        } else {
+            const signed = input.slice();
+            signed.set(new TextEncoder().encode(DOCUMENT_PLACEHOLDER), document.index + DOCUMENT_MARKER.length);
+            checks.push(await verify(signer.publicKey, document[1], signed)
+                ? { label: 'Document checksum', status: 'passed', detail: 'The PDF is byte for byte the one that was signed.' }
+                : { label: 'Document checksum', status: 'failed', detail: 'The PDF was edited after signing; its pages may not match the signed data.' });
+        }
+    }
+
+    return {
+        statement,
+        signer: signer?.label ?? null,
+        checks,
+        valid: statementValid && checks.every(check => check.status !== 'failed'),
+    };
+};
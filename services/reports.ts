@@ -0,0 +1,735 @@
+import { DataGap, HistoricalDataPoint, TemperatureReading, TimeRange, Vehicle } from '../types';
+import { SensorRegistry, doorColor, sensorColor } from './sensorRegistry';
+import { gapsForActions, describeGap, gapOverlaps } from './dataGaps';
+import { DisplayPreferences, displayTimeZone, formatDate, formatDateTime, formatDuration, formatTemperature, formatTemperatureValue, formatTime, formatTimeZone, temperatureUnitLabel } from './preferences';
+import { TemperatureLimit, VehicleLimits, limitForSensor } from './temperatureLimits';
+import { ComplianceVerdict, DoorOpening, Excursion, complianceVerdict, describeVerdict, detectDoorOpenings, detectExcursions, doorOpeningStatus, excursionStatus } from './excursions';
+import { ProductProfile, ProfileAssignment, doorAllowanceResolver, limitResolver } from './productProfiles';
+import { RangeSelection, rangeFileSuffix, rangeSelectionLabel } from './reportRange';
+import { resamplePoints } from './resampling';
+import { ThermographTemplate, VehicleCalibrations } from './thermographTemplate';
+
+// The PDF reports of one vehicle's history. Documents are created by the caller, so the browser can use
+// the jsPDF it loads from the CDN and the command line the npm package; both need the autoTable plugin.
+
+export type ReportKind = 'thermograph' | 'door' | 'full';
+
+export const REPORT_KIND_LABELS: Record<ReportKind, string> = {
+    thermograph: 'Thermograph Report',
+    door: 'Door Report',
+    full: 'Full Report',
+};
+
+const REPORT_FILE_PREFIXES: Record<ReportKind, string> = {
+    thermograph: 'thermograph-report',
+    door: 'door-report',
+    full: 'report',
+};
+
+export class ReportDataError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ReportDataError';
+    }
+}
+
+export interface ReportInput {
+    vehicle: Vehicle;
+    points: HistoricalDataPoint[];
+    gaps: DataGap[];
+    selection: RangeSelection;
+    // The boundaries the points were fetched for; null when Webfleet resolved the range pattern.
+    range: TimeRange | null;
+    sensors: SensorRegistry;
+    limits: VehicleLimits;
+    assignments: ProfileAssignment[];
+    profiles: Map<string, ProductProfile>;
+    // Already zoned to the vehicle with withTimeZone.
+    preferences: DisplayPreferences;
+    // Layout of the thermograph ticket and the probes' calibration records printed on it.
+    template: ThermographTemplate;
+    calibrations: VehicleCalibrations;
+}
+
+export interface VehicleReport extends ReportInput {
+    sensorIds: string[];
+    sensorInfo: Map<string, string>;
+    doorSensorIds: string[];
+    doorInfo: Map<string, string>;
+    // Loads that overlap the range; they decide the limits and door allowances within it.
+    loadsInRange: ProfileAssignment[];
+    loadLabels: string[];
+    hasLimits: boolean;
+    excursions: Excursion[];
+    doorOpenings: DoorOpening[];
+    verdict: ComplianceVerdict;
+    rangeLabel: string;
+    sensorLabel: (sensorId: number) => string;
+    doorLabel: (doorId: number) => string;
+}
+
+interface ReportTable {
+    head: string[];
+    // Graph color per column, so tables and charts read the same.
+    headColors: (string | null)[];
+    rows: string[][];
+}
+
+const byNumericId = (a: string, b: string) => parseInt(a, 10) - parseInt(b, 10);
+
+export const buildVehicleReport = (input: ReportInput): VehicleReport => {
+    const { vehicle, points, range, sensors, limits, assignments, profiles, preferences } = input;
+
+    const sensorInfo = new Map<string, string>();
+    const doorInfo = new Map<string, string>();
+    points.forEach(point => {
+        if (point.temperatures) {
+            Object.keys(point.temperatures).forEach(id => {
+                if (!sensorInfo.has(id)) sensorInfo.set(id, sensors.label(vehicle.uid, 'temperature', id));
+            });
+        }
+        if (point.doorStatus) {
+            Object.keys(point.doorStatus).forEach(id => {
+                if (!doorInfo.has(id)) doorInfo.set(id, sensors.label(vehicle.uid, 'door', id));
+            });
+        }
+    });
+    const sensorIds: string[] = [];
+    sensorInfo.forEach((_, id) => sensorIds.push(id));
+    sensorIds.sort(byNumericId);
+    const doorSensorIds: string[] = [];
+    doorInfo.forEach((_, id) => doorSensorIds.push(id));
+    doorSensorIds.sort(byNumericId);
+
+    const loadsInRange = range
+        ? assignments.filter(a => a.startTime < range.endTime && (a.endTime === null || a.endTime > range.startTime))
+        : [];
+    const loadLabels = loadsInRange.map(assignment => {
+        const name = profiles.get(assignment.profileId)?.name ?? 'Removed profile';
+        const where = assignment.compartment ? ` in ${assignment.compartment}` : '';
+        const until = assignment.endTime !== null ? formatDateTime(assignment.endTime, preferences) : 'now';
+        return `${name}${where}, ${formatDateTime(assignment.startTime, preferences)} to ${until}`;
+    });
+    const hasLimits = loadsInRange.length > 0 || sensorIds.some(id => limitForSensor(limits, parseInt(id, 10)) !== null);
+
+    const excursions = detectExcursions(points, sensorIds.map(id => parseInt(id, 10)), limitResolver(limits, assignments, profiles));
+    const doorOpenings = detectDoorOpenings(points, doorSensorIds.map(id => parseInt(id, 10)), doorAllowanceResolver(assignments, profiles));
+
+    const rangeLabel = range
+        ? `${rangeSelectionLabel(input.selection)} (${formatDateTime(range.startTime, preferences)} to ${formatDateTime(range.endTime, preferences)})`
+        : rangeSelectionLabel(input.selection);
+
+    return {
+        ...input,
+        sensorIds,
+        sensorInfo,
+        doorSensorIds,
+        doorInfo,
+        loadsInRange,
+        loadLabels,
+        hasLimits,
+        excursions,
+        doorOpenings,
+        verdict: complianceVerdict(excursions, doorOpenings),
+        rangeLabel,
+        sensorLabel: sensorId => sensorInfo.get(String(sensorId)) ?? sensors.label(vehicle.uid, 'temperature', sensorId),
+        doorLabel: doorId => doorInfo.get(String(doorId)) ?? sensors.label(vehicle.uid, 'door', doorId),
+    };
+};
+
+// File names carry the vehicle and the range boundaries on the report's wall clock.
+export const vehicleFileName = (prefix: string, report: VehicleReport, extension: string): string =>
+    `${prefix}-${report.vehicle.name.replace(/\s/g, '_')}-${rangeFileSuffix(report.selection, report.range, displayTimeZone(report.preferences))}.${extension}`;
+
+export const reportFileName = (kind: ReportKind, report: VehicleReport, extension: 'pdf' | 'csv' = 'pdf'): string =>
+    vehicleFileName(REPORT_FILE_PREFIXES[kind], report, extension);
+
+// Points where any door changed state, plus the point where door data stopped.
+export const doorStatusChanges = (points: HistoricalDataPoint[]): HistoricalDataPoint[] => {
+    const events: HistoricalDataPoint[] = [];
+    let lastKnownStatuses: { [id: number]: 0 | 1 } | null = null;
+
+    for (const point of points) {
+        const currentStatuses = point.doorStatus;
+        if (currentStatuses && Object.keys(currentStatuses).length > 0) {
+            const hasChanged = !lastKnownStatuses ||
+                Object.keys(currentStatuses).some(id => currentStatuses[id] !== lastKnownStatuses?.[id]) ||
+                Object.keys(lastKnownStatuses || {}).length !== Object.keys(currentStatuses).length;
+
+            if (hasChanged) {
+                events.push(point);
+                lastKnownStatuses = { ...(lastKnownStatuses || {}), ...currentStatuses };
+            }
+        } else if (lastKnownStatuses) {
+            events.push(point);
+            lastKnownStatuses = null;
+        }
+    }
+
+    return events;
+};
+
+const doorStatusText = (status: 0 | 1 | undefined): string => status === 1 ? 'Open' : (status === 0 ? 'Closed' : 'N/A');
+
+const temperatureText = (point: HistoricalDataPoint, id: string, preferences: DisplayPreferences, missing = 'N/A'): string => {
+    const temp = point.temperatures?.[id];
+    return typeof temp?.value === 'number' ? formatTemperatureValue(temp.value, preferences) : missing;
+};
+
+const doorReportTable = (report: VehicleReport): ReportTable => {
+    const { points, sensorIds, sensorInfo, doorSensorIds, doorInfo, preferences } = report;
+    let events = doorStatusChanges(points);
+    if (events.length === 0 && doorSensorIds.length > 0) {
+        const firstEvent = points.find(p => p.doorStatus && Object.keys(p.doorStatus).length > 0);
+        if (firstEvent) events = [firstEvent];
+    }
+    if (events.length === 0) {
+        throw new ReportDataError('No door status data found in this period.');
+    }
+
+    const head = ['Timestamp'];
+    const headColors: (string | null)[] = [null];
+    doorSensorIds.forEach(id => {
+        head.push(doorInfo.get(id)!);
+        headColors.push(doorColor(id));
+    });
+    sensorIds.forEach(id => {
+        head.push(`${sensorInfo.get(id)} (${temperatureUnitLabel(preferences)})`);
+        headColors.push(sensorColor(id));
+    });
+    head.push('Location');
+
+    const rows = events.map(item => [
+        formatDateTime(item.timestamp, preferences),
+        ...doorSensorIds.map(id => doorStatusText(item.doorStatus?.[id])),
+        ...sensorIds.map(id => temperatureText(item, id, preferences)),
+        item.location ? item.location.address : 'N/A',
+    ]);
+    return { head, headColors, rows };
+};
+
+const dataLogTable = (report: VehicleReport): ReportTable => {
+    const { points, sensorIds, sensorInfo, doorSensorIds, doorInfo, preferences } = report;
+    const head = ['Timestamp'];
+    const headColors: (string | null)[] = [null];
+    sensorIds.forEach(id => {
+        head.push(`${sensorInfo.get(id)} (${temperatureUnitLabel(preferences)})`);
+        headColors.push(sensorColor(id));
+    });
+    doorSensorIds.forEach(id => {
+        head.push(doorInfo.get(id)!);
+        headColors.push(doorColor(id));
+    });
+    head.push('Location');
+
+    const rows = points.map(item => [
+        formatDateTime(item.timestamp, preferences),
+        ...sensorIds.map(id => temperatureText(item, id, preferences)),
+        ...doorSensorIds.map(id => doorStatusText(item.doorStatus?.[id])),
+        item.location ? item.location.address : 'N/A',
+    ]);
+    return { head, headColors, rows };
+};
+
+// The ticket records every sensor at the template's interval on the report's wall clock, under the sensor
+// names Webfleet reported. The step points inserted before changes only repeat a reading and are left out.
+// A mark is left blank for a sensor when a temperature data gap lies between it and the reading it would
+// repeat, or when the sensor reported nothing more after that reading.
+const thermographReadings = (report: VehicleReport) => {
+    const names = new Map<string, string>();
+    const measured = report.points.filter(p => {
+        if (p.carriedForward || !p.temperatures || Object.keys(p.temperatures).length === 0) return false;
+        Object.keys(p.temperatures).forEach(id => {
+            if (!names.has(id)) names.set(id, p.temperatures![id].name);
+        });
+        return true;
+    });
+    if (measured.length === 0) {
+        throw new ReportDataError('No temperature data available to generate a ticket.');
+    }
+    const ids: string[] = [];
+    names.forEach((_, id) => ids.push(id));
+    const gaps = gapsForActions(report.gaps, ['getHistoricalTemperatureData']);
+    const readAt = (reading: TemperatureReading, point: HistoricalDataPoint) => reading.readAt ?? point.timestamp;
+    const lastReading = new Map<string, number>();
+    measured.forEach(p => Object.entries(p.temperatures!).forEach(([id, reading]) => {
+        lastReading.set(id, Math.max(lastReading.get(id) ?? -Infinity, readAt(reading, p)));
+    }));
+    const recorded = resamplePoints(measured, report.template.intervalMinutes, displayTimeZone(report.preferences)).map(point => {
+        if (!point.temperatures) return point;
+        const temperatures = Object.fromEntries(Object.entries(point.temperatures).filter(([id, reading]) => {
+            const since = readAt(reading, point);
+            return (since === point.timestamp || since < lastReading.get(id)!)
+                && !gaps.some(gap => gapOverlaps(gap, since, point.timestamp));
+        }));
+        return { ...point, temperatures };
+    });
+    // A period shorter than one interval still records its first reading.
+    return { points: recorded.length > 0 ? recorded : [measured[0]], measured, names, ids: ids.sort(byNumericId) };
+};
+
+// Minimum and maximum over every reading, so peaks between two recording marks still show; the mean is
+// taken over the recorded values, which are evenly spaced in time.
+const thermographStatistics = (readings: ReturnType<typeof thermographReadings>) =>
+    readings.ids.map(id => {
+        const all = readings.measured.map(p => p.temperatures?.[id]?.value).filter((v): v is number => typeof v === 'number');
+        const recorded = readings.points.map(p => p.temperatures?.[id]?.value).filter((v): v is number => typeof v === 'number');
+        // Reduced rather than spread into Math.min/max: months of readings exceed the argument limit.
+        return {
+            id,
+            readings: all.length,
+            min: all.length > 0 ? all.reduce((min, v) => Math.min(min, v)) : null,
+            max: all.length > 0 ? all.reduce((max, v) => Math.max(max, v)) : null,
+            mean: recorded.length > 0 ? recorded.reduce((sum, v) => sum + v, 0) / recorded.length : null,
+        };
+    });
+
+// The excursion a recorded value falls in, if any; an ongoing excursion includes its last reading.
+const excursionAt = (excursions: Excursion[], sensorId: number, timestamp: number): Excursion | undefined =>
+    excursions.find(e => e.sensorId === sensorId && e.startTime <= timestamp && (timestamp < e.endTime || (e.ongoing && timestamp === e.endTime)));
+
+const describeLimit = (limit: TemperatureLimit | null, preferences: DisplayPreferences): string => {
+    if (!limit) return '-';
+    const { min, max } = limit;
+    if (min !== null && max !== null) return `${formatTemperature(min, preferences)} to ${formatTemperature(max, preferences)}`;
+    return min !== null ? `>= ${formatTemperature(min, preferences)}` : `<= ${formatTemperature(max!, preferences)}`;
+};
+
+// Every limit a sensor's readings were held to, in order; loads with other product profiles change it within the period.
+const describeSensorLimits = (report: VehicleReport, readings: ReturnType<typeof thermographReadings>, id: string): string => {
+    const limitAt = limitResolver(report.limits, report.assignments, report.profiles);
+    const descriptions = new Set<string>();
+    readings.measured.forEach(point => {
+        if (point.temperatures?.[id]) descriptions.add(describeLimit(limitAt(parseInt(id, 10), point.timestamp), report.preferences));
+    });
+    return descriptions.size > 0 ? [...descriptions].join('; ') : '-';
+};
+
+const addGapWarningToPdf = (doc: any, gaps: DataGap[], x: number, y: number, preferences: DisplayPreferences): number => {
+    if (gaps.length === 0) return y;
+    doc.setTextColor(200, 0, 0);
+    doc.setFontSize(10);
+    doc.text(`WARNING: INCOMPLETE DATA - ${gaps.length} time window(s) could not be retrieved:`, x, y);
+    let currentY = y + 5;
+    gaps.forEach(gap => {
+        doc.text(`- ${describeGap(gap, preferences)}`, x + 2, currentY);
+        currentY += 5;
+    });
+    doc.setTextColor(0, 0, 0);
+    return currentY + 3;
+};
+
+// Lists excursions below y and returns where the next content can start. Callers pass their own table styling.
+const addExcursionSectionToPdf = (
+    doc: any,
+    excursions: Excursion[],
+    sensorLabel: (sensorId: number) => string,
+    y: number,
+    preferences: DisplayPreferences,
+    tableOptions: Record<string, any> = {}
+): number => {
+    let startY = y;
+    if (startY > doc.internal.pageSize.height - 40) {
+        doc.addPage();
+        startY = tableOptions.margin?.top ?? 20;
+    }
+    doc.setFontSize(14);
+    doc.text('Temperature Excursions', 14, startY);
+    if (excursions.length === 0) {
+        doc.setFontSize(10);
+        doc.text('No temperature excursions in this period.', 14, startY + 7);
+        return startY + 14;
+    }
+    doc.autoTable({
+        head: [['Sensor', 'Limit', 'Start', 'End', 'Duration', 'Peak', 'Status']],
+        body: excursions.map(excursion => [
+            sensorLabel(excursion.sensorId),
+            `${excursion.direction === 'above' ? '>' : '<'} ${formatTemperature(excursion.limit, preferences)}`,
+            formatDateTime(excursion.startTime, preferences),
+            formatDateTime(excursion.endTime, preferences),
+            formatDuration(excursion.durationMs / 1000),
+            formatTemperature(excursion.peak, preferences),
+            excursionStatus(excursion),
+        ]),
+        startY: startY + 4,
+        theme: 'grid',
+        headStyles: { fillColor: [228, 0, 43] },
+        ...tableOptions,
+    });
+    return doc.lastAutoTable.finalY + 10;
+};
+
+// Prints the products loaded during the range and the resulting verdict; returns where the next content can start.
+const addComplianceToPdf = (doc: any, verdict: ComplianceVerdict, loads: string[], y: number, topMargin = 20): number => {
+    let currentY = y;
+    if (currentY > doc.internal.pageSize.height - 40) {
+        doc.addPage();
+        currentY = topMargin;
+    }
+    doc.setFontSize(10);
+    loads.forEach(load => {
+        doc.text(`Loaded: ${load}`, 14, currentY);
+        currentY += 5;
+    });
+    if (!verdict.compliant) doc.setTextColor(200, 0, 0);
+    doc.text(`Compliance: ${describeVerdict(verdict)}`, 14, currentY);
+    doc.setTextColor(0, 0, 0);
+    return currentY + 10;
+};
+
+// Lists door openings that a loaded product restricted and returns where the next content can start.
+const addDoorOpeningSectionToPdf = (
+    doc: any,
+    openings: DoorOpening[],
+    doorLabel: (doorId: number) => string,
+    y: number,
+    preferences: DisplayPreferences,
+    tableOptions: Record<string, any> = {}
+): number => {
+    const restricted = openings.filter(opening => opening.allowedMs !== null);
+    if (restricted.length === 0) return y;
+    let startY = y;
+    if (startY > doc.internal.pageSize.height - 40) {
+        doc.addPage();
+        startY = 20;
+    }
+    doc.setFontSize(14);
+    doc.text('Door Openings', 14, startY);
+    doc.autoTable({
+        head: [['Door', 'Opened', 'Closed', 'Duration', 'Allowed', 'Status']],
+        body: restricted.map(opening => [
+            doorLabel(opening.doorId),
+            formatDateTime(opening.startTime, preferences),
+            opening.ongoing ? '-' : formatDateTime(opening.endTime, preferences),
+            formatDuration(opening.durationMs / 1000),
+            formatDuration(opening.allowedMs! / 1000),
+            doorOpeningStatus(opening),
+        ]),
+        startY: startY + 4,
+        theme: 'grid',
+        headStyles: { fillColor: [228, 0, 43] },
+        ...tableOptions,
+    });
+    return doc.lastAutoTable.finalY + 10;
+};
+
+// Tints sensor column headers with the sensor's graph color so tables and charts read the same.
+const colorSensorHeaders = (headColors: (string | null)[]) => (hook: any) => {
+    const color = headColors[hook.column.index];
+    if (hook.section === 'head' && color) {
+        hook.cell.styles.fillColor = color;
+    }
+};
+
+const addReportHeaderToPdf = (doc: any, title: string, report: VehicleReport): void => {
+    doc.setFontSize(22);
+    doc.text(title, 14, 22);
+
+    doc.setFontSize(12);
+    doc.text(`Vehicle: ${report.vehicle.name}`, 14, 32);
+    doc.text(`Date Range: ${report.rangeLabel}`, 14, 38);
+    doc.text(`Time Zone: ${formatTimeZone(report.preferences)}`, 14, 44);
+};
+
+export const renderDoorReport = (doc: any, report: VehicleReport): void => {
+    const { gaps, sensorIds, hasLimits, verdict, loadLabels, doorOpenings, doorLabel, excursions, sensorLabel, preferences } = report;
+    const table = doorReportTable(report);
+    const hasTemperatureData = sensorIds.length > 0;
+
+    addReportHeaderToPdf(doc, 'Door Status Report', report);
+    const reportGaps = hasTemperatureData
+        ? gapsForActions(gaps, ['getHistoricalRefrigeratedDoorStatusData', 'getHistoricalTemperatureData', 'showTracks'])
+        : gapsForActions(gaps, ['getHistoricalRefrigeratedDoorStatusData', 'showTracks']);
+    const tableStartY = Math.max(54, addGapWarningToPdf(doc, reportGaps, 14, 52, preferences));
+
+    doc.autoTable({
+        head: [table.head],
+        body: table.rows,
+        startY: tableStartY,
+        theme: 'grid',
+        headStyles: { fillColor: [34, 139, 34] }, // A green color
+        didParseCell: colorSensorHeaders(table.headColors),
+    });
+
+    let nextY = doc.lastAutoTable.finalY + 12;
+    if (hasLimits) {
+        nextY = addComplianceToPdf(doc, verdict, loadLabels, nextY);
+    }
+    nextY = addDoorOpeningSectionToPdf(doc, doorOpenings, doorLabel, nextY, preferences, { headStyles: { fillColor: [34, 139, 34] } });
+    if (hasTemperatureData && hasLimits) {
+        addExcursionSectionToPdf(doc, excursions, sensorLabel, nextY, preferences, { headStyles: { fillColor: [34, 139, 34] } });
+    }
+};
+
+export const renderThermographTicket = (doc: any, report: VehicleReport, now: number = Date.now()): void => {
+    const { vehicle, gaps, hasLimits, verdict, loadLabels, excursions, sensorLabel, preferences, template, calibrations } = report;
+    const readings = thermographReadings(report);
+    const unit = temperatureUnitLabel(preferences);
+    const { sections } = template;
+
+    const totalPagesExp = '{total_pages_count_string}';
+    const ticketGaps = gapsForActions(gaps, ['getHistoricalTemperatureData']);
+    const left = 14;
+    const topMargin = 65;
+    const bottomMargin = 25;
+    const pageHeight = doc.internal.pageSize.height;
+    const drawnPages = new Set<number>();
+
+    // Every table of the ticket calls this on each page it draws on; autoTable numbers pages per table,
+    // so pages are counted on the document and each gets its header once.
+    const drawTicketPage = () => {
+        const pageNumber = doc.internal.getCurrentPageInfo().pageNumber;
+        if (drawnPages.has(pageNumber)) return;
+        drawnPages.add(pageNumber);
+        doc.setFont('courier', 'bold');
+        doc.setFontSize(16);
+        doc.text('Thermograph Report', left, 20);
+        doc.setFont('courier', 'normal');
+        doc.setFontSize(10);
+        doc.text(`Generated on:    ${formatDateTime(now, preferences, true)}`, left, 28);
+        doc.text(`Time zone:       ${formatTimeZone(preferences)}`, left, 32);
+        doc.text(`Vehicle:         ${vehicle.name}`, left, 38);
+        doc.text(`Company:         ${template.company}`, left, 42);
+        doc.text(`Recorder:        ${template.recorder}`, left, 46);
+        const startStr = formatDateTime(readings.points[0].timestamp, preferences);
+        const endStr = formatDateTime(readings.points[readings.points.length - 1].timestamp, preferences);
+        doc.text(`Report Period:   from ${startStr} to ${endStr}`, left, 52);
+        doc.text(`Interval:        ${template.intervalMinutes} min`, left, 56);
+        if (pageNumber === 1) {
+            addGapWarningToPdf(doc, ticketGaps, left, 62, preferences);
+            doc.setFont('courier', 'normal');
+        }
+
+        if (template.footer) {
+            doc.setFontSize(8);
+            doc.text(template.footer, left, pageHeight - 20);
+        }
+        doc.setFontSize(9);
+        doc.text(`Page ${pageNumber} of ${totalPagesExp}`, left, pageHeight - 15);
+    };
+
+    const tableOptions = {
+        theme: 'plain',
+        styles: { font: 'courier', fontSize: 9, cellPadding: 0.8 },
+        headStyles: { fontStyle: 'normal', lineWidth: { bottom: 0.2 }, lineColor: [0, 0, 0], fillColor: [255, 255, 255], textColor: [0, 0, 0] },
+        margin: { top: topMargin, bottom: bottomMargin },
+        didDrawPage: drawTicketPage,
+    };
+
+    // Starts a titled section at y, on a new page when fewer than `needed` millimetres remain.
+    const startSection = (title: string, y: number, needed = 30): number => {
+        let currentY = y;
+        if (currentY + needed > pageHeight - bottomMargin) {
+            doc.addPage();
+            drawTicketPage();
+            currentY = topMargin;
+        }
+        doc.setFont('courier', 'bold');
+        doc.setFontSize(11);
+        doc.text(title, left, currentY);
+        doc.setFont('courier', 'normal');
+        return currentY + 2;
+    };
+
+    drawTicketPage();
+    let y = ticketGaps.length > 0 ? 62 + (ticketGaps.length + 1) * 5 + 3 : topMargin;
+
+    if (sections.statistics) {
+        y = startSection('Period Statistics', y);
+        doc.autoTable({
+            ...tableOptions,
+            head: [['Sensor', 'Readings', `Min (${unit})`, `Max (${unit})`, `Mean (${unit})`]],
+            body: thermographStatistics(readings).map(stat => [
+                readings.names.get(stat.id),
+                String(stat.readings),
+                stat.min !== null ? formatTemperatureValue(stat.min, preferences) : '-',
+                stat.max !== null ? formatTemperatureValue(stat.max, preferences) : '-',
+                stat.mean !== null ? formatTemperatureValue(stat.mean, preferences) : '-',
+            ]),
+            startY: y,
+        });
+        y = doc.lastAutoTable.finalY + 8;
+    }
+
+    if (sections.sensors) {
+        y = startSection('Sensors', y);
+        doc.autoTable({
+            ...tableOptions,
+            head: [['Sensor', 'Serial no.', 'Calibrated', 'Due', 'Certificate', 'Accuracy', 'Limit']],
+            body: readings.ids.map(id => {
+                const calibration = calibrations[parseInt(id, 10)];
+                return [
+                    readings.names.get(id),
+                    calibration?.serialNumber || '-',
+                    calibration?.calibratedOn || '-',
+                    calibration?.calibrationDue || '-',
+                    calibration?.certificate || '-',
+                    calibration?.accuracy || '-',
+                    describeSensorLimits(report, readings, id),
+                ];
+            }),
+            startY: y,
+        });
+        y = doc.lastAutoTable.finalY + 8;
+    }
+
+    if (sections.readings) {
+        let marked = false;
+        let lastDate = '';
+        const tableRows = readings.points.map((point, index) => {
+            const currentDate = formatDate(point.timestamp, preferences);
+            let dateString = formatTime(point.timestamp, preferences);
+            if (currentDate !== lastDate) {
+                dateString = `${currentDate} ${dateString}`;
+                lastDate = currentDate;
+            }
+
+            const row: any[] = [
+                { content: (index + 1).toString() + '.', styles: { halign: 'right', cellWidth: 12 } },
+                { content: dateString, styles: { halign: 'center' } }
+            ];
+            readings.ids.forEach(id => {
+                const excursion = excursionAt(excursions, parseInt(id, 10), point.timestamp);
+                const value = temperatureText(point, id, preferences, '-');
+                if (!excursion || !point.temperatures?.[id]) {
+                    row.push({ content: `${value}  `, styles: { halign: 'center' } });
+                    return;
+                }
+                marked = true;
+                row.push({
+                    content: `${value} ${excursion.tolerated ? '*' : '!'}`,
+                    styles: { halign: 'center', fontStyle: 'bold', textColor: excursion.tolerated ? [0, 0, 0] : [200, 0, 0] },
+                });
+            });
+            return row;
+        });
+
+        const tableHead = [['#', 'Timestamp']];
+        readings.ids.forEach(id => tableHead[0].push(`${readings.names.get(id)} (${unit})`));
+
+        y = startSection(`Readings every ${template.intervalMinutes} min`, y);
+        doc.autoTable({
+            ...tableOptions,
+            head: tableHead,
+            body: tableRows,
+            headStyles: { ...tableOptions.headStyles, halign: 'center', valign: 'middle' },
+            startY: y,
+        });
+        y = doc.lastAutoTable.finalY + 5;
+        if (marked) {
+            doc.setFontSize(9);
+            doc.text('!  outside the limit, counted as a violation    *  outside the limit, within tolerance', left, y);
+            y += 5;
+        }
+        y += 5;
+    }
+
+    if (sections.excursions && hasLimits) {
+        const ticketExcursions = excursions.filter(excursion => readings.names.has(String(excursion.sensorId)));
+        y = startSection('Compliance', y);
+        doc.setFont('courier', 'bold');
+        const excursionY = addComplianceToPdf(doc, verdict, loadLabels, y + 4, topMargin);
+        doc.setFont('courier', 'bold');
+        y = addExcursionSectionToPdf(doc, ticketExcursions, sensorLabel, excursionY, preferences, tableOptions);
+    }
+
+    if (sections.signatures && template.signatures.length > 0) {
+        // Two boxes side by side, each with lines for the name, the time of handover and a signature or stamp.
+        const boxWidth = (doc.internal.pageSize.getWidth() - 2 * left - 6) / 2;
+        const boxHeight = 38;
+        y = startSection('Signatures', y, boxHeight + 10) + 3;
+        template.signatures.forEach((label, index) => {
+            const column = index % 2;
+            if (column === 0 && index > 0) y += boxHeight + 5;
+            if (y + boxHeight > pageHeight - bottomMargin) {
+                doc.addPage();
+                drawTicketPage();
+                y = topMargin;
+            }
+            const x = left + column * (boxWidth + 6);
+            doc.setDrawColor(0, 0, 0);
+            doc.rect(x, y, boxWidth, boxHeight);
+            doc.setFont('courier', 'bold');
+            doc.setFontSize(10);
+            doc.text(label, x + 2, y + 5);
+            doc.setFont('courier', 'normal');
+            doc.setFontSize(9);
+            doc.text('Name:', x + 2, y + 12);
+            doc.text('Date/time:', x + 2, y + 19);
+            doc.text('Signature / stamp:', x + 2, y + 26);
+        });
+    }
+
+    if (typeof doc.putTotalPages === 'function') {
+        doc.putTotalPages(totalPagesExp);
+    }
+};
+
+// The graph is a PNG data URL of the chart as shown on screen; without one the report goes straight to the tables.
+export const renderFullReport = (doc: any, report: VehicleReport, graphImage: string | null): void => {
+    const { points, gaps, sensorIds, hasLimits, verdict, loadLabels, excursions, sensorLabel, doorOpenings, doorLabel, preferences } = report;
+
+    addReportHeaderToPdf(doc, 'Cold Chain Report', report);
+    let tableStartY = Math.max(54, addGapWarningToPdf(doc, gaps, 14, 52, preferences));
+
+    if (graphImage) {
+        const imgProps = doc.getImageProperties(graphImage);
+        const imgWidth = doc.internal.pageSize.getWidth() - 28;
+        const imgHeight = (imgProps.height * imgWidth) / imgProps.width;
+        doc.addImage(graphImage, 'PNG', 14, tableStartY, imgWidth, imgHeight);
+        tableStartY += imgHeight + 12;
+    }
+
+    if (hasLimits) {
+        tableStartY = addComplianceToPdf(doc, verdict, loadLabels, tableStartY);
+    }
+    if (sensorIds.length > 0 && hasLimits) {
+        tableStartY = addExcursionSectionToPdf(doc, excursions, sensorLabel, tableStartY, preferences);
+    }
+    tableStartY = addDoorOpeningSectionToPdf(doc, doorOpenings, doorLabel, tableStartY, preferences);
+
+    if (points.length > 0) {
+        const table = dataLogTable(report);
+        doc.autoTable({
+            head: [table.head],
+            body: table.rows,
+            startY: tableStartY,
+            theme: 'grid',
+            headStyles: { fillColor: [228, 0, 43] },
+            didParseCell: colorSensorHeaders(table.headColors),
+        });
+    }
+};
+
+const csvField = (value: string | number | null): string => {
+    const text = value === null ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (head: string[], rows: (string | number | null)[][]): string =>
+    [head, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+
+// The table of the matching PDF report, one row per line.
+export const reportCsv = (kind: ReportKind, report: VehicleReport): string => {
+    switch (kind) {
+        case 'door': {
+            const table = doorReportTable(report);
+            return toCsv(table.head, table.rows);
+        }
+        case 'thermograph': {
+            const readings = thermographReadings(report);
+            const unit = temperatureUnitLabel(report.preferences);
+            return toCsv(
+                ['Timestamp', ...readings.ids.map(id => `${readings.names.get(id)} (${unit})`)],
+                readings.points.map(point => [
+                    formatDateTime(point.timestamp, report.preferences, true),
+                    ...readings.ids.map(id => temperatureText(point, id, report.preferences, '')),
+                ])
+            );
+        }
+        case 'full': {
+            const table = dataLogTable(report);
+            return toCsv(table.head, table.rows);
+        }
+    }
+};
@@ -0,0 +1,170 @@
+import { WebfleetQuotaError } from './webfleetErrors';
+import { abortError, abortableWait } from './concurrency';
+
+export interface ActionQuota {
+    limit: number;
+    windowMs: number;
+}
+
+export interface RetryPolicy {
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    maxQuotaWaitMs: number;
+}
+
+export type RequestOutcome =
+    | { kind: 'ok' }
+    | { kind: 'transient' }
+    | { kind: 'quota' };
+
+export interface SchedulerOptions {
+    quotas?: Record<string, ActionQuota> | null;
+    retry?: RetryPolicy;
+    wait?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Request limits per action as documented for Webfleet.connect.
+export const ACTION_QUOTAS: Record<string, ActionQuota> = {
+    showObjectReportExtern: { limit: 6, windowMs: MINUTE_MS },
+    showTracks: { limit: 10, windowMs: MINUTE_MS },
+    showTripReportExtern: { limit: 10, windowMs: MINUTE_MS },
+    showUserReportExtern: { limit: 10, windowMs: MINUTE_MS },
+    getCurrentTemperatureData: { limit: 10, windowMs: MINUTE_MS },
+    getHistoricalTemperatureData: { limit: 10, windowMs: MINUTE_MS },
+    getCurrentRefrigeratedDoorStatusData: { limit: 10, windowMs: MINUTE_MS },
+    getHistoricalRefrigeratedDoorStatusData: { limit: 10, windowMs: MINUTE_MS },
+    createQueueExtern: { limit: 10, windowMs: DAY_MS },
+    popQueueMessagesExtern: { limit: 10, windowMs: MINUTE_MS },
+    ackQueueMessagesExtern: { limit: 10, windowMs: MINUTE_MS },
+};
+
+const DEFAULT_QUOTA: ActionQuota = { limit: 10, windowMs: MINUTE_MS };
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 4,
+    baseDelayMs: 1000,
+    maxDelayMs: 16000,
+    maxQuotaWaitMs: 65000,
+};
+
+interface ActionState {
+    queue: Promise<void>;
+    startTimes: number[];
+    blockedUntil: number;
+}
+
+export class RequestScheduler {
+    private readonly quotas: Record<string, ActionQuota> | null;
+    private readonly retry: RetryPolicy;
+    private readonly wait: (ms: number, signal?: AbortSignal) => Promise<void>;
+    private readonly actions = new Map<string, ActionState>();
+
+    constructor(options: SchedulerOptions = {}) {
+        this.quotas = options.quotas === undefined ? ACTION_QUOTAS : options.quotas;
+        this.retry = options.retry ?? DEFAULT_RETRY_POLICY;
+        this.wait = options.wait ?? abortableWait;
+    }
+
+    public async run<T>(
+        action: string,
+        task: () => Promise<T>,
+        classify: (result: T) => RequestOutcome,
+        signal?: AbortSignal
+    ): Promise<T> {
+        for (let attempt = 1; ; attempt++) {
+            if (signal?.aborted) throw abortError(signal);
+            await this.acquireSlot(action, signal);
+
+            let result: T;
+            try {
+                result = await task();
+            } catch (error) {
+                // fetch rejects with a TypeError when the request never got an answer.
+                if (!(error instanceof TypeError) || attempt >= this.retry.maxAttempts) throw error;
+                await this.wait(this.backoffDelay(attempt), signal);
+                continue;
+            }
+
+            const outcome = classify(result);
+            if (outcome.kind === 'quota') {
+                const resetDelay = this.quotaResetDelay(action);
+                this.blockAction(action, resetDelay);
+                if (attempt >= this.retry.maxAttempts || resetDelay > this.retry.maxQuotaWaitMs) {
+                    throw new WebfleetQuotaError(action, Math.ceil(resetDelay / 1000));
+                }
+                await this.wait(resetDelay, signal);
+            } else if (outcome.kind === 'ok' || attempt >= this.retry.maxAttempts) {
+                return result;
+            } else {
+                await this.wait(this.backoffDelay(attempt), signal);
+            }
+        }
+    }
+
+    private getState(action: string): ActionState {
+        let state = this.actions.get(action);
+        if (!state) {
+            state = { queue: Promise.resolve(), startTimes: [], blockedUntil: 0 };
+            this.actions.set(action, state);
+        }
+        return state;
+    }
+
+    private getQuota(action: string): ActionQuota | null {
+        if (!this.quotas) return null;
+        return this.quotas[action] ?? DEFAULT_QUOTA;
+    }
+
+    // Requests for the same action are admitted one by one so the sliding window stays accurate.
+    private acquireSlot(action: string, signal?: AbortSignal): Promise<void> {
+        const state = this.getState(action);
+        const slot = state.queue.then(() => this.waitForWindow(action, state, signal));
+        state.queue = slot.catch(() => undefined);
+        return slot;
+    }
+
+    private async waitForWindow(action: string, state: ActionState, signal?: AbortSignal): Promise<void> {
+        const quota = this.getQuota(action);
+        if (!quota) return;
+
+        while (true) {
+            if (signal?.aborted) throw abortError(signal);
+            const now = Date.now();
+            state.startTimes = state.startTimes.filter(ts => ts > now - quota.windowMs);
+
+            const delay = Math.max(
+                state.blockedUntil - now,
+                state.startTimes.length >= quota.limit ? state.startTimes[0] + quota.windowMs - now : 0
+            );
+
+            if (delay <= 0) {
+                state.startTimes.push(now);
+                return;
+            }
+            await this.wait(delay, signal);
+        }
+    }
+
+    private blockAction(action: string, delay: number): void {
+        const state = this.getState(action);
+        state.blockedUntil = Math.max(state.blockedUntil, Date.now() + delay);
+    }
+
+    private quotaResetDelay(action: string): number {
+        const quota = this.getQuota(action);
+        if (!quota) return 0;
+        const state = this.getState(action);
+        const now = Date.now();
+        const oldest = state.startTimes.find(ts => ts > now - quota.windowMs);
+        return Math.max(oldest !== undefined ? oldest + quota.windowMs - now : quota.windowMs, this.retry.baseDelayMs);
+    }
+
+    private backoffDelay(attempt: number): number {
+        const exponential = Math.min(this.retry.baseDelayMs * 2 ** (attempt - 1), this.retry.maxDelayMs);
+        return exponential / 2 + Math.random() * exponential / 2;
+    }
+}
@@ -0,0 +1,25 @@
+import { HistoricalDataPoint } from '../types';
+import { timeZoneOffsetMs } from './timeZones';
+
+export const RESAMPLE_INTERVAL_MINUTES = [1, 5, 10, 15, 30, 60];
+
+const MINUTE_MS = 60 * 1000;
+
+// One point per interval boundary holding the state at that moment, i.e. the last point at or before it.
+// Boundaries fall on the zone's wall clock (every quarter hour, on the hour, ...) from the first point to the last.
+export const resamplePoints = (points: HistoricalDataPoint[], intervalMinutes: number, timeZone: string): HistoricalDataPoint[] => {
+    if (points.length === 0 || intervalMinutes <= 0) return [];
+    const intervalMs = intervalMinutes * MINUTE_MS;
+    const first = points[0].timestamp;
+    const last = points[points.length - 1].timestamp;
+    const offset = timeZoneOffsetMs(first, timeZone);
+
+    const resampled: HistoricalDataPoint[] = [];
+    let index = 0;
+    for (let boundary = Math.ceil((first + offset) / intervalMs) * intervalMs - offset; boundary <= last; boundary += intervalMs) {
+        while (index + 1 < points.length && points[index + 1].timestamp <= boundary) index++;
+        const { temperatures, doorStatus, location } = points[index];
+        resampled.push({ timestamp: boundary, temperatures, doorStatus, location });
+    }
+    return resampled;
+};
@@ -0,0 +1,38 @@
+import { RecordIssue } from './webfleetSchemas';
+
+const MAX_ISSUES = 500;
+
+type Listener = (issues: RecordIssue[]) => void;
+
+// Collects Webfleet records that failed validation so they can be inspected instead of silently dropped.
+export class ResponseDiagnostics {
+    private issues: RecordIssue[] = [];
+    private readonly listeners = new Set<Listener>();
+
+    public report(newIssues: RecordIssue[]): void {
+        if (newIssues.length === 0) return;
+        newIssues.forEach(issue => console.warn(`[Diagnostics] Rejected ${issue.action} record: ${issue.problems.join('; ')}`, issue.record));
+        this.issues = [...newIssues, ...this.issues].slice(0, MAX_ISSUES);
+        this.notify();
+    }
+
+    public getIssues(): RecordIssue[] {
+        return this.issues;
+    }
+
+    public clear(): void {
+        this.issues = [];
+        this.notify();
+    }
+
+    public subscribe(listener: Listener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private notify(): void {
+        this.listeners.forEach(listener => listener(this.issues));
+    }
+}
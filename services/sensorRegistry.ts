@@ -0,0 +1,98 @@
+export type SensorKind = 'temperature' | 'door';
+
+export interface SensorIdentity {
+    sensor?: number;
+    sensorcode?: string;
+    sensorname?: string;
+}
+
+interface KnownSensors {
+    idsByKey: Map<string, number>;
+    names: Map<number, string>;
+}
+
+export const SENSOR_COLORS = ['#8884d8', '#82ca9d', '#ffc658', '#ff8042', '#d0ed57', '#a4de6c'];
+export const DOOR_COLORS = ['#EF4444', '#F97316', '#F59E0B', '#EAB308']; // Red, Orange, Amber, Yellow
+
+const colorFrom = (palette: string[], id: number | string): string => {
+    const numericId = typeof id === 'number' ? id : parseInt(id, 10);
+    return palette[Math.abs((isNaN(numericId) ? 1 : numericId) - 1) % palette.length];
+};
+
+export const sensorColor = (id: number | string): string => colorFrom(SENSOR_COLORS, id);
+export const doorColor = (id: number | string): string => colorFrom(DOOR_COLORS, id);
+
+// The compact door name of the fleet list, also used wherever alerts name a door.
+export const doorShortLabel = (id: number | string): string => `D${id}`;
+
+const preferredId = (reading: SensorIdentity): number | null => {
+    if (reading.sensor) return reading.sensor;
+    if (reading.sensorcode) {
+        const numericId = parseInt(reading.sensorcode, 16);
+        if (!isNaN(numericId) && numericId > 0) return numericId;
+    }
+    return null;
+};
+
+// Gives every physical probe of an object one numeric ID for the whole session, whether it was first
+// seen in the current status, the message queue or the history. Probes are recognised by sensorcode,
+// then by explicit sensor number, then by name; readings without any of these fall back to their
+// position among the anonymous readings reported together.
+export class SensorRegistry {
+    private readonly objects = new Map<string, KnownSensors>();
+
+    public resolve(objectuid: string, kind: SensorKind, readings: SensorIdentity[]): number[] {
+        const known = this.knownSensors(objectuid, kind);
+        let anonymousIndex = 0;
+        const keys = readings.map(reading => {
+            if (reading.sensorcode) return `code:${reading.sensorcode.toLowerCase()}`;
+            if (reading.sensor) return `sensor:${reading.sensor}`;
+            if (reading.sensorname) return `name:${reading.sensorname}`;
+            return `anonymous:${anonymousIndex++}`;
+        });
+
+        // Explicitly numbered probes go first so they keep their own number whenever it is still free.
+        const ids: (number | undefined)[] = readings.map((reading, index) =>
+            preferredId(reading) !== null ? SensorRegistry.assign(known, keys[index], preferredId(reading)) : undefined
+        );
+        const resolved = ids.map((id, index) => id ?? SensorRegistry.assign(known, keys[index], null));
+
+        readings.forEach((reading, index) => {
+            if (reading.sensorname) known.names.set(resolved[index], reading.sensorname);
+        });
+        return resolved;
+    }
+
+    public label(objectuid: string, kind: SensorKind, id: number | string): string {
+        const numericId = typeof id === 'number' ? id : parseInt(id, 10);
+        if (kind === 'door') return `Door ${numericId}`;
+        return this.objects.get(`${objectuid}|${kind}`)?.names.get(numericId) || `Sensor ${numericId}`;
+    }
+
+    public clear(): void {
+        this.objects.clear();
+    }
+
+    private knownSensors(objectuid: string, kind: SensorKind): KnownSensors {
+        const objectKey = `${objectuid}|${kind}`;
+        let known = this.objects.get(objectKey);
+        if (!known) {
+            known = { idsByKey: new Map(), names: new Map() };
+            this.objects.set(objectKey, known);
+        }
+        return known;
+    }
+
+    private static assign(known: KnownSensors, key: string, preferred: number | null): number {
+        const existing = known.idsByKey.get(key);
+        if (existing !== undefined) return existing;
+
+        const used = new Set(known.idsByKey.values());
+        let id = preferred !== null && !used.has(preferred) ? preferred : 1;
+        while (used.has(id)) {
+            id++;
+        }
+        known.idsByKey.set(key, id);
+        return id;
+    }
+}
@@ -0,0 +1,126 @@
+import { AuthCredentials } from '../types';
+import { ApiResponse, ApiTransport } from './apiTransport';
+
+export type SessionState = 'active' | 'locked' | 'expired' | 'ended';
+
+export const DEFAULT_IDLE_TIMEOUT_MS = 15 * 60 * 1000;
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'];
+
+type Listener = (state: SessionState) => void;
+
+export class SessionLockedError extends Error {
+    constructor() {
+        super('The session is locked. Enter your password to continue.');
+        this.name = 'SessionLockedError';
+    }
+}
+
+export const accountKey = (auth: AuthCredentials): string => `${auth.accountName}|${auth.username}`;
+
+// Keeps API keys and passwords out of the UI: views only ever see identities, which carry the
+// account and user name, and the SessionTransport swaps the secrets back in for each request.
+// One session holds every account signed in to the workspace.
+export class Session {
+    private readonly secrets = new Map<string, AuthCredentials>();
+    private readonly listeners = new Set<Listener>();
+    private state: SessionState = 'active';
+
+    public getState(): SessionState {
+        return this.state;
+    }
+
+    public addAccount(credentials: AuthCredentials): AuthCredentials {
+        this.secrets.set(accountKey(credentials), { ...credentials });
+        return { ...credentials, apiKey: '', password: '' };
+    }
+
+    public removeAccount(identity: AuthCredentials): void {
+        this.secrets.delete(accountKey(identity));
+    }
+
+    public hasAccount(accountName: string): boolean {
+        return Array.from(this.secrets.values()).some(credentials => credentials.accountName === accountName);
+    }
+
+    // Requests made with explicit credentials (sign-in, unlock) pass through untouched.
+    public credentialsFor(auth: AuthCredentials): AuthCredentials {
+        if (auth.password) return auth;
+        if (this.state !== 'active') throw new SessionLockedError();
+
+        const credentials = this.secrets.get(accountKey(auth));
+        if (!credentials) throw new SessionLockedError();
+        return credentials;
+    }
+
+    public lock(reason: 'locked' | 'expired'): void {
+        if (this.state !== 'active') return;
+        this.secrets.forEach((credentials, key) => this.secrets.set(key, { ...credentials, password: '' }));
+        this.setState(reason);
+    }
+
+    // Every account has to be confirmed with its own password before the workspace opens again.
+    public async unlock(passwords: Record<string, string>, verify: (credentials: AuthCredentials) => Promise<unknown>): Promise<void> {
+        if (this.state !== 'locked' && this.state !== 'expired') return;
+
+        const candidates = Array.from(this.secrets.entries()).map(([key, credentials]) => ({ ...credentials, password: passwords[key] ?? '' }));
+        for (const candidate of candidates) {
+            await verify(candidate);
+        }
+        candidates.forEach(candidate => this.secrets.set(accountKey(candidate), candidate));
+        this.setState('active');
+    }
+
+    public end(): void {
+        this.secrets.clear();
+        this.setState('ended');
+        this.listeners.clear();
+    }
+
+    public subscribe(listener: Listener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private setState(state: SessionState): void {
+        this.state = state;
+        this.listeners.forEach(listener => listener(state));
+    }
+}
+
+export class SessionTransport implements ApiTransport {
+    constructor(private readonly inner: ApiTransport, private readonly session: Session) {}
+
+    public send(action: string, params: Record<string, string>, auth: AuthCredentials, signal?: AbortSignal): Promise<ApiResponse> {
+        return this.inner.send(action, params, this.session.credentialsFor(auth), signal);
+    }
+}
+
+// Calls onIdle once nobody has touched the page for timeoutMs.
+export class IdleMonitor {
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private target: EventTarget | null = null;
+
+    constructor(private readonly timeoutMs: number, private readonly onIdle: () => void) {}
+
+    public start(target: EventTarget = window): void {
+        if (this.target) return;
+        this.target = target;
+        ACTIVITY_EVENTS.forEach(event => target.addEventListener(event, this.reset, { passive: true }));
+        this.reset();
+    }
+
+    public stop(): void {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+        ACTIVITY_EVENTS.forEach(event => this.target?.removeEventListener(event, this.reset));
+        this.target = null;
+    }
+
+    private readonly reset = (): void => {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = setTimeout(this.onIdle, this.timeoutMs);
+    };
+}
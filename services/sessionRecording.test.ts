@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AuthCredentials } from '../types';
+import { ApiTransport } from './apiTransport';
+import { RequestScheduler } from './requestScheduler';
+import { ResponseDiagnostics } from './responseDiagnostics';
+import { SensorRegistry } from './sensorRegistry';
+import { DEFAULT_RANGE, rangeRequest, resolveRange } from './reportRange';
+import { RecordingTransport, ReplayTransport, recordingClock, signInToReplay } from './sessionRecording';
+import WebfleetService from './webfleetService';
+
+const auth: AuthCredentials = { apiKey: 'key', accountName: 'account', username: 'user', password: 'secret' };
+
+const emptyWebfleet: ApiTransport = {
+    send: async () => ({ status: 200, errorMessage: null, body: '[]' }),
+};
+
+const immediateScheduler = () => new RequestScheduler({ quotas: null, wait: () => Promise.resolve() });
+
+// What the detail view does on opening a vehicle with the default range.
+const loadDefaultRange = async (service: WebfleetService) => {
+    const range = resolveRange(DEFAULT_RANGE, 'Europe/Madrid', service.now());
+    const request = rangeRequest(DEFAULT_RANGE, range);
+    const options = typeof request === 'string' ? { objectuid: '1-2', rangePattern: request } : { objectuid: '1-2', ...request };
+    const historical = await service.getHistoricalData(auth, options);
+    const trips = await service.getTrips(auth, '1-2', request);
+    return { historical, trips };
+};
+
+test('a session recorded with the default range replays later', async () => {
+    const recorder = new RecordingTransport(emptyWebfleet);
+    await loadDefaultRange(new WebfleetService(recorder, immediateScheduler()));
+    await new Promise(resolve => setTimeout(resolve, 20));
+    const recording = recorder.toRecording();
+
+    const replay = new WebfleetService(
+        new ReplayTransport(recording),
+        immediateScheduler(),
+        new ResponseDiagnostics(),
+        new SensorRegistry(),
+        recordingClock(recording)
+    );
+    const { historical, trips } = await loadDefaultRange(replay);
+    assert.deepEqual(historical.gaps, []);
+    assert.deepEqual(trips, []);
+});
+
+test('a recording signs in again through the session transport', async () => {
+    const recorder = new RecordingTransport(emptyWebfleet);
+    await new WebfleetService(recorder, immediateScheduler()).login(auth);
+    const { identity } = await signInToReplay(recorder.toRecording());
+    assert.equal(identity.accountName, auth.accountName);
+    assert.equal(identity.password, '');
+});
@@ -0,0 +1,202 @@
+import { AuthCredentials, TimeRange } from '../types';
+import { ApiResponse, ApiTransport } from './apiTransport';
+import { abortError, isAbortError } from './concurrency';
+import { Clock } from './dataSource';
+import { RequestScheduler } from './requestScheduler';
+import { ResponseDiagnostics } from './responseDiagnostics';
+import { SensorRegistry } from './sensorRegistry';
+import { Session, SessionTransport } from './session';
+import WebfleetService from './webfleetService';
+
+const RECORDING_VERSION = 1;
+
+export interface RecordedExchange {
+    action: string;
+    params: Record<string, string>;
+    response?: ApiResponse;
+    networkError?: string;
+}
+
+export interface ApiRecording {
+    version: number;
+    recordedAt: string;
+    accountName: string;
+    username: string;
+    exchanges: RecordedExchange[];
+}
+
+// Credentials never reach the params handed to a transport, so the key is safe to persist.
+const exchangeKey = (action: string, params: Record<string, string>): string => {
+    const sortedParams = Object.keys(params)
+        .sort()
+        .map(key => `${key}=${params[key]}`)
+        .join('&');
+    return `${action}?${sortedParams}`;
+};
+
+const RANGE_PARAMS = ['rangefrom_string', 'rangeto_string'];
+
+const windowOf = (params: Record<string, string>): TimeRange | null => {
+    const startTime = Date.parse(params.rangefrom_string);
+    const endTime = Date.parse(params.rangeto_string);
+    return isNaN(startTime) || isNaN(endTime) ? null : { startTime, endTime };
+};
+
+// The same call for any time window.
+const callKey = (action: string, params: Record<string, string>): string => {
+    const rest = { ...params };
+    RANGE_PARAMS.forEach(param => delete rest[param]);
+    return exchangeKey(action, rest);
+};
+
+// Replays resolve ranges such as "Today" on the moment the recording was saved, so they cover the recorded days.
+export const recordingClock = (recording: ApiRecording): Clock => {
+    const recordedAt = Date.parse(recording.recordedAt);
+    return () => recordedAt;
+};
+
+export class RecordingTransport implements ApiTransport {
+    private exchanges: RecordedExchange[] = [];
+    private accountName = '';
+    private username = '';
+
+    constructor(private readonly inner: ApiTransport) {}
+
+    public async send(action: string, params: Record<string, string>, auth: AuthCredentials, signal?: AbortSignal): Promise<ApiResponse> {
+        this.accountName = auth.accountName;
+        this.username = auth.username;
+
+        try {
+            const response = await this.inner.send(action, params, auth, signal);
+            this.exchanges.push({ action, params, response });
+            return response;
+        } catch (error) {
+            // Requests cancelled by the user never reached Webfleet and are not part of the session.
+            if (isAbortError(error)) throw error;
+            this.exchanges.push({ action, params, networkError: error instanceof Error ? error.message : String(error) });
+            throw error;
+        }
+    }
+
+    public get exchangeCount(): number {
+        return this.exchanges.length;
+    }
+
+    public toRecording(): ApiRecording {
+        return {
+            version: RECORDING_VERSION,
+            recordedAt: new Date().toISOString(),
+            accountName: this.accountName,
+            username: this.username,
+            exchanges: [...this.exchanges],
+        };
+    }
+}
+
+export class ReplayTransport implements ApiTransport {
+    private readonly exchangesByKey = new Map<string, RecordedExchange[]>();
+    private readonly cursors = new Map<string, number>();
+    // Exchange keys of the recorded time windows of each call.
+    private readonly windowKeysByCall = new Map<string, string[]>();
+
+    constructor(recording: ApiRecording) {
+        recording.exchanges.forEach(exchange => {
+            const key = exchangeKey(exchange.action, exchange.params);
+            if (!this.exchangesByKey.has(key)) {
+                this.exchangesByKey.set(key, []);
+                if (windowOf(exchange.params)) {
+                    const call = callKey(exchange.action, exchange.params);
+                    this.windowKeysByCall.set(call, [...(this.windowKeysByCall.get(call) ?? []), key]);
+                }
+            }
+            this.exchangesByKey.get(key)!.push(exchange);
+        });
+    }
+
+    // Ranges that run up to now end at the moment of each request, which even the recording's clock cannot
+    // reproduce. Such a request gets the recorded window of the same call that overlaps it most.
+    private matchingKey(action: string, params: Record<string, string>): string {
+        const key = exchangeKey(action, params);
+        const requested = windowOf(params);
+        if (this.exchangesByKey.has(key) || !requested) return key;
+
+        let best = key;
+        let bestOverlap = 0;
+        (this.windowKeysByCall.get(callKey(action, params)) ?? []).forEach(candidate => {
+            const recorded = windowOf(this.exchangesByKey.get(candidate)![0].params)!;
+            const overlap = Math.min(requested.endTime, recorded.endTime) - Math.max(requested.startTime, recorded.startTime);
+            if (overlap > bestOverlap) {
+                best = candidate;
+                bestOverlap = overlap;
+            }
+        });
+        return best;
+    }
+
+    public async send(action: string, params: Record<string, string>, _auth: AuthCredentials, signal?: AbortSignal): Promise<ApiResponse> {
+        if (signal?.aborted) throw abortError(signal);
+
+        const key = this.matchingKey(action, params);
+        const candidates = this.exchangesByKey.get(key);
+        if (!candidates || candidates.length === 0) {
+            throw new Error(`No recorded response for ${action} with the requested parameters.`);
+        }
+
+        // Identical requests are served in recorded order; once exhausted, the last response repeats.
+        const cursor = this.cursors.get(key) ?? 0;
+        const exchange = candidates[Math.min(cursor, candidates.length - 1)];
+        this.cursors.set(key, cursor + 1);
+
+        if (exchange.networkError !== undefined || !exchange.response) {
+            // Mirror fetch, which rejects with a TypeError on network failures.
+            throw new TypeError(exchange.networkError || 'Recorded request failed.');
+        }
+        return { ...exchange.response };
+    }
+
+    public reset(): void {
+        this.cursors.clear();
+    }
+}
+
+export const parseRecording = (text: string): ApiRecording => {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(text);
+    } catch (e) {
+        throw new Error("The selected file is not a valid session recording.");
+    }
+
+    if (!parsed || parsed.version !== RECORDING_VERSION || !Array.isArray(parsed.exchanges)) {
+        throw new Error("The selected file is not a supported session recording.");
+    }
+    return parsed as ApiRecording;
+};
+
+// Replayed sessions never hold real secrets; the recording only knows who captured it. The account is added
+// to the session before signing in, because every request, the sign-in included, is resolved through it.
+export const signInToReplay = async (recording: ApiRecording): Promise<{ identity: AuthCredentials; service: WebfleetService; session: Session }> => {
+    const session = new Session();
+    const identity = session.addAccount({ apiKey: '', accountName: recording.accountName, username: recording.username, password: '' });
+    // Replays run without quota windows or delays, but retry the same way the recorded session did.
+    const scheduler = new RequestScheduler({ quotas: null, wait: () => Promise.resolve() });
+    const service = new WebfleetService(
+        new SessionTransport(new ReplayTransport(recording), session),
+        scheduler,
+        new ResponseDiagnostics(),
+        new SensorRegistry(),
+        recordingClock(recording)
+    );
+    await service.login(identity);
+    return { identity, service, session };
+};
+
+export const saveRecordingToFile = (recording: ApiRecording): void => {
+    const blob = new Blob([JSON.stringify(recording, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `webfleet-session-${recording.accountName.replace(/\s/g, '_')}-${recording.recordedAt.replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+};
@@ -0,0 +1,148 @@
+// Node-only: opens raw SMTP connections, which browsers cannot do. The web app never imports this file;
+// the monitoring daemon passes sendSmtpMail to AlertDispatcher as its email transport.
+import net from 'node:net';
+import tls from 'node:tls';
+import os from 'node:os';
+import { ChannelDeliveryError, EmailChannel, EmailMessage, EmailTransport } from './alertChannels';
+
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+interface SmtpReply {
+    code: number;
+    lines: string[];
+}
+
+// Reads one (possibly multi-line) reply at a time from the connection.
+class SmtpConnection {
+    private buffer = '';
+    private pending: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+    private failure: Error | null = null;
+
+    constructor(private socket: net.Socket) {
+        this.attach(socket);
+    }
+
+    public async upgrade(host: string): Promise<void> {
+        this.socket.removeAllListeners('data');
+        const secured = tls.connect({ socket: this.socket, servername: host });
+        await new Promise<void>((resolve, reject) => {
+            secured.once('secureConnect', resolve);
+            secured.once('error', reject);
+        });
+        this.socket = secured;
+        this.attach(secured);
+    }
+
+    public async command(line: string | null, expected: number[]): Promise<SmtpReply> {
+        if (line !== null) this.socket.write(`${line}\r\n`);
+        const reply = await this.read();
+        if (!expected.includes(reply.code)) {
+            // 4xx replies are temporary by definition, 5xx permanent.
+            const shown = line?.startsWith('AUTH') ? 'AUTH' : line ?? 'greeting';
+            throw new ChannelDeliveryError(`SMTP server rejected ${shown}: ${reply.code} ${reply.lines.join(' ')}`, reply.code < 500);
+        }
+        return reply;
+    }
+
+    public close(): void {
+        this.socket.end();
+    }
+
+    private attach(socket: net.Socket): void {
+        socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new ChannelDeliveryError('The SMTP server stopped responding.')));
+        socket.on('data', chunk => {
+            this.buffer += chunk.toString('utf8');
+            this.flush();
+        });
+        socket.on('error', error => this.fail(error));
+        socket.on('close', () => this.fail(new ChannelDeliveryError('The SMTP server closed the connection.')));
+    }
+
+    private read(): Promise<SmtpReply> {
+        if (this.failure) return Promise.reject(this.failure);
+        return new Promise((resolve, reject) => {
+            this.pending = { resolve, reject };
+            this.flush();
+        });
+    }
+
+    private flush(): void {
+        if (!this.pending) return;
+        const lines = this.buffer.split('\r\n');
+        // A reply ends at the first line with a space after the code: "250 OK" rather than "250-SIZE".
+        const lastIndex = lines.findIndex((line, index) => index < lines.length - 1 && /^\d{3}( |$)/.test(line));
+        if (lastIndex === -1) return;
+        const replyLines = lines.slice(0, lastIndex + 1);
+        this.buffer = lines.slice(lastIndex + 1).join('\r\n');
+        const pending = this.pending;
+        this.pending = null;
+        pending.resolve({ code: parseInt(replyLines[lastIndex].slice(0, 3), 10), lines: replyLines.map(line => line.slice(4)) });
+    }
+
+    private fail(error: Error): void {
+        this.failure ??= error;
+        this.pending?.reject(this.failure);
+        this.pending = null;
+    }
+}
+
+const connect = (channel: EmailChannel): Promise<net.Socket> => new Promise((resolve, reject) => {
+    const socket = channel.secure
+        ? tls.connect({ host: channel.host, port: channel.port, servername: channel.host }, () => resolve(socket))
+        : net.connect({ host: channel.host, port: channel.port }, () => resolve(socket));
+    socket.once('error', error => reject(new ChannelDeliveryError(`Could not reach ${channel.host}:${channel.port}: ${error.message}`)));
+});
+
+const encodeHeader = (value: string): string =>
+    /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+export const formatMessage = (channel: EmailChannel, message: EmailMessage, now: Date = new Date()): string => {
+    const headers = [
+        `From: ${channel.from}`,
+        `To: ${channel.to.join(', ')}`,
+        `Subject: ${encodeHeader(message.subject)}`,
+        `Date: ${now.toUTCString()}`,
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=UTF-8',
+        'Content-Transfer-Encoding: 8bit',
+    ];
+    // Lines starting with a dot are doubled so they are not taken for the end of the data.
+    const body = message.text.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+    return `${headers.join('\r\n')}\r\n\r\n${body}`;
+};
+
+export const sendSmtpMail: EmailTransport = async (channel, message) => {
+    const connection = new SmtpConnection(await connect(channel));
+    try {
+        await connection.command(null, [220]);
+        const hello = await connection.command(`EHLO ${os.hostname() || 'localhost'}`, [250]);
+        const offersStartTls = hello.lines.some(line => line.toUpperCase().startsWith('STARTTLS'));
+        let encrypted = channel.secure;
+        if (!channel.secure && offersStartTls) {
+            await connection.command('STARTTLS', [220]);
+            await connection.upgrade(channel.host);
+            await connection.command(`EHLO ${os.hostname() || 'localhost'}`, [250]);
+            encrypted = true;
+        }
+        if (channel.username) {
+            // Anyone on the path can strip STARTTLS from the greeting, so the password only travels encrypted.
+            if (!encrypted) {
+                throw new ChannelDeliveryError(
+                    `${channel.host} did not offer STARTTLS, so the password was not sent. Use a server with TLS or STARTTLS.`,
+                    false
+                );
+            }
+            const credentials = Buffer.from(`\u0000${channel.username}\u0000${channel.password}`, 'utf8').toString('base64');
+            await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+        }
+        await connection.command(`MAIL FROM:<${channel.from}>`, [250]);
+        for (const recipient of channel.to) {
+            await connection.command(`RCPT TO:<${recipient}>`, [250, 251]);
+        }
+        await connection.command('DATA', [354]);
+        await connection.command(`${formatMessage(channel, message)}\r\n.`, [250]);
+        await connection.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+        connection.close();
+    }
+};
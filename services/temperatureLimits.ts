@@ -0,0 +1,59 @@
+// All limits are stored in Celsius, the unit Webfleet reports in.
+export interface TemperatureLimit {
+    min: number | null;
+    max: number | null;
+    // How long a reading may stay out of range before the excursion counts as a violation.
+    toleranceMinutes: number;
+}
+
+export interface Compartment {
+    name: string;
+    sensorIds: number[];
+    // Compartments without a limit of their own only group sensors for product assignments.
+    limit: TemperatureLimit | null;
+}
+
+export interface VehicleLimits {
+    vehicle: TemperatureLimit | null;
+    compartments: Compartment[];
+    sensors: Record<number, TemperatureLimit>;
+}
+
+export const EMPTY_LIMITS: VehicleLimits = { vehicle: null, compartments: [], sensors: {} };
+
+const STORAGE_PREFIX = 'limits:';
+
+const storageKey = (accountName: string, vehicleUid: string): string => `${STORAGE_PREFIX}${accountName}|${vehicleUid}`;
+
+export const loadVehicleLimits = (accountName: string, vehicleUid: string, storage: Storage = localStorage): VehicleLimits => {
+    const raw = storage.getItem(storageKey(accountName, vehicleUid));
+    if (!raw) return EMPTY_LIMITS;
+    try {
+        return { ...EMPTY_LIMITS, ...JSON.parse(raw) };
+    } catch (e) {
+        console.error('Failed to parse saved temperature limits', e);
+        return EMPTY_LIMITS;
+    }
+};
+
+export const saveVehicleLimits = (accountName: string, vehicleUid: string, limits: VehicleLimits, storage: Storage = localStorage): void => {
+    storage.setItem(storageKey(accountName, vehicleUid), JSON.stringify(limits));
+};
+
+export const hasLimit = (limit: TemperatureLimit | null | undefined): limit is TemperatureLimit =>
+    !!limit && (limit.min !== null || limit.max !== null);
+
+// The most specific limit wins: sensor, then the sensor's compartment, then the whole vehicle.
+export const limitForSensor = (limits: VehicleLimits, sensorId: number): TemperatureLimit | null => {
+    const sensorLimit = limits.sensors[sensorId];
+    if (hasLimit(sensorLimit)) return sensorLimit;
+    const compartment = limits.compartments.find(c => c.sensorIds.includes(sensorId) && hasLimit(c.limit));
+    if (compartment) return compartment.limit;
+    return hasLimit(limits.vehicle) ? limits.vehicle : null;
+};
+
+export const isOutOfRange = (value: number, limit: TemperatureLimit): 'above' | 'below' | null => {
+    if (limit.max !== null && value > limit.max) return 'above';
+    if (limit.min !== null && value < limit.min) return 'below';
+    return null;
+};
@@ -0,0 +1,88 @@
+// Layout of the thermograph ticket, kept per account, and the calibration records of each vehicle's probes.
+// The ticket follows the record-keeping of EN 12830: fixed recording interval, sensor identification,
+// period statistics and room for the signatures of the people handing the load over.
+
+export type TicketSection = 'statistics' | 'sensors' | 'readings' | 'excursions' | 'signatures';
+
+export interface ThermographTemplate {
+    // Recording interval of the readings table, one of RESAMPLE_INTERVAL_MINUTES.
+    intervalMinutes: number;
+    company: string;
+    // Recorder model and conformity statement, e.g. "EN 12830, class 1, -30 to +30 °C".
+    recorder: string;
+    sections: Record<TicketSection, boolean>;
+    // One signature and stamp box per entry, in order.
+    signatures: string[];
+    footer: string;
+}
+
+export interface SensorCalibration {
+    serialNumber: string;
+    // Dates as entered, YYYY-MM-DD; they are printed, never calculated with.
+    calibratedOn: string;
+    calibrationDue: string;
+    certificate: string;
+    accuracy: string;
+}
+
+export type VehicleCalibrations = Record<number, SensorCalibration>;
+
+export const TICKET_SECTION_LABELS: Record<TicketSection, string> = {
+    statistics: 'Period statistics',
+    sensors: 'Sensor identification and calibration',
+    readings: 'Readings at the recording interval',
+    excursions: 'Compliance and excursions',
+    signatures: 'Signature and stamp fields',
+};
+
+export const DEFAULT_THERMOGRAPH_TEMPLATE: ThermographTemplate = {
+    intervalMinutes: 15,
+    company: '',
+    recorder: '',
+    sections: { statistics: true, sensors: true, readings: true, excursions: true, signatures: true },
+    signatures: ['Driver', 'Receiver'],
+    footer: '',
+};
+
+export const EMPTY_CALIBRATION: SensorCalibration = { serialNumber: '', calibratedOn: '', calibrationDue: '', certificate: '', accuracy: '' };
+
+const TEMPLATE_PREFIX = 'thermographTemplate:';
+const CALIBRATION_PREFIX = 'calibration:';
+
+const templateKey = (accountName: string): string => `${TEMPLATE_PREFIX}${accountName}`;
+const calibrationKey = (accountName: string, vehicleUid: string): string => `${CALIBRATION_PREFIX}${accountName}|${vehicleUid}`;
+
+export const loadThermographTemplate = (accountName: string, storage: Storage = localStorage): ThermographTemplate => {
+    const raw = storage.getItem(templateKey(accountName));
+    if (!raw) return DEFAULT_THERMOGRAPH_TEMPLATE;
+    try {
+        const saved = JSON.parse(raw);
+        return {
+            ...DEFAULT_THERMOGRAPH_TEMPLATE,
+            ...saved,
+            sections: { ...DEFAULT_THERMOGRAPH_TEMPLATE.sections, ...saved.sections },
+        };
+    } catch (e) {
+        console.error('Failed to parse saved thermograph template', e);
+        return DEFAULT_THERMOGRAPH_TEMPLATE;
+    }
+};
+
+export const saveThermographTemplate = (accountName: string, template: ThermographTemplate, storage: Storage = localStorage): void => {
+    storage.setItem(templateKey(accountName), JSON.stringify(template));
+};
+
+export const loadCalibrations = (accountName: string, vehicleUid: string, storage: Storage = localStorage): VehicleCalibrations => {
+    const raw = storage.getItem(calibrationKey(accountName, vehicleUid));
+    if (!raw) return {};
+    try {
+        return JSON.parse(raw);
+    } catch (e) {
+        console.error('Failed to parse saved sensor calibrations', e);
+        return {};
+    }
+};
+
+export const saveCalibrations = (accountName: string, vehicleUid: string, calibrations: VehicleCalibrations, storage: Storage = localStorage): void => {
+    storage.setItem(calibrationKey(accountName, vehicleUid), JSON.stringify(calibrations));
+};
@@ -0,0 +1,140 @@
+import { TimeRange } from '../types';
+
+export const UTC = 'UTC';
+
+export interface ZonedParts {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+    // 0 = Monday ... 6 = Sunday
+    weekday: number;
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string): Intl.DateTimeFormat => {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit',
+            weekday: 'short',
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+};
+
+export const browserTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || UTC;
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+    try {
+        formatterFor(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+export const availableTimeZones = (): string[] => {
+    try {
+        return [UTC, ...Intl.supportedValuesOf('timeZone').filter(zone => zone !== UTC)];
+    } catch {
+        return [UTC, browserTimeZone()];
+    }
+};
+
+export const zonedParts = (timestamp: number, timeZone: string): ZonedParts => {
+    const parts: Record<string, string> = {};
+    formatterFor(timeZone).formatToParts(new Date(timestamp)).forEach(part => {
+        parts[part.type] = part.value;
+    });
+    return {
+        year: parseInt(parts.year, 10),
+        month: parseInt(parts.month, 10),
+        day: parseInt(parts.day, 10),
+        hour: parseInt(parts.hour, 10),
+        minute: parseInt(parts.minute, 10),
+        second: parseInt(parts.second, 10),
+        weekday: WEEKDAYS.indexOf(parts.weekday),
+    };
+};
+
+// How far the zone's wall clock is ahead of UTC at the given instant.
+export const timeZoneOffsetMs = (timestamp: number, timeZone: string): number => {
+    const p = zonedParts(timestamp, timeZone);
+    const wallClock = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+    return wallClock - Math.floor(timestamp / 1000) * 1000;
+};
+
+// Converts a wall-clock time in the zone to an instant. Days and months may overflow, as with Date.UTC.
+export const zonedTimeToUtc = (year: number, month: number, day: number, timeZone: string, hour = 0, minute = 0): number => {
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+    const guess = wallClock - timeZoneOffsetMs(wallClock, timeZone);
+    // A second pass settles instants near a daylight saving change.
+    return wallClock - timeZoneOffsetMs(guess, timeZone);
+};
+
+export const formatUtcOffset = (timestamp: number, timeZone: string): string => {
+    const offsetMinutes = Math.round(timeZoneOffsetMs(timestamp, timeZone) / 60000);
+    const sign = offsetMinutes < 0 ? '-' : '+';
+    const hours = String(Math.floor(Math.abs(offsetMinutes) / 60)).padStart(2, '0');
+    const minutes = String(Math.abs(offsetMinutes) % 60).padStart(2, '0');
+    return `UTC${sign}${hours}:${minutes}`;
+};
+
+export const formatTimeZoneLabel = (timeZone: string, timestamp: number = Date.now()): string =>
+    timeZone === UTC ? UTC : `${timeZone} (${formatUtcOffset(timestamp, timeZone)})`;
+
+// Webfleet resolves range patterns in the account's server-side zone. Resolving them here instead
+// makes "Today" start at midnight of the zone the reports are printed in.
+export const resolveRangePattern = (rangePattern: string, timeZone: string, now: number = Date.now()): TimeRange | null => {
+    const today = zonedParts(now, timeZone);
+    const startOfDay = (offsetDays: number) => zonedTimeToUtc(today.year, today.month, today.day + offsetDays, timeZone);
+    const startOfMonth = (offsetMonths: number) => zonedTimeToUtc(today.year, today.month + offsetMonths, 1, timeZone);
+
+    switch (rangePattern) {
+        case 'd0':
+            return { startTime: startOfDay(0), endTime: now };
+        case 'd-1':
+            return { startTime: startOfDay(-1), endTime: startOfDay(0) };
+        case 'wf0':
+            return { startTime: startOfDay(-6), endTime: now };
+        case 'w0':
+            return { startTime: startOfDay(-today.weekday), endTime: now };
+        case 'w-1':
+            return { startTime: startOfDay(-today.weekday - 7), endTime: startOfDay(-today.weekday) };
+        case 'm0':
+            return { startTime: startOfMonth(0), endTime: now };
+        case 'm-1':
+            return { startTime: startOfMonth(-1), endTime: startOfMonth(0) };
+        default:
+            return null;
+    }
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// Value for an <input type="datetime-local">, read on the zone's wall clock.
+export const toDateTimeLocalValue = (timestamp: number, timeZone: string): string => {
+    const p = zonedParts(timestamp, timeZone);
+    return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}`;
+};
+
+export const parseDateTimeLocalValue = (value: string, timeZone: string): number | null => {
+    const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/.exec(value);
+    if (!match) return null;
+    const [year, month, day, hour, minute] = match.slice(1).map(part => parseInt(part, 10));
+    return zonedTimeToUtc(year, month, day, timeZone, hour, minute);
+};
@@ -0,0 +1,182 @@
+import { HistoricalDataPoint, TimeRange } from '../types';
+import { DisplayPreferences, displayTimeZone, formatDateTime, temperatureUnitLabel, toDisplayTemperature } from './preferences';
+import { rangeFileSuffix } from './reportRange';
+
+// GPS tracks for GIS tools: every positioned point with the temperatures and door states at that moment.
+
+export type TrackFormat = 'gpx' | 'kml' | 'geojson';
+
+export interface Track {
+    name: string;
+    points: HistoricalDataPoint[];
+    sensorIds: string[];
+    sensorInfo: Map<string, string>;
+    doorSensorIds: string[];
+    doorInfo: Map<string, string>;
+    preferences: DisplayPreferences;
+}
+
+type AttributeValue = string | number | null;
+
+export const TRACK_FORMATS: TrackFormat[] = ['gpx', 'kml', 'geojson'];
+
+export const TRACK_FORMAT_LABELS: Record<TrackFormat, string> = {
+    gpx: 'GPX',
+    kml: 'KML (Google Earth)',
+    geojson: 'GeoJSON',
+};
+
+export const TRACK_MIME_TYPES: Record<TrackFormat, string> = {
+    gpx: 'application/gpx+xml',
+    kml: 'application/vnd.google-earth.kml+xml',
+    geojson: 'application/geo+json',
+};
+
+const GPX_EXTENSION_NAMESPACE = 'urn:webfleet-cold-chain-monitor:track:1';
+
+export const isTrackFormat = (format: string): format is TrackFormat => (TRACK_FORMATS as string[]).includes(format);
+
+// Points without a position cannot be placed; Webfleet repeats the last position on readings between two fixes.
+export const trackPoints = (points: HistoricalDataPoint[]): HistoricalDataPoint[] => points.filter(point => point.location);
+
+const coordinate = (value: number): number => Number(value.toFixed(6));
+
+const temperatureAttributes = (track: Track, point: HistoricalDataPoint): [string, AttributeValue][] =>
+    track.sensorIds.map(id => {
+        const temp = point.temperatures?.[id];
+        const value = typeof temp?.value === 'number'
+            ? Number(toDisplayTemperature(temp.value, track.preferences).toFixed(track.preferences.decimals))
+            : null;
+        return [track.sensorInfo.get(id) ?? id, value];
+    });
+
+const doorAttributes = (track: Track, point: HistoricalDataPoint): [string, AttributeValue][] =>
+    track.doorSensorIds.map(id => {
+        const status = point.doorStatus?.[id];
+        return [track.doorInfo.get(id) ?? id, status === 1 ? 'Open' : (status === 0 ? 'Closed' : null)];
+    });
+
+// Flat name/value pairs for formats without nested attributes; temperature names carry the unit.
+const pointAttributes = (track: Track, point: HistoricalDataPoint): [string, AttributeValue][] => {
+    const unit = temperatureUnitLabel(track.preferences);
+    return [
+        ['Time', formatDateTime(point.timestamp, track.preferences, true)],
+        ...temperatureAttributes(track, point).map(([name, value]): [string, AttributeValue] => [`${name} (${unit})`, value]),
+        ...doorAttributes(track, point),
+        ['Address', point.location ? point.location.address : null],
+    ];
+};
+
+const escapeXml = (value: string): string =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const isoTime = (timestamp: number): string => new Date(timestamp).toISOString();
+
+const toGpx = (track: Track, points: HistoricalDataPoint[]): string => {
+    const unit = escapeXml(temperatureUnitLabel(track.preferences));
+    const trackPoint = (point: HistoricalDataPoint): string => {
+        const extensions = [
+            ...temperatureAttributes(track, point)
+                .filter(([, value]) => value !== null)
+                .map(([name, value]) => `<cc:temperature sensor="${escapeXml(name)}" unit="${unit}">${value}</cc:temperature>`),
+            ...doorAttributes(track, point)
+                .filter(([, value]) => value !== null)
+                .map(([name, value]) => `<cc:door name="${escapeXml(name)}">${String(value).toLowerCase()}</cc:door>`),
+        ];
+        return [
+            `      <trkpt lat="${coordinate(point.location!.lat)}" lon="${coordinate(point.location!.lng)}">`,
+            `        <time>${isoTime(point.timestamp)}</time>`,
+            `        <desc>${escapeXml(point.location!.address)}</desc>`,
+            ...(extensions.length > 0 ? [`        <extensions>${extensions.join('')}</extensions>`] : []),
+            '      </trkpt>',
+        ].join('\n');
+    };
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<gpx version="1.1" creator="Webfleet Cold Chain Monitor" xmlns="http://www.topografix.com/GPX/1/1" xmlns:cc="${GPX_EXTENSION_NAMESPACE}">`,
+        `  <metadata><name>${escapeXml(track.name)}</name><time>${isoTime(Date.now())}</time></metadata>`,
+        '  <trk>',
+        `    <name>${escapeXml(track.name)}</name>`,
+        '    <trkseg>',
+        ...points.map(trackPoint),
+        '    </trkseg>',
+        '  </trk>',
+        '</gpx>',
+        '',
+    ].join('\n');
+};
+
+// A line for the route plus one placemark per reading, whose ExtendedData shows in the balloon and attribute table.
+const toKml = (track: Track, points: HistoricalDataPoint[]): string => {
+    const kmlCoordinate = (point: HistoricalDataPoint): string => `${coordinate(point.location!.lng)},${coordinate(point.location!.lat)}`;
+    const placemark = (point: HistoricalDataPoint): string => {
+        const data = pointAttributes(track, point)
+            .map(([name, value]) => `<Data name="${escapeXml(name)}"><value>${value === null ? '' : escapeXml(String(value))}</value></Data>`)
+            .join('');
+        return [
+            '      <Placemark>',
+            `        <name>${escapeXml(formatDateTime(point.timestamp, track.preferences, true))}</name>`,
+            `        <TimeStamp><when>${isoTime(point.timestamp)}</when></TimeStamp>`,
+            '        <styleUrl>#reading</styleUrl>',
+            `        <ExtendedData>${data}</ExtendedData>`,
+            `        <Point><coordinates>${kmlCoordinate(point)}</coordinates></Point>`,
+            '      </Placemark>',
+        ].join('\n');
+    };
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<kml xmlns="http://www.opengis.net/kml/2.2">',
+        '  <Document>',
+        `    <name>${escapeXml(track.name)}</name>`,
+        '    <Style id="route"><LineStyle><color>ffff0000</color><width>3</width></LineStyle></Style>',
+        '    <Style id="reading"><IconStyle><scale>0.5</scale></IconStyle><LabelStyle><scale>0</scale></LabelStyle></Style>',
+        '    <Placemark>',
+        `      <name>${escapeXml(track.name)}</name>`,
+        '      <styleUrl>#route</styleUrl>',
+        `      <LineString><tessellate>1</tessellate><coordinates>${points.map(kmlCoordinate).join(' ')}</coordinates></LineString>`,
+        '    </Placemark>',
+        '    <Folder>',
+        '      <name>Readings</name>',
+        ...points.map(placemark),
+        '    </Folder>',
+        '  </Document>',
+        '</kml>',
+        '',
+    ].join('\n');
+};
+
+const toGeoJson = (track: Track, points: HistoricalDataPoint[]): string => {
+    const position = (point: HistoricalDataPoint): number[] => [coordinate(point.location!.lng), coordinate(point.location!.lat)];
+    const route = {
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates: points.map(position) },
+        properties: {
+            name: track.name,
+            start: points.length > 0 ? isoTime(points[0].timestamp) : null,
+            end: points.length > 0 ? isoTime(points[points.length - 1].timestamp) : null,
+        },
+    };
+    const readings = points.map(point => {
+        const properties: { [name: string]: AttributeValue } = { timestamp: isoTime(point.timestamp) };
+        pointAttributes(track, point).forEach(([name, value]) => { properties[name] = value; });
+        return { type: 'Feature', geometry: { type: 'Point', coordinates: position(point) }, properties };
+    });
+    return JSON.stringify({ type: 'FeatureCollection', name: track.name, features: [route, ...readings] });
+};
+
+export const trackDocument = (track: Track, format: TrackFormat): string => {
+    const points = trackPoints(track.points);
+    switch (format) {
+        case 'gpx':
+            return toGpx(track, points);
+        case 'kml':
+            return toKml(track, points);
+        case 'geojson':
+            return toGeoJson(track, points);
+    }
+};
+
+export const trackFileName = (vehicleName: string, range: TimeRange, format: TrackFormat, preferences: DisplayPreferences): string =>
+    `track-${vehicleName.replace(/\s/g, '_')}-${rangeFileSuffix({ kind: 'custom', ...range }, range, displayTimeZone(preferences))}.${format}`;
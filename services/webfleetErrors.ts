@@ -0,0 +1,185 @@
+import { ApiResponse } from './apiTransport';
+
+export class WebfleetError extends Error {
+    constructor(
+        message: string,
+        public readonly action: string,
+        public readonly code: number | null = null,
+        public readonly status: number | null = null
+    ) {
+        super(message);
+        this.name = 'WebfleetError';
+    }
+}
+
+export class WebfleetAuthError extends WebfleetError {
+    constructor(message: string, action: string, code: number | null = null, status: number | null = null) {
+        super(message, action, code, status);
+        this.name = 'WebfleetAuthError';
+    }
+}
+
+export class WebfleetQuotaError extends WebfleetError {
+    constructor(action: string, public readonly retryAfterSeconds: number, code: number | null = null, status: number | null = null) {
+        super(`Webfleet request limit reached for ${action}. Please try again in ${retryAfterSeconds} seconds.`, action, code, status);
+        this.name = 'WebfleetQuotaError';
+    }
+}
+
+export class WebfleetInvalidParameterError extends WebfleetError {
+    constructor(message: string, action: string, code: number | null = null, status: number | null = null) {
+        super(message, action, code, status);
+        this.name = 'WebfleetInvalidParameterError';
+    }
+}
+
+export class WebfleetObjectNotFoundError extends WebfleetError {
+    constructor(message: string, action: string, code: number | null = null, status: number | null = null) {
+        super(message, action, code, status);
+        this.name = 'WebfleetObjectNotFoundError';
+    }
+}
+
+export class WebfleetFeatureNotLicensedError extends WebfleetError {
+    constructor(message: string, action: string, code: number | null = null, status: number | null = null) {
+        super(message, action, code, status);
+        this.name = 'WebfleetFeatureNotLicensedError';
+    }
+}
+
+export const QUOTA_ERROR_CODES = new Set([8011, 8012, 8013, 8014]);
+const AUTH_ERROR_CODES = new Set([45, 1101, 1102, 1103]);
+const FEATURE_NOT_LICENSED_ERROR_CODES = new Set([9198]);
+
+interface ParsedError {
+    code: number | null;
+    message: string;
+}
+
+// Webfleet reports errors as "<code>, <message>" in the body or the X-Webfleet-Errormessage header,
+// or as {"errorCode": ..., "errorMsg": ...} when JSON output is requested.
+export const parseErrorPayload = (response: ApiResponse): ParsedError | null => {
+    for (const text of [response.errorMessage, response.body]) {
+        const trimmed = text?.trim();
+        if (!trimmed) continue;
+
+        const match = trimmed.match(/^(\d+),\s*(.*)$/s);
+        if (match) {
+            return { code: parseInt(match[1], 10), message: match[2].trim() };
+        }
+
+        if (trimmed.startsWith('{')) {
+            try {
+                const parsed = JSON.parse(trimmed);
+                if (parsed && parsed.errorCode !== undefined) {
+                    return { code: Number(parsed.errorCode), message: String(parsed.errorMsg ?? '') };
+                }
+            } catch (e) {
+                // Not a JSON error document.
+            }
+        }
+    }
+    return null;
+};
+
+// Fallbacks for errors whose code is not one of the above. They are anchored to the start of Webfleet's own
+// wording, so that a parameter error naming the apikey parameter does not end the session and an address
+// lookup that found nothing does not pass for a vanished object or message queue.
+const AUTH_MESSAGE = /^(access denied|authentication failed|invalid (credentials|user ?name or password))\b/i;
+const OBJECT_NOT_FOUND_MESSAGE = /^(unknown object|object (not found|does not exist)|(message )?queue (not found|does not exist))\b/i;
+const INVALID_PARAMETER_MESSAGE = /^(invalid|missing) (parameter|value)\b/i;
+
+export const createWebfleetError = (action: string, response: ApiResponse, retryAfterSeconds = 60): WebfleetError => {
+    const parsed = parseErrorPayload(response);
+    const code = parsed?.code ?? null;
+    const message = parsed?.message || response.errorMessage || response.body || `HTTP ${response.status}`;
+    const status = response.status;
+    const text = message.trim();
+
+    if (code !== null) {
+        if (AUTH_ERROR_CODES.has(code)) return new WebfleetAuthError(message, action, code, status);
+        if (QUOTA_ERROR_CODES.has(code)) return new WebfleetQuotaError(action, retryAfterSeconds, code, status);
+        if (FEATURE_NOT_LICENSED_ERROR_CODES.has(code)) return new WebfleetFeatureNotLicensedError(message, action, code, status);
+    }
+    if (status === 401 || status === 403 || AUTH_MESSAGE.test(text)) {
+        return new WebfleetAuthError(message, action, code, status);
+    }
+    if (status === 429 || /quota|limit reached|too many requests/i.test(text)) {
+        return new WebfleetQuotaError(action, retryAfterSeconds, code, status);
+    }
+    if (/licen[cs]|not (available|activated|enabled) for|add-?on/i.test(text)) {
+        return new WebfleetFeatureNotLicensedError(message, action, code, status);
+    }
+    if (status === 404 || OBJECT_NOT_FOUND_MESSAGE.test(text)) {
+        return new WebfleetObjectNotFoundError(message, action, code, status);
+    }
+    if (status === 400 || INVALID_PARAMETER_MESSAGE.test(text)) {
+        return new WebfleetInvalidParameterError(message, action, code, status);
+    }
+    return new WebfleetError(message, action, code, status);
+};
+
+export type RecoveryAction = 'retry' | 'signIn' | 'none';
+
+export interface ErrorPresentation {
+    title: string;
+    message: string;
+    recovery: RecoveryAction;
+}
+
+const describeMissingFeature = (action: string): string => {
+    if (/Temperature/.test(action)) return 'This account has no temperature add-on, so temperature readings are not available.';
+    if (/DoorStatus/.test(action)) return 'This account has no refrigerated door add-on, so door states are not available.';
+    if (action === 'showTracks') return 'Track history is not included in this account\'s Webfleet licence.';
+    return `The Webfleet licence of this account does not include ${action}.`;
+};
+
+export const describeError = (error: unknown, fallbackMessage: string): ErrorPresentation => {
+    if (error instanceof WebfleetAuthError) {
+        return {
+            title: 'Authentication failed',
+            message: 'Webfleet rejected the credentials. Please check the API key, account name, username and password.',
+            recovery: 'signIn',
+        };
+    }
+    if (error instanceof WebfleetQuotaError) {
+        return {
+            title: 'Request limit reached',
+            message: `Webfleet limits how often ${error.action} may be called. Please try again in ${error.retryAfterSeconds} seconds.`,
+            recovery: 'retry',
+        };
+    }
+    if (error instanceof WebfleetFeatureNotLicensedError) {
+        return {
+            title: 'Feature not licensed',
+            message: describeMissingFeature(error.action),
+            recovery: 'none',
+        };
+    }
+    if (error instanceof WebfleetObjectNotFoundError) {
+        return {
+            title: 'Object not found',
+            message: 'Webfleet no longer knows this vehicle or asset. It may have been removed from the account.',
+            recovery: 'none',
+        };
+    }
+    if (error instanceof WebfleetInvalidParameterError) {
+        return {
+            title: 'Invalid request',
+            message: `Webfleet rejected the request parameters: ${error.message}`,
+            recovery: 'none',
+        };
+    }
+    if (error instanceof WebfleetError) {
+        return {
+            title: 'Webfleet error',
+            message: error.code !== null ? `${error.message} (code ${error.code})` : error.message,
+            recovery: 'retry',
+        };
+    }
+    return {
+        title: 'Error',
+        message: error instanceof Error ? error.message : fallbackMessage,
+        recovery: 'retry',
+    };
+};
@@ -0,0 +1,204 @@
+export type FieldType = 'string' | 'number' | 'isoDate' | 'doorStatus';
+
+export interface FieldSpec {
+    type: FieldType;
+    optional?: boolean;
+}
+
+export type Schema<T> = { [K in keyof T]-?: FieldSpec };
+
+export interface RecordIssue {
+    action: string;
+    receivedAt: number;
+    problems: string[];
+    record: unknown;
+}
+
+export interface ObjectReportDto {
+    objectuid: string;
+    objectname: string;
+    objectclass?: string;
+    latitude_mdeg?: number;
+    longitude_mdeg?: number;
+    postext?: string;
+}
+
+export interface CurrentTemperatureDto {
+    objectuid: string;
+    timestamp?: string;
+    temperature: number;
+    sensor?: number;
+    sensorcode?: string;
+    sensorname?: string;
+}
+
+export interface CurrentDoorStatusDto {
+    objectuid: string;
+    timestamp?: string;
+    status: 'OPEN' | 'CLOSED';
+    sensor?: number;
+    sensorcode?: string;
+}
+
+export interface HistoricalTemperatureDto {
+    timestamp: string;
+    temperature: number;
+    sensor?: number;
+    sensorcode?: string;
+    sensorname?: string;
+}
+
+export interface HistoricalDoorStatusDto {
+    timestamp: string;
+    status: 'OPEN' | 'CLOSED';
+    sensor?: number;
+    sensorcode?: string;
+}
+
+export interface TrackPointDto {
+    pos_time: string;
+    latitude: number;
+    longitude: number;
+    postext?: string;
+}
+
+export interface TripReportDto {
+    start_time: string;
+    end_time: string;
+    start_addr?: string;
+    end_addr?: string;
+    distance: number;
+    duration: number;
+}
+
+export interface QueueMessageDto {
+    objectuid: string;
+    msg_time?: string;
+    pos_latitude?: number;
+    pos_longitude?: number;
+    pos_text?: string;
+    temperature?: number;
+    status?: 'OPEN' | 'CLOSED';
+    sensor?: number;
+    sensorcode?: string;
+    sensorname?: string;
+}
+
+export interface HistoricalRawData {
+    getHistoricalTemperatureData: HistoricalTemperatureDto[];
+    getHistoricalRefrigeratedDoorStatusData: HistoricalDoorStatusDto[];
+    showTracks: TrackPointDto[];
+}
+
+export const objectReportSchema: Schema<ObjectReportDto> = {
+    objectuid: { type: 'string' },
+    objectname: { type: 'string' },
+    objectclass: { type: 'string', optional: true },
+    latitude_mdeg: { type: 'number', optional: true },
+    longitude_mdeg: { type: 'number', optional: true },
+    postext: { type: 'string', optional: true },
+};
+
+export const currentTemperatureSchema: Schema<CurrentTemperatureDto> = {
+    objectuid: { type: 'string' },
+    timestamp: { type: 'isoDate', optional: true },
+    temperature: { type: 'number' },
+    sensor: { type: 'number', optional: true },
+    sensorcode: { type: 'string', optional: true },
+    sensorname: { type: 'string', optional: true },
+};
+
+export const currentDoorStatusSchema: Schema<CurrentDoorStatusDto> = {
+    objectuid: { type: 'string' },
+    timestamp: { type: 'isoDate', optional: true },
+    status: { type: 'doorStatus' },
+    sensor: { type: 'number', optional: true },
+    sensorcode: { type: 'string', optional: true },
+};
+
+export const historicalTemperatureSchema: Schema<HistoricalTemperatureDto> = {
+    timestamp: { type: 'isoDate' },
+    temperature: { type: 'number' },
+    sensor: { type: 'number', optional: true },
+    sensorcode: { type: 'string', optional: true },
+    sensorname: { type: 'string', optional: true },
+};
+
+export const historicalDoorStatusSchema: Schema<HistoricalDoorStatusDto> = {
+    timestamp: { type: 'isoDate' },
+    status: { type: 'doorStatus' },
+    sensor: { type: 'number', optional: true },
+    sensorcode: { type: 'string', optional: true },
+};
+
+export const trackPointSchema: Schema<TrackPointDto> = {
+    pos_time: { type: 'isoDate' },
+    latitude: { type: 'number' },
+    longitude: { type: 'number' },
+    postext: { type: 'string', optional: true },
+};
+
+export const tripReportSchema: Schema<TripReportDto> = {
+    start_time: { type: 'isoDate' },
+    end_time: { type: 'isoDate' },
+    start_addr: { type: 'string', optional: true },
+    end_addr: { type: 'string', optional: true },
+    distance: { type: 'number' },
+    duration: { type: 'number' },
+};
+
+export const queueMessageSchema: Schema<QueueMessageDto> = {
+    objectuid: { type: 'string' },
+    msg_time: { type: 'isoDate', optional: true },
+    pos_latitude: { type: 'number', optional: true },
+    pos_longitude: { type: 'number', optional: true },
+    pos_text: { type: 'string', optional: true },
+    temperature: { type: 'number', optional: true },
+    status: { type: 'doorStatus', optional: true },
+    sensor: { type: 'number', optional: true },
+    sensorcode: { type: 'string', optional: true },
+    sensorname: { type: 'string', optional: true },
+};
+
+const checkField = (value: unknown, spec: FieldSpec): string | null => {
+    if (value === undefined || value === null || value === '') {
+        return spec.optional ? null : 'is missing';
+    }
+    switch (spec.type) {
+        case 'string':
+            return typeof value === 'string' ? null : `expected a string, got ${typeof value}`;
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value) ? null : `expected a number, got ${JSON.stringify(value)}`;
+        case 'isoDate':
+            return typeof value === 'string' && !isNaN(new Date(value).getTime()) ? null : `expected an ISO 8601 date, got ${JSON.stringify(value)}`;
+        case 'doorStatus':
+            return value === 'OPEN' || value === 'CLOSED' ? null : `expected OPEN or CLOSED, got ${JSON.stringify(value)}`;
+    }
+};
+
+export const validateRecords = <T>(action: string, response: unknown, schema: Schema<T>): { valid: T[]; issues: RecordIssue[] } => {
+    const records: unknown[] = Array.isArray(response) ? response : (response ? [response] : []);
+    const valid: T[] = [];
+    const issues: RecordIssue[] = [];
+    const receivedAt = Date.now();
+
+    records.forEach(record => {
+        if (typeof record !== 'object' || record === null) {
+            issues.push({ action, receivedAt, problems: ['record is not an object'], record });
+            return;
+        }
+
+        const problems = (Object.keys(schema) as (keyof T & string)[]).flatMap(field => {
+            const problem = checkField((record as Record<string, unknown>)[field], schema[field]);
+            return problem ? [`${field} ${problem}`] : [];
+        });
+
+        if (problems.length === 0) {
+            valid.push(record as T);
+        } else {
+            issues.push({ action, receivedAt, problems, record });
+        }
+    });
+
+    return { valid, issues };
+};
@@ -1,57 +1,127 @@
-import { AuthCredentials, Vehicle, DoorStatus, HistoricalDataPoint, TemperatureReading, Trip } from '../types';
-
-const API_BASE_URL = 'https://csv.webfleet.com/extern';
+import { AuthCredentials, Vehicle, VehicleUpdate, DoorStatus, HistoricalDataPoint, TemperatureReading, Trip, HistoricalAction, HistoricalWindow, HistoricalDataResult, DataGap, TimeRange } from '../types';
+import { ApiResponse, ApiTransport, fetchTransport } from './apiTransport';
+import { Clock, FetchControl, FleetDataSource, HistoricalDataOptions, QueueBatch, systemClock } from './dataSource';
+import { RequestOutcome, RequestScheduler } from './requestScheduler';
+import { isAbortError, mapWithConcurrency } from './concurrency';
+import { QUOTA_ERROR_CODES, WebfleetAuthError, WebfleetError, WebfleetFeatureNotLicensedError, createWebfleetError, describeError, parseErrorPayload } from './webfleetErrors';
+import { ResponseDiagnostics } from './responseDiagnostics';
+import { SensorIdentity, SensorKind, SensorRegistry } from './sensorRegistry';
+import {
+    Schema,
+    HistoricalRawData,
+    ObjectReportDto,
+    CurrentTemperatureDto,
+    CurrentDoorStatusDto,
+    TripReportDto,
+    QueueMessageDto,
+    validateRecords,
+    objectReportSchema,
+    currentTemperatureSchema,
+    currentDoorStatusSchema,
+    historicalTemperatureSchema,
+    historicalDoorStatusSchema,
+    trackPointSchema,
+    tripReportSchema,
+    queueMessageSchema,
+} from './webfleetSchemas';
+
+export type { HistoricalDataOptions } from './dataSource';
+
+const SEVEN_DAYS_MS = 7 * 24 * 60 * 60 * 1000;
+const TWO_DAYS_MS = 2 * 24 * 60 * 60 * 1000;
+
+const HISTORICAL_ACTIONS: HistoricalAction[] = ['getHistoricalTemperatureData', 'getHistoricalRefrigeratedDoorStatusData', 'showTracks'];
+
+const MAX_CHUNK_DURATION_MS: Record<HistoricalAction, number> = {
+    getHistoricalTemperatureData: SEVEN_DAYS_MS,
+    getHistoricalRefrigeratedDoorStatusData: SEVEN_DAYS_MS,
+    showTracks: TWO_DAYS_MS,
+};
+
+const HISTORICAL_SCHEMAS: { [A in HistoricalAction]: Schema<HistoricalRawData[A][number]> } = {
+    getHistoricalTemperatureData: historicalTemperatureSchema,
+    getHistoricalRefrigeratedDoorStatusData: historicalDoorStatusSchema,
+    showTracks: trackPointSchema,
+};
+
+const DEFAULT_MAX_CONCURRENT_CHUNKS = 3;
+
+// Message class 0 subscribes the queue to every message type of the account.
+const QUEUE_MESSAGE_CLASS = 0;
+
+interface ChunkProgress {
+    completed: number;
+    total: number;
+}
 
-export interface HistoricalDataOptions {
-    objectuid: string;
-    rangePattern?: string;
-    startTime?: number;
-    endTime?: number;
+interface ActionFetchResult<T> {
+    records: T[];
+    gaps: DataGap[];
+    unavailableReason: string | null;
 }
 
-class WebfleetService {
-    private static async apiRequest(action: string, params: Record<string, any>, auth: AuthCredentials): Promise<any> {
-        const { accountName, username, password, apiKey } = auth;
+interface HistoricalFetchOutcome {
+    rawData: HistoricalRawData;
+    gaps: DataGap[];
+    unavailable: HistoricalDataResult['unavailable'];
+}
 
-        if (!username || !password) {
-            throw new Error("Username and password are required for authentication.");
-        }
+class WebfleetService implements FleetDataSource {
+    constructor(
+        private readonly transport: ApiTransport = fetchTransport,
+        private readonly scheduler: RequestScheduler = new RequestScheduler(),
+        public readonly diagnostics: ResponseDiagnostics = new ResponseDiagnostics(),
+        public readonly sensors: SensorRegistry = new SensorRegistry(),
+        private readonly clock: Clock = systemClock
+    ) {}
+
+    public now(): number {
+        return this.clock();
+    }
 
-        const url = new URL(API_BASE_URL);
+    private readonly authFailureListeners = new Set<(error: WebfleetAuthError) => void>();
 
-        const queryParams: Record<string, any> = {
-            ...params,
-            action,
-            account: accountName,
-            apikey: apiKey,
-            outputformat: 'json',
-            lang: 'en',
-            useISO8601: 'true',
+    // Lets the session notice credentials that stopped working mid-session.
+    public onAuthFailure(listener: (error: WebfleetAuthError) => void): () => void {
+        this.authFailureListeners.add(listener);
+        return () => {
+            this.authFailureListeners.delete(listener);
         };
-        
-        for (const key in queryParams) {
-            if (queryParams[key] !== undefined && queryParams[key] !== null) {
-                url.searchParams.append(key, queryParams[key].toString());
-            }
-        }
+    }
 
-        const basicAuth = btoa(`${username}:${password}`);
+    private static classifyResponse(response: ApiResponse): RequestOutcome {
+        const errorCode = parseErrorPayload(response)?.code ?? null;
+        if (response.status === 429 || (errorCode !== null && QUOTA_ERROR_CODES.has(errorCode))) {
+            return { kind: 'quota' };
+        }
+        if (response.status >= 500) {
+            return { kind: 'transient' };
+        }
+        return { kind: 'ok' };
+    }
 
-        const response = await fetch(url.toString(), {
-            method: 'GET',
-            headers: {
-                'Authorization': `Basic ${basicAuth}`,
-            },
-        });
-        
-        const responseText = await response.text();
+    private async apiRequest(action: string, params: Record<string, any>, auth: AuthCredentials, signal?: AbortSignal): Promise<any> {
+        const requestParams: Record<string, string> = {};
+        for (const key in params) {
+            if (params[key] !== undefined && params[key] !== null) {
+                requestParams[key] = params[key].toString();
+            }
+        }
 
-        if (!response.ok) {
-            if (response.status === 401) {
-                throw new Error('Authentication failed. Please check your username and password.');
+        const response = await this.scheduler.run(
+            action,
+            () => this.transport.send(action, requestParams, auth, signal),
+            WebfleetService.classifyResponse,
+            signal
+        );
+        const responseText = response.body;
+
+        if (response.status < 200 || response.status >= 300 || parseErrorPayload(response)) {
+            const error = createWebfleetError(action, response);
+            if (error instanceof WebfleetAuthError) {
+                this.authFailureListeners.forEach(listener => listener(error));
             }
-            const errMessage = response.headers.get('X-Webfleet-Errormessage') || responseText;
-            throw new Error(`API Error: ${errMessage} (Status: ${response.status})`);
+            throw error;
         }
 
         if (!responseText || responseText.includes('document is empty') || responseText.trim() === '[]') {
@@ -61,167 +131,184 @@ class WebfleetService {
         try {
             return JSON.parse(responseText);
         } catch (e) {
-            if (typeof responseText === 'string' && responseText.match(/^\d+,/)) {
-                throw new Error(`API Error: ${responseText}`);
-            }
             console.error("Failed to parse JSON from API response:", responseText);
-            throw new Error("Received an invalid or malformed response from the server.");
+            throw new WebfleetError("Received an invalid or malformed response from the server.", action, null, response.status);
         }
     }
 
-    private static async getChunkedHistoricalData(
+    private async fetchRecords<T>(
+        action: string,
+        params: Record<string, any>,
+        schema: Schema<T>,
         auth: AuthCredentials,
+        signal?: AbortSignal
+    ): Promise<T[]> {
+        return (await this.fetchRecordBatch(action, params, schema, auth, signal)).valid;
+    }
+
+    // Also tells how many records the response held, the invalid ones included.
+    private async fetchRecordBatch<T>(
         action: string,
-        baseParams: Record<string, any>,
-        startTime: number,
-        endTime: number,
-        maxDurationMs: number
-    ): Promise<any[]> {
-        let allData: any[] = [];
+        params: Record<string, any>,
+        schema: Schema<T>,
+        auth: AuthCredentials,
+        signal?: AbortSignal
+    ): Promise<{ valid: T[]; received: number }> {
+        const response = await this.apiRequest(action, params, auth, signal);
+        const { valid, issues } = validateRecords(action, response, schema);
+        this.diagnostics.report(issues);
+        return { valid, received: valid.length + issues.length };
+    }
+
+    private static splitIntoWindows(startTime: number, endTime: number, maxDurationMs: number): HistoricalWindow[] {
+        const windows: HistoricalWindow[] = [];
         let currentStartTime = startTime;
 
         while (currentStartTime < endTime) {
             const currentEndTime = Math.min(currentStartTime + maxDurationMs, endTime);
-            
-            const params = {
-                ...baseParams,
-                rangefrom_string: new Date(currentStartTime).toISOString(),
-                rangeto_string: new Date(currentEndTime).toISOString(),
-                range_pattern: 'ud'
-            };
+            windows.push({ startTime: currentStartTime, endTime: currentEndTime, rangePattern: null });
+            currentStartTime = currentEndTime;
+        }
+        return windows;
+    }
+
+    private async fetchHistoricalWindows<A extends HistoricalAction>(
+        auth: AuthCredentials,
+        action: A,
+        objectuid: string,
+        windows: HistoricalWindow[],
+        control: FetchControl,
+        progress: ChunkProgress
+    ): Promise<ActionFetchResult<HistoricalRawData[A][number]>> {
+        type RecordType = HistoricalRawData[A][number];
+        const schema = HISTORICAL_SCHEMAS[action] as Schema<RecordType>;
+        let unavailableReason: string | null = null;
+
+        const windowResults = await mapWithConcurrency(windows, control.maxConcurrentChunks ?? DEFAULT_MAX_CONCURRENT_CHUNKS, async window => {
+            if (unavailableReason) {
+                return { records: [] as RecordType[], gap: null };
+            }
+
+            const params = window.rangePattern
+                ? { objectuid, range_pattern: window.rangePattern }
+                : {
+                    objectuid,
+                    rangefrom_string: new Date(window.startTime!).toISOString(),
+                    rangeto_string: new Date(window.endTime!).toISOString(),
+                    range_pattern: 'ud'
+                };
 
             try {
-                const chunkData = await this.apiRequest(action, params, auth);
-                if (chunkData) {
-                    allData = allData.concat(Array.isArray(chunkData) ? chunkData : [chunkData]);
-                }
+                const records = await this.fetchRecords(action, params, schema, auth, control.signal);
+                return { records, gap: null };
             } catch (error) {
-                console.error(`Error fetching chunk for ${action} from ${new Date(currentStartTime)} to ${new Date(currentEndTime)}:`, error);
+                if (error instanceof WebfleetAuthError || isAbortError(error)) {
+                    throw error;
+                }
+                if (error instanceof WebfleetFeatureNotLicensedError) {
+                    // Nothing is missing when the account cannot record this data in the first place.
+                    unavailableReason = describeError(error, error.message).message;
+                    return { records: [] as RecordType[], gap: null };
+                }
+                console.error(`Error fetching ${action} for window ${window.rangePattern ?? `${new Date(window.startTime!)} to ${new Date(window.endTime!)}`}:`, error);
+                const gap: DataGap = {
+                    ...window,
+                    action,
+                    reason: error instanceof Error ? error.message : String(error),
+                };
+                return { records: [] as RecordType[], gap };
+            } finally {
+                progress.completed++;
+                control.onProgress?.({ completedChunks: progress.completed, totalChunks: progress.total });
             }
+        }, control.signal);
 
-            currentStartTime = currentEndTime;
-        }
-        return allData;
+        return {
+            records: windowResults.flatMap(result => result.records),
+            gaps: windowResults.flatMap(result => result.gap ? [result.gap] : []),
+            unavailableReason,
+        };
     }
 
-    public static async login(credentials: AuthCredentials): Promise<AuthCredentials> {
+    public async login(credentials: AuthCredentials): Promise<AuthCredentials> {
         await this.apiRequest('showUserReportExtern', {}, credentials);
         return credentials;
     }
     
-    public static async logout(auth: AuthCredentials): Promise<void> {
-        return Promise.resolve();
+    // Webfleet has no server-side session for Basic auth, so signing out means forgetting everything fetched.
+    public async logout(auth: AuthCredentials): Promise<void> {
+        this.authFailureListeners.clear();
+        this.diagnostics.clear();
+        this.sensors.clear();
     }
 
-    public static async getVehiclesAndAssets(auth: AuthCredentials): Promise<Vehicle[]> {
-        if (!auth.apiKey) throw new Error("API Key is required to fetch vehicle data.");
-
+    public async getVehiclesAndAssets(auth: AuthCredentials, signal?: AbortSignal): Promise<Vehicle[]> {
         const [vehicleData, tempData, doorData] = await Promise.all([
-            this.apiRequest('showObjectReportExtern', { objectclass: 'asset,vehicle' }, auth),
-            this.apiRequest('getCurrentTemperatureData', {}, auth).catch(() => []),
-            this.apiRequest('getCurrentRefrigeratedDoorStatusData', {}, auth).catch(() => []),
+            this.fetchRecords<ObjectReportDto>('showObjectReportExtern', { objectclass: 'asset,vehicle' }, objectReportSchema, auth, signal),
+            this.fetchRecords<CurrentTemperatureDto>('getCurrentTemperatureData', {}, currentTemperatureSchema, auth, signal).catch(() => []),
+            this.fetchRecords<CurrentDoorStatusDto>('getCurrentRefrigeratedDoorStatusData', {}, currentDoorStatusSchema, auth, signal).catch(() => []),
         ]);
 
-        if (!vehicleData || !Array.isArray(vehicleData)) {
-            return [];
-        }
-
         const tempMap = new Map<string, { [id: number]: TemperatureReading }>();
-        if (Array.isArray(tempData)) {
-            const readingsByUid = new Map<string, any[]>();
-            tempData.forEach(item => {
-                if (item.objectuid && typeof item.temperature === 'number') {
-                    if (!readingsByUid.has(item.objectuid)) {
-                        readingsByUid.set(item.objectuid, []);
-                    }
-                    readingsByUid.get(item.objectuid)!.push(item);
-                }
-            });
-    
-            readingsByUid.forEach((readings, uid) => {
-                const vehicleTemps: { [id: number]: TemperatureReading } = {};
-                const usedSensorIds = new Set<number>();
-                
-                readings.forEach(item => {
-                    if (item.sensor) {
-                        vehicleTemps[item.sensor] = {
-                            value: item.temperature,
-                            name: item.sensorname || `Sensor ${item.sensor}`
-                        };
-                        usedSensorIds.add(item.sensor);
-                    }
-                });
-    
-                let nextSensorId = 1;
-                readings.forEach(item => {
-                    if (!item.sensor) {
-                        while (usedSensorIds.has(nextSensorId)) {
-                            nextSensorId++;
-                        }
-                        vehicleTemps[nextSensorId] = {
-                            value: item.temperature,
-                            name: item.sensorname || `Sensor ${nextSensorId}`
-                        };
-                        usedSensorIds.add(nextSensorId);
-                    }
-                });
-                
-                tempMap.set(uid, vehicleTemps);
+        const readingsByUid = new Map<string, CurrentTemperatureDto[]>();
+        tempData.forEach(item => {
+            if (!readingsByUid.has(item.objectuid)) {
+                readingsByUid.set(item.objectuid, []);
+            }
+            readingsByUid.get(item.objectuid)!.push(item);
+        });
+
+        readingsByUid.forEach((readings, uid) => {
+            const vehicleTemps: { [id: number]: TemperatureReading } = {};
+            const sensorIds = this.sensors.resolve(uid, 'temperature', readings);
+            readings.forEach((item, index) => {
+                vehicleTemps[sensorIds[index]] = {
+                    value: item.temperature,
+                    name: this.sensors.label(uid, 'temperature', sensorIds[index]),
+                    ...(item.timestamp ? { readAt: new Date(item.timestamp).getTime() } : {}),
+                };
             });
-        }
+            tempMap.set(uid, vehicleTemps);
+        });
 
         const doorMap = new Map<string, { [id: number]: DoorStatus }>();
-        if (Array.isArray(doorData)) {
-            const doorReadingsByUid = new Map<string, any[]>();
-            doorData.forEach(item => {
-                if (item.objectuid && item.status) {
-                    if (!doorReadingsByUid.has(item.objectuid)) {
-                        doorReadingsByUid.set(item.objectuid, []);
-                    }
-                    doorReadingsByUid.get(item.objectuid)!.push(item);
-                }
-            });
-    
-            doorReadingsByUid.forEach((readings, uid) => {
-                const vehicleDoors: { [id: number]: DoorStatus } = {};
-                const usedSensorIds = new Set<number>();
-                
-                readings.forEach(item => {
-                    if (item.sensor) {
-                        vehicleDoors[item.sensor] = item.status === 'OPEN' ? DoorStatus.OPEN : DoorStatus.CLOSED;
-                        usedSensorIds.add(item.sensor);
-                    }
-                });
-    
-                let nextSensorId = 1;
-                readings.forEach(item => {
-                    if (!item.sensor) {
-                        while (usedSensorIds.has(nextSensorId)) {
-                            nextSensorId++;
-                        }
-                        vehicleDoors[nextSensorId] = item.status === 'OPEN' ? DoorStatus.OPEN : DoorStatus.CLOSED;
-                        usedSensorIds.add(nextSensorId);
-                    }
-                });
-                
-                if (Object.keys(vehicleDoors).length > 0) {
-                    doorMap.set(uid, vehicleDoors);
-                }
+        const doorReadAtMap = new Map<string, { [id: number]: number }>();
+        const doorReadingsByUid = new Map<string, CurrentDoorStatusDto[]>();
+        doorData.forEach(item => {
+            if (!doorReadingsByUid.has(item.objectuid)) {
+                doorReadingsByUid.set(item.objectuid, []);
+            }
+            doorReadingsByUid.get(item.objectuid)!.push(item);
+        });
+
+        doorReadingsByUid.forEach((readings, uid) => {
+            const vehicleDoors: { [id: number]: DoorStatus } = {};
+            const readAt: { [id: number]: number } = {};
+            const sensorIds = this.sensors.resolve(uid, 'door', readings);
+            readings.forEach((item, index) => {
+                vehicleDoors[sensorIds[index]] = item.status === 'OPEN' ? DoorStatus.OPEN : DoorStatus.CLOSED;
+                if (item.timestamp) readAt[sensorIds[index]] = new Date(item.timestamp).getTime();
             });
-        }
+            if (Object.keys(vehicleDoors).length > 0) {
+                doorMap.set(uid, vehicleDoors);
+                doorReadAtMap.set(uid, readAt);
+            }
+        });
         
-        return vehicleData.map((item: any): Vehicle => {
-            const hasLocation = typeof item.latitude_mdeg === 'number' && typeof item.longitude_mdeg === 'number';
+        return vehicleData.map((item): Vehicle => {
+            const hasLocation = item.latitude_mdeg !== undefined && item.longitude_mdeg !== undefined;
             return {
                 uid: item.objectuid,
                 name: item.objectname,
                 type: item.objectclass === 'asset' ? 'Asset' : 'Vehicle',
+                account: auth.accountName,
                 temperatures: tempMap.get(item.objectuid) ?? null,
                 doorStatus: doorMap.get(item.objectuid) ?? null,
+                doorReadAt: doorReadAtMap.get(item.objectuid),
                 location: hasLocation
                     ? {
-                        lat: item.latitude_mdeg / 1000000,
-                        lng: item.longitude_mdeg / 1000000,
+                        lat: item.latitude_mdeg! / 1000000,
+                        lng: item.longitude_mdeg! / 1000000,
                         address: item.postext || 'Address not available',
                     }
                     : null,
@@ -229,80 +316,85 @@ class WebfleetService {
         });
     }
 
-    private static assignStableIds(data: any[], valueKey: 'temperature' | 'status'): any[] {
-        if (!Array.isArray(data) || data.length === 0) {
-            return [];
-        }
-    
-        const readingsByTs = new Map<number, any[]>();
-        const explicitIds = new Set<number>();
-    
-        // First pass: Group by timestamp and find all explicit IDs
-        data.forEach(d => {
-            const ts = d.timestamp ? new Date(d.timestamp).getTime() : null;
-            if (ts && !isNaN(ts) && (d[valueKey] !== undefined)) {
-                if (!readingsByTs.has(ts)) readingsByTs.set(ts, []);
-                readingsByTs.get(ts)!.push(d);
-                if (d.sensor) {
-                    explicitIds.add(d.sensor);
+    public async createMessageQueue(auth: AuthCredentials, signal?: AbortSignal): Promise<void> {
+        await this.apiRequest('createQueueExtern', { msgclass: QUEUE_MESSAGE_CLASS }, auth, signal);
+    }
+
+    public async popQueueMessages(auth: AuthCredentials, signal?: AbortSignal): Promise<QueueBatch> {
+        const { valid: messages, received } = await this.fetchRecordBatch<QueueMessageDto>(
+            'popQueueMessagesExtern', { msgclass: QUEUE_MESSAGE_CLASS }, queueMessageSchema, auth, signal
+        );
+
+        const updates = messages
+            .map((item): VehicleUpdate | null => {
+                const timestamp = item.msg_time ? new Date(item.msg_time).getTime() : this.clock();
+                const update: VehicleUpdate = { uid: item.objectuid, account: auth.accountName, timestamp: isNaN(timestamp) ? this.clock() : timestamp };
+
+                if (item.pos_latitude !== undefined && item.pos_longitude !== undefined) {
+                    update.location = {
+                        lat: item.pos_latitude / 1000000,
+                        lng: item.pos_longitude / 1000000,
+                        address: item.pos_text || 'Address not available',
+                    };
                 }
-            }
-        });
-        
-        // Find the maximum number of anonymous sensors at any single point in time
-        let maxAnonCount = 0;
-        readingsByTs.forEach(readings => {
-            const anonCount = readings.filter(r => !r.sensor).length;
-            if (anonCount > maxAnonCount) {
-                maxAnonCount = anonCount;
-            }
+                if (item.temperature !== undefined) {
+                    const [sensorId] = this.sensors.resolve(item.objectuid, 'temperature', [item]);
+                    update.temperatures = {
+                        [sensorId]: { value: item.temperature, name: this.sensors.label(item.objectuid, 'temperature', sensorId) },
+                    };
+                }
+                if (item.status) {
+                    const [sensorId] = this.sensors.resolve(item.objectuid, 'door', [item]);
+                    update.doorStatus = { [sensorId]: item.status === 'OPEN' ? DoorStatus.OPEN : DoorStatus.CLOSED };
+                }
+
+                return update.location || update.temperatures || update.doorStatus ? update : null;
+            })
+            .filter((update): update is VehicleUpdate => update !== null);
+        return { updates, received };
+    }
+
+    public async ackQueueMessages(auth: AuthCredentials, signal?: AbortSignal): Promise<void> {
+        await this.apiRequest('ackQueueMessagesExtern', { msgclass: QUEUE_MESSAGE_CLASS }, auth, signal);
+    }
+
+    // Readings reported at the same moment are resolved together so anonymous probes keep their positions.
+    private withSensorIds<T extends SensorIdentity & { timestamp: string }>(
+        objectuid: string,
+        kind: SensorKind,
+        data: T[]
+    ): { reading: T; sensorId: number }[] {
+        const readingsByTs = new Map<number, T[]>();
+        data.forEach(d => {
+            const ts = new Date(d.timestamp).getTime();
+            if (!readingsByTs.has(ts)) readingsByTs.set(ts, []);
+            readingsByTs.get(ts)!.push(d);
         });
-    
-        if (maxAnonCount === 0) {
-            return data; // No changes needed
-        }
-    
-        const maxExplicitId = explicitIds.size > 0 ? Math.max(...Array.from(explicitIds)) : 0;
-        const anonIdPool = Array.from({ length: maxAnonCount }, (_, i) => maxExplicitId + 1 + i);
-    
-        const processedData: any[] = [];
-        readingsByTs.forEach(readings => {
-            const anonReadings = readings.filter(r => !r.sensor);
-            const explicitReadings = readings.filter(r => r.sensor);
-    
-            // Assign stable IDs from the pool to the anonymous readings for this timestamp
-            const updatedAnonReadings = anonReadings.map((reading, index) => ({
-                ...reading,
-                sensor: anonIdPool[index]
-            }));
-            
-            processedData.push(...updatedAnonReadings, ...explicitReadings);
+
+        return Array.from(readingsByTs.values()).flatMap(readings => {
+            const sensorIds = this.sensors.resolve(objectuid, kind, readings);
+            return readings.map((reading, index) => ({ reading, sensorId: sensorIds[index] }));
         });
-    
-        return processedData;
     }
 
-    public static async getTrips(
+    public async getTrips(
         auth: AuthCredentials,
         objectuid: string,
-        rangePattern: string
+        range: string | TimeRange,
+        signal?: AbortSignal
     ): Promise<Trip[]> {
-        if (!auth.apiKey) throw new Error("API Key is required to fetch trip data.");
-
-        const params = {
-            objectuid,
-            range_pattern: rangePattern,
-        };
+        const params = typeof range === 'string'
+            ? { objectuid, range_pattern: range }
+            : {
+                objectuid,
+                rangefrom_string: new Date(range.startTime).toISOString(),
+                rangeto_string: new Date(range.endTime).toISOString(),
+                range_pattern: 'ud'
+            };
         
-        const tripDataResponse = await this.apiRequest('showTripReportExtern', params, auth);
-
-        const tripData = Array.isArray(tripDataResponse) ? tripDataResponse : (tripDataResponse ? [tripDataResponse] : []);
-
-        if (!tripData || tripData.length === 0) {
-            return [];
-        }
+        const tripData = await this.fetchRecords<TripReportDto>('showTripReportExtern', params, tripReportSchema, auth, signal);
 
-        return tripData.map((item: any): Trip => ({
+        return tripData.map((item): Trip => ({
             startTime: new Date(item.start_time).getTime(),
             endTime: new Date(item.end_time).getTime(),
             startAddress: item.start_addr || 'Address not available',
@@ -312,57 +404,98 @@ class WebfleetService {
         }));
     }
 
-    public static async getHistoricalData(
+    public async getHistoricalData(
         auth: AuthCredentials,
-        options: HistoricalDataOptions
-    ): Promise<HistoricalDataPoint[]> {
-        if (!auth.apiKey) throw new Error("API Key is required to fetch historical data.");
-    
+        options: HistoricalDataOptions,
+        control: FetchControl = {}
+    ): Promise<HistoricalDataResult> {
         const { objectuid, rangePattern, startTime, endTime } = options;
-    
-        const baseParams: Record<string, any> = { objectuid };
-        let tempPromise, doorPromise, trackPromise;
-        const SEVEN_DAYS_MS = 7 * 24 * 60 * 60 * 1000;
-        const TWO_DAYS_MS = 2 * 24 * 60 * 60 * 1000;
-    
+
+        let windowsFor: (action: HistoricalAction) => HistoricalWindow[];
         if (rangePattern) {
-            const params = { ...baseParams, range_pattern: rangePattern };
-            tempPromise = this.apiRequest('getHistoricalTemperatureData', params, auth).catch(() => []);
-            doorPromise = this.apiRequest('getHistoricalRefrigeratedDoorStatusData', params, auth).catch(() => []);
-            trackPromise = this.apiRequest('showTracks', params, auth).catch(() => []);
+            windowsFor = () => [{ startTime: null, endTime: null, rangePattern }];
         } else if (startTime && endTime) {
-            tempPromise = this.getChunkedHistoricalData(auth, 'getHistoricalTemperatureData', baseParams, startTime, endTime, SEVEN_DAYS_MS);
-            doorPromise = this.getChunkedHistoricalData(auth, 'getHistoricalRefrigeratedDoorStatusData', baseParams, startTime, endTime, SEVEN_DAYS_MS);
-            trackPromise = this.getChunkedHistoricalData(auth, 'showTracks', baseParams, startTime, endTime, TWO_DAYS_MS);
+            windowsFor = action => WebfleetService.splitIntoWindows(startTime, endTime, MAX_CHUNK_DURATION_MS[action]);
         } else {
             throw new Error("Either rangePattern or startTime/endTime must be provided.");
         }
-    
-        const [rawTempData, rawDoorData, trackData] = await Promise.all([
-            tempPromise,
-            doorPromise,
-            trackPromise
-        ]);
-    
-        // Normalize sensor identifier property from 'sensorcode' (hex string) to 'sensor' (number)
-        const normalizeSensorData = (data: any[]) => {
-            if (!Array.isArray(data)) return [];
-            return data.map(d => {
-                if (d.sensorcode && typeof d.sensor === 'undefined') {
-                    const numericId = parseInt(d.sensorcode, 16);
-                    if (!isNaN(numericId)) {
-                        return { ...d, sensor: numericId };
-                    }
-                }
-                return d;
-            });
+
+        const progress: ChunkProgress = {
+            completed: 0,
+            total: HISTORICAL_ACTIONS.reduce((sum, action) => sum + windowsFor(action).length, 0),
+        };
+        control.onProgress?.({ completedChunks: 0, totalChunks: progress.total });
+
+        const { rawData, gaps, unavailable } = await this.fetchAllHistorical(auth, objectuid, windowsFor, control, progress);
+
+        const points = this.buildHistoricalPoints(objectuid, rawData);
+        console.log(`[WebfleetService] Found ${points.length} filtered historical data points for object ${objectuid} (${gaps.length} missing windows).`);
+        return { objectuid, points, gaps, unavailable, rawData };
+    }
+
+    public async retryHistoricalGaps(
+        auth: AuthCredentials,
+        previous: HistoricalDataResult,
+        control: FetchControl = {}
+    ): Promise<HistoricalDataResult> {
+        const progress: ChunkProgress = { completed: 0, total: previous.gaps.length };
+        control.onProgress?.({ completedChunks: 0, totalChunks: progress.total });
+
+        const retried = await this.fetchAllHistorical(
+            auth,
+            previous.objectuid,
+            action => previous.gaps.filter(gap => gap.action === action),
+            control,
+            progress
+        );
+
+        const rawData: HistoricalRawData = {
+            getHistoricalTemperatureData: previous.rawData.getHistoricalTemperatureData.concat(retried.rawData.getHistoricalTemperatureData),
+            getHistoricalRefrigeratedDoorStatusData: previous.rawData.getHistoricalRefrigeratedDoorStatusData.concat(retried.rawData.getHistoricalRefrigeratedDoorStatusData),
+            showTracks: previous.rawData.showTracks.concat(retried.rawData.showTracks),
         };
+        const unavailable = [
+            ...previous.unavailable,
+            ...retried.unavailable.filter(u => !previous.unavailable.some(p => p.action === u.action)),
+        ];
+
+        return { ...previous, points: this.buildHistoricalPoints(previous.objectuid, rawData), gaps: retried.gaps, unavailable, rawData };
+    }
+
+    private async fetchAllHistorical(
+        auth: AuthCredentials,
+        objectuid: string,
+        windowsFor: (action: HistoricalAction) => HistoricalWindow[],
+        control: FetchControl,
+        progress: ChunkProgress
+    ): Promise<HistoricalFetchOutcome> {
+        const [temperature, door, tracks] = await Promise.all([
+            this.fetchHistoricalWindows(auth, 'getHistoricalTemperatureData', objectuid, windowsFor('getHistoricalTemperatureData'), control, progress),
+            this.fetchHistoricalWindows(auth, 'getHistoricalRefrigeratedDoorStatusData', objectuid, windowsFor('getHistoricalRefrigeratedDoorStatusData'), control, progress),
+            this.fetchHistoricalWindows(auth, 'showTracks', objectuid, windowsFor('showTracks'), control, progress),
+        ]);
 
-        const normalizedTempData = normalizeSensorData(rawTempData);
-        const normalizedDoorData = normalizeSensorData(rawDoorData);
+        const byAction: [HistoricalAction, ActionFetchResult<unknown>][] = [
+            ['getHistoricalTemperatureData', temperature],
+            ['getHistoricalRefrigeratedDoorStatusData', door],
+            ['showTracks', tracks],
+        ];
+
+        return {
+            rawData: {
+                getHistoricalTemperatureData: temperature.records,
+                getHistoricalRefrigeratedDoorStatusData: door.records,
+                showTracks: tracks.records,
+            },
+            gaps: byAction.flatMap(([, result]) => result.gaps),
+            unavailable: byAction.flatMap(([action, result]) => result.unavailableReason ? [{ action, reason: result.unavailableReason }] : []),
+        };
+    }
 
-        const tempData = WebfleetService.assignStableIds(normalizedTempData, 'temperature');
-        const doorData = WebfleetService.assignStableIds(normalizedDoorData, 'status');
+    private buildHistoricalPoints(objectuid: string, rawData: HistoricalRawData): HistoricalDataPoint[] {
+        const tempData = this.withSensorIds(objectuid, 'temperature', rawData.getHistoricalTemperatureData);
+        const doorData = this.withSensorIds(objectuid, 'door', rawData.getHistoricalRefrigeratedDoorStatusData);
+        const trackData = rawData.showTracks;
 
         const dataByTs = new Map<number, {
             temperatures?: { [id: number]: TemperatureReading };
@@ -377,46 +510,34 @@ class WebfleetService {
             return dataByTs.get(ts)!;
         };
     
-        if (Array.isArray(tempData)) {
-            tempData.forEach(d => {
-                const ts = new Date(d.timestamp).getTime();
-                if (d.sensor && typeof d.temperature === 'number') {
-                    const point = getOrCreatePoint(ts);
-                    if (!point.temperatures) point.temperatures = {};
-                    point.temperatures[d.sensor] = {
-                        value: d.temperature,
-                        name: d.sensorname || `Sensor ${d.sensor}`
-                    };
-                }
-            });
-        }
+        tempData.forEach(({ reading, sensorId }) => {
+            const readAt = new Date(reading.timestamp).getTime();
+            const point = getOrCreatePoint(readAt);
+            if (!point.temperatures) point.temperatures = {};
+            point.temperatures[sensorId] = {
+                value: reading.temperature,
+                name: this.sensors.label(objectuid, 'temperature', sensorId),
+                readAt,
+            };
+        });
     
-        if (Array.isArray(doorData)) {
-            doorData.forEach(d => {
-                const ts = new Date(d.timestamp).getTime();
-                if (d.sensor && d.status) {
-                    const point = getOrCreatePoint(ts);
-                    if (!point.doorStatus) point.doorStatus = {};
-                    point.doorStatus[d.sensor] = d.status === 'OPEN' ? 1 : 0;
-                }
-            });
-        }
+        doorData.forEach(({ reading, sensorId }) => {
+            const point = getOrCreatePoint(new Date(reading.timestamp).getTime());
+            if (!point.doorStatus) point.doorStatus = {};
+            point.doorStatus[sensorId] = reading.status === 'OPEN' ? 1 : 0;
+        });
     
-        if (Array.isArray(trackData)) {
-            trackData.forEach((d: any) => {
-                const ts = d.pos_time ? new Date(d.pos_time).getTime() : null;
-                if (ts && !isNaN(ts) && (typeof d.latitude === 'number' || typeof d.longitude === 'number')) {
-                     const point = getOrCreatePoint(ts);
-                     if (!point.location) {
-                        point.location = {
-                            lat: d.latitude / 1000000,
-                            lng: d.longitude / 1000000,
-                            address: d.postext || 'Address not available',
-                        };
-                     }
-                }
-            });
-        }
+        trackData.forEach(d => {
+            const ts = new Date(d.pos_time).getTime();
+            const point = getOrCreatePoint(ts);
+            if (!point.location) {
+                point.location = {
+                    lat: d.latitude / 1000000,
+                    lng: d.longitude / 1000000,
+                    address: d.postext || 'Address not available',
+                };
+            }
+        });
     
         const sortedTimestamps = Array.from(dataByTs.keys()).sort((a, b) => a - b);
     
@@ -446,6 +567,7 @@ class WebfleetService {
                             temperatures: carriedTemps,
                             doorStatus: lastDoor,
                             location: lastLocation,
+                            carriedForward: true,
                         });
                     }
                 }
@@ -466,8 +588,7 @@ class WebfleetService {
                 lastLocation = currentLocation;
             }
         }
-    
-        console.log(`[WebfleetService] Found ${results.length} filtered historical data points for object ${objectuid}.`);
+
         return results;
     }
 }
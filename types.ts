@@ -1,4 +1,6 @@
 
+import type { HistoricalRawData } from './services/webfleetSchemas';
+
 export interface AuthCredentials {
   apiKey: string;
   accountName: string;
@@ -14,14 +16,20 @@ export enum DoorStatus {
 export interface TemperatureReading {
   value: number;
   name: string;
+  // When the value was measured, as Webfleet reports it. Historical points carry it forward with the value.
+  readAt?: number;
 }
 
 export interface Vehicle {
   uid: string;
   name: string;
   type: 'Vehicle' | 'Asset';
+  // Webfleet account the object belongs to; selects the credentials used for its details and reports.
+  account: string;
   temperatures: { [sensorId: number]: TemperatureReading } | null;
   doorStatus: { [sensorId: number]: DoorStatus } | null;
+  // When each door state was measured, where Webfleet reports it.
+  doorReadAt?: { [sensorId: number]: number };
   location: {
     lat: number;
     lng: number;
@@ -29,6 +37,22 @@ export interface Vehicle {
   } | null;
 }
 
+export interface VehicleUpdate {
+  uid: string;
+  // Account whose queue delivered the message; object uids are only unique within an account.
+  account: string;
+  timestamp: number;
+  temperatures?: { [sensorId: number]: TemperatureReading };
+  doorStatus?: { [sensorId: number]: DoorStatus };
+  location?: {
+    lat: number;
+    lng: number;
+    address: string;
+  };
+}
+
+export type LiveUpdateStatus = 'connecting' | 'live' | 'polling' | 'offline';
+
 export interface HistoricalDataPoint {
   timestamp: number;
   temperatures: { [sensorId: number]: TemperatureReading } | null;
@@ -38,6 +62,8 @@ export interface HistoricalDataPoint {
     lng: number;
     address: string;
   } | null;
+  // Set on the points inserted just before a change, which repeat the previous state so graphs draw steps.
+  carriedForward?: boolean;
 }
 
 export interface Trip {
@@ -48,3 +74,30 @@ export interface Trip {
   distance: number;
   duration: number; // in seconds
 }
+
+export interface TimeRange {
+  startTime: number;
+  endTime: number;
+}
+
+export type HistoricalAction = 'getHistoricalTemperatureData' | 'getHistoricalRefrigeratedDoorStatusData' | 'showTracks';
+
+export interface HistoricalWindow {
+  startTime: number | null;
+  endTime: number | null;
+  rangePattern: string | null;
+}
+
+export interface DataGap extends HistoricalWindow {
+  action: HistoricalAction;
+  reason: string;
+}
+
+export interface HistoricalDataResult {
+  objectuid: string;
+  points: HistoricalDataPoint[];
+  gaps: DataGap[];
+  unavailable: { action: HistoricalAction; reason: string }[];
+  // Raw records per action, kept so that missing windows can be re-fetched and merged later.
+  rawData: HistoricalRawData;
+}